@@ -0,0 +1,69 @@
+// Local stand-in for the Open-Meteo archive and forecast APIs used to exercise retry and rate limiting.
+// Usage: node scripts/stubWeatherServer.js [port]
+// Then start the app with REACT_APP_OPEN_METEO_ARCHIVE_URL=http://localhost:4010/v1/archive
+// and REACT_APP_OPEN_METEO_FORECAST_URL=http://localhost:4010/v1/forecast (any path is served)
+//
+// Every request cycles through FAILURE_PATTERN: 429 with Retry-After, 503, then success.
+const http = require('http');
+
+const port = Number(process.argv[2] || process.env.PORT || 4010);
+const FAILURE_PATTERN = [429, 503, 200];
+let requestCount = 0;
+
+// Build one location's hourly or daily response for the requested range and fields
+const buildLocation = (latitude, longitude, startDate, endDate, fields, resolution, unixTime) => {
+  const daily = resolution === 'daily';
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const end = Date.parse(`${endDate}T23:00:00Z`);
+  const block = { time: [] };
+  fields.forEach(field => { block[field] = []; });
+
+  for (let t = start; t <= end; t += (daily ? 24 : 1) * 60 * 60 * 1000) {
+    block.time.push(unixTime ? t / 1000 : new Date(t).toISOString().slice(0, daily ? 10 : 16));
+    fields.forEach(field => {
+      block[field].push(Math.round((15 + 5 * Math.sin(t / 3600000 / 24 * 2 * Math.PI)) * 10) / 10);
+    });
+  }
+
+  return { latitude, longitude, utc_offset_seconds: 0, timezone: 'GMT', [resolution]: block };
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const status = FAILURE_PATTERN[requestCount++ % FAILURE_PATTERN.length];
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  res.setHeader('Content-Type', 'application/json');
+  console.log(`${new Date().toISOString()} ${req.method} ${url.pathname} -> ${status}`);
+
+  if (status === 429) {
+    res.setHeader('Retry-After', '1');
+    res.writeHead(429);
+    res.end(JSON.stringify({ error: true, reason: 'Too many requests' }));
+    return;
+  }
+
+  if (status === 503) {
+    res.writeHead(503);
+    res.end(JSON.stringify({ error: true, reason: 'Service unavailable' }));
+    return;
+  }
+
+  const latitudes = (url.searchParams.get('latitude') || '0').split(',').map(Number);
+  const longitudes = (url.searchParams.get('longitude') || '0').split(',').map(Number);
+  const resolution = url.searchParams.has('daily') ? 'daily' : 'hourly';
+  const fields = (url.searchParams.get(resolution) || 'temperature_2m').split(',');
+  const startDate = url.searchParams.get('start_date');
+  const endDate = url.searchParams.get('end_date');
+
+  const locations = latitudes.map((lat, i) => buildLocation(
+    lat, longitudes[i], startDate, endDate, fields, resolution, url.searchParams.get('timeformat') === 'unixtime'
+  ));
+  res.writeHead(200);
+  res.end(JSON.stringify(locations.length === 1 ? locations[0] : locations));
+});
+
+server.listen(port, () => {
+  console.log(`Stub weather server listening on http://localhost:${port}/v1/archive`);
+});
@@ -3,18 +3,24 @@ import { Layout } from 'antd';
 import TimelineSlider from './components/TimelineSlider';
 import MapContainer from './components/MapContainer';
 import DataSourceSidebar from './components/DataSourceSidebar';
+import NotificationCenter from './components/NotificationCenter';
+import { useWeatherSync } from './hooks/useWeatherSync';
 import './App.css';
 
 const { Header, Content, Sider, Footer } = Layout;
 
 const App: React.FC = () => {
+  // Single place that fetches weather data and recolors polygons
+  useWeatherSync();
+
   return (
     <Layout style={{ height: '100vh' }}>
       <Header style={{ padding: '0 24px', background: '#fff', borderBottom: '1px solid #f0f0f0' }}>
-        <div style={{ display: 'flex', alignItems: 'center', height: '100%' }}>
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', height: '100%' }}>
           <h1 style={{ margin: 0, fontSize: '20px', fontWeight: 600 }}>
             Geospatial Dashboard
           </h1>
+          <NotificationCenter />
         </div>
       </Header>
       
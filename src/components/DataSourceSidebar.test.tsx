@@ -0,0 +1,92 @@
+import React from 'react';
+import { Provider } from 'react-redux';
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import DataSourceSidebar from './DataSourceSidebar';
+import { configureFixtures } from '../services/fixtures';
+import { applyColorRules } from '../services/colorRules';
+import { getColorRamp, getPaletteColors } from '../services/colorRamps';
+import { setColorRules, setDataSourceBaseline } from '../store/slices/dataSourceSlice';
+import { clearWeatherDataCache } from '../services/weatherService';
+import { createReplayStore, loadWeather } from './__fixtures__/replayStore';
+import type { ReplayStore } from './__fixtures__/replayStore';
+
+const renderSidebar = async (store: ReplayStore) => {
+  render(
+    <Provider store={store}>
+      <DataSourceSidebar />
+    </Provider>
+  );
+  await act(async () => {
+    await loadWeather(store);
+  });
+};
+
+describe('DataSourceSidebar', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    clearWeatherDataCache();
+  });
+
+  afterEach(() => {
+    configureFixtures({ mode: 'off' });
+    jest.restoreAllMocks();
+  });
+
+  it('lists each polygon with its replayed value', async () => {
+    await renderSidebar(createReplayStore());
+
+    expect(screen.getByText('Polygons (2)')).toBeInTheDocument();
+    const items = screen.getAllByRole('listitem').filter(item => within(item).queryByText(/^(North field|Orchard)$/));
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveTextContent('North field📍 3 points🌡️ 15.1°C (avg)🎯 1 sample');
+    expect(items[1]).toHaveTextContent('Orchard📍 3 points🌡️ 14.4°C (avg)🎯 1 sample');
+  });
+
+  it('colors polygons with the source\'s rules', async () => {
+    const store = createReplayStore();
+    await renderSidebar(store);
+
+    const { availableDataSources } = store.getState().dataSources;
+    const rules = availableDataSources.find(ds => ds.id === 'temperature')!.colorRules;
+    store.getState().polygons.polygons.forEach(polygon => {
+      expect(polygon.color).toBe(applyColorRules(polygon.value!, rules));
+    });
+    expect(screen.getByText('Mean over the selected range')).toBeInTheDocument();
+  });
+
+  it('shows the replay controls while fixtures are replayed', async () => {
+    await renderSidebar(createReplayStore());
+
+    expect(screen.getByText('Fixtures')).toBeInTheDocument();
+    expect(screen.getByText('🎞️ Replaying')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Load fixtures/ })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Download fixtures/ })).not.toBeInTheDocument();
+  });
+
+  it('recolors rules from low to high values whatever their order in the list', async () => {
+    const store = createReplayStore();
+    const temperature = () => store.getState().dataSources.availableDataSources.find(ds => ds.id === 'temperature')!;
+    store.dispatch(setColorRules({ dataSourceId: 'temperature', rules: [...temperature().colorRules].reverse() }));
+    await renderSidebar(store);
+
+    fireEvent.click(screen.getByText('Apply to rules'));
+    fireEvent.click(await screen.findByText('Apply'));
+
+    const [low, middle, high] = getPaletteColors(getColorRamp('viridis'), 3);
+    await waitFor(() => {
+      expect(temperature().colorRules.map(rule => [rule.id, rule.color])).toEqual([['rule3', high], ['rule2', middle], ['rule1', low]]);
+    });
+  });
+
+  it('seeds a new alert from a raw rule value in the anomaly view', async () => {
+    const store = createReplayStore();
+    await renderSidebar(store);
+    act(() => {
+      store.dispatch(setDataSourceBaseline({ dataSourceId: 'temperature', baseline: { enabled: true, years: 3 } }));
+    });
+
+    fireEvent.click(screen.getByText('Add alert'));
+
+    expect(await screen.findByDisplayValue('25')).toBeInTheDocument();
+  });
+});
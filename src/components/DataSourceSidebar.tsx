@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { 
   Typography, 
   Select, 
@@ -12,88 +12,220 @@ import {
   Tag,
   Popconfirm,
   Card,
-  Alert,
   Spin,
   Modal,
+  Radio,
+  Upload,
+  Switch,
   message
 } from 'antd';
-import { PlusOutlined, DeleteOutlined, LoadingOutlined, EditOutlined } from '@ant-design/icons';
+import { PlusOutlined, DeleteOutlined, LoadingOutlined, EditOutlined, DownloadOutlined, ReloadOutlined, UploadOutlined, HolderOutlined } from '@ant-design/icons';
 import { useAppSelector, useAppDispatch } from '../store/hooks';
 import { 
   setSelectedDataSource, 
+  addDataSource,
+  removeDataSource,
+  setDataSourceProvider,
+  setDataSourceAggregation,
+  setDataSourceBaseline,
+  setDataSourceStyling,
   addColorRule, 
   updateColorRule, 
+  moveColorRule,
+  setFallbackColor,
+  setColorRules,
   deleteColorRule 
 } from '../store/slices/dataSourceSlice';
 import { selectPolygon, updatePolygon, deletePolygon } from '../store/slices/polygonSlice';
-import { fetchWeatherData } from '../services/weatherService';
-import type { ColorRule } from '../store/slices/dataSourceSlice';
+import { addAlert, updateAlert, removeAlert } from '../store/slices/alertsSlice';
+import { ALERT_WINDOW_HOURS, describeAlert } from '../services/alerts';
+import type { AlertDefinition, AlertOperator } from '../services/alerts';
+import { setUnitSystem, setQuantityUnit } from '../store/slices/unitsSlice';
+import { retryPolygonWeather } from '../store/slices/polygonStatusSlice';
+import { getDataProvider, listDataProviders } from '../services/providers';
+import { includesForecast } from '../services/weatherService';
+import {
+  AGGREGATIONS,
+  getAggregationTypes,
+  formatAggregation,
+  formatAggregatedValue,
+  getAggregatedUnit,
+  toDisplayAggregate,
+  fromDisplayAggregate
+} from '../services/aggregation';
+import type { AggregationType } from '../services/aggregation';
+import { UNITS, getDisplayUnit, toDisplayValue, fromDisplayValue, roundForDisplay } from '../services/units';
+import type { UnitSystem } from '../services/units';
+import { buildSeriesCsv, buildSummaryCsv, downloadCsv } from '../services/exportCsv';
+import { DERIVATIONS, getRequiredFields, getUnknownExpressionFields } from '../services/derivedSources';
+import { compileExpression, validateExpression } from '../services/expression';
+import { formatCoverage, NO_DATA_COLOR } from '../services/dataQuality';
+import {
+  DEFAULT_BASELINE_YEARS,
+  MAX_BASELINE_YEARS,
+  isAnomalyEnabled,
+  toDisplayAnomaly,
+  fromDisplayAnomaly,
+  formatAnomaly
+} from '../services/baseline';
+import { getFixtureMode, getFixtureCount, downloadFixtures, loadFixtures } from '../services/fixtures';
+import { RULE_OPERATORS, DEFAULT_EQUALS_TOLERANCE, DEFAULT_FALLBACK_COLOR, describeRule } from '../services/colorRules';
+import { COLOR_RAMPS, DEFAULT_RAMP_ID, getColorRamp, getOrderedRamps, getPaletteColors, sampleRamp } from '../services/colorRamps';
+import type { ColorRamp } from '../services/colorRamps';
+import { COLOR_VISIONS, findContrastWarnings, simulateColorVision } from '../services/colorVision';
+import type { ColorVision } from '../services/colorVision';
+import {
+  CLASSIFICATION_METHODS,
+  DEFAULT_COLOR_STYLING,
+  MIN_CLASSES,
+  MAX_CLASSES,
+  buildColorScale,
+  getClassIndex,
+  usesColorScale
+} from '../services/colorScales';
+import type { ClassificationMethod, ColorStyling, ColorStylingMode } from '../services/colorScales';
+import { getColoredValue } from '../services/colorEvaluation';
+import { analyzeColorRules, describeValues, fixIntoContiguousRanges, orderRulesByValue } from '../services/ruleAnalysis';
+import type { RuleIssue } from '../services/ruleAnalysis';
+import type { Quantity } from '../services/units';
+import { getPolygonDataSource, groupPolygonsBySource } from '../services/polygonSources';
+import type { ColorRule, DataSource, RuleCondition, RuleOperator } from '../store/slices/dataSourceSlice';
+import type { Polygon } from '../store/slices/polygonSlice';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
 
+// Bound styles of a 'between' condition, in interval notation
+const BETWEEN_BOUNDS = [
+  { value: '[)', includeLower: true, includeUpper: false },
+  { value: '[]', includeLower: true, includeUpper: true },
+  { value: '()', includeLower: false, includeUpper: false },
+  { value: '(]', includeLower: false, includeUpper: true },
+];
+
+const getBetweenBounds = (condition: RuleCondition): string => {
+  return `${condition.includeLower === false ? '(' : '['}${condition.includeUpper ? ']' : ')'}`;
+};
+
+// CSS approximation of a ramp; extra samples keep its perceptual interpolation
+const getGradientCss = (stops: string[]): string => {
+  return `linear-gradient(to right, ${sampleRamp(stops, 9).join(', ')})`;
+};
+
+// Qualitative palettes show their distinct colors side by side instead of a gradient
+const getPaletteCss = (ramp: ColorRamp): string => {
+  if (ramp.kind !== 'qualitative') {
+    return getGradientCss(ramp.stops);
+  }
+  const width = 100 / ramp.stops.length;
+  return `linear-gradient(to right, ${ramp.stops.map((color, index) => `${color} ${index * width}% ${(index + 1) * width}%`).join(', ')})`;
+};
+
+const renderPaletteOption = (ramp: ColorRamp) => (
+  <Option key={ramp.id} value={ramp.id}>
+    <span style={{ display: 'inline-block', width: '48px', height: '10px', marginRight: '8px', background: getPaletteCss(ramp) }} />
+    {ramp.label} ({ramp.kind}){ramp.colorBlindSafe && ' 👁️'}
+  </Option>
+);
+
 const DataSourceSidebar: React.FC = () => {
   const dispatch = useAppDispatch();
-  const { availableDataSources, selectedDataSourceId, isLoading, error } = useAppSelector(state => state.dataSources);
+  const { availableDataSources, selectedDataSourceId, weatherData, retries } = useAppSelector(state => state.dataSources);
+  const polygonStatus = useAppSelector(state => state.polygonStatus.byPolygon);
+  const selectedEndTime = useAppSelector(state => state.timeline.selectedEndTime);
   const { polygons, selectedPolygonId } = useAppSelector(state => state.polygons);
-  const { selectedStartTime, selectedEndTime } = useAppSelector(state => state.timeline);
+  const units = useAppSelector(state => state.units);
+  const alertDefinitions = useAppSelector(state => state.alerts.definitions);
   
-  const [newRule, setNewRule] = useState<Partial<ColorRule>>({
+  // Thresholds of the rule being added are canonical, like those of stored rules
+  const [newRule, setNewRule] = useState<Omit<ColorRule, 'id'>>({
     operator: '>',
     value: 0,
     color: '#1890ff'
   });
 
-  const [editingPolygon, setEditingPolygon] = useState<{ id: string; name: string } | null>(null);
+  // Rule whose drag handle is held; only that row is draggable so its inputs stay editable
+  const [draggableRuleId, setDraggableRuleId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Palette picked for recoloring the rules; applied only on request
+  const [rulePalette, setRulePalette] = useState({ rampId: DEFAULT_RAMP_ID, reversed: false });
+
+  // Polygon being edited in the modal; own rule thresholds are canonical for its data source
+  const [editingPolygon, setEditingPolygon] = useState<Pick<Polygon, 'id' | 'name' | 'dataSourceId' | 'colorRules'> | null>(null);
   const [editModalVisible, setEditModalVisible] = useState(false);
 
+  const [computedSource, setComputedSource] = useState<{ name: string; expression: string; quantity: Quantity } | null>(null);
+
+  // Alert being defined in the modal; threshold is in display units
+  const [newAlert, setNewAlert] = useState<Omit<AlertDefinition, 'id' | 'enabled' | 'dataSourceId'> | null>(null);
+
   const selectedDataSource = availableDataSources.find(ds => ds.id === selectedDataSourceId);
+  const getSourceUnit = (dataSource = selectedDataSource): string => {
+    return dataSource ? getAggregatedUnit(dataSource.aggregation, dataSource.quantity, units) : '';
+  };
+  const aggregatedUnit = getSourceUnit();
 
-  // Update polygon colors when color rules change
-  useEffect(() => {
-    const updatePolygonColors = async () => {
-      if (!selectedDataSource || polygons.length === 0) {
-        console.log('🚫 Skipping polygon color update:', {
-          hasDataSource: !!selectedDataSource,
-          polygonCount: polygons.length
-        });
-        return;
-      }
-
-      console.log('🔄 Updating polygon colors with rules:', {
-        dataSource: selectedDataSource.name,
-        colorRules: selectedDataSource.colorRules,
-        polygonCount: polygons.length,
-        timeRange: { selectedStartTime, selectedEndTime }
-      });
-
-      for (const polygon of polygons) {
-        try {
-          console.log(`🔄 Fetching weather for polygon: ${polygon.name}`);
-          await fetchWeatherData(
-            polygon, 
-            dispatch, 
-            selectedStartTime, 
-            selectedEndTime, 
-            selectedDataSource.colorRules
-          );
-        } catch (error) {
-          console.error('Error updating polygon colors:', error);
-        }
-      }
-    };
+  // Rule thresholds are stored canonically and edited in the display unit; in the anomaly view
+  // they are differences from the baseline. Polygons' own rules use their polygon's source.
+  const toDisplayThreshold = (value: number, dataSource = selectedDataSource): number => {
+    if (!dataSource) return value;
+    const toDisplay = isAnomalyEnabled(dataSource) ? toDisplayAnomaly : toDisplayAggregate;
+    return roundForDisplay(toDisplay(value, dataSource.aggregation, dataSource.quantity, units));
+  };
 
-    updatePolygonColors();
-  }, [selectedDataSource?.colorRules, selectedDataSource, polygons, dispatch, selectedStartTime, selectedEndTime]);
+  const fromDisplayThreshold = (value: number, dataSource = selectedDataSource): number => {
+    if (!dataSource) return value;
+    const fromDisplay = isAnomalyEnabled(dataSource) ? fromDisplayAnomaly : fromDisplayAggregate;
+    return fromDisplay(value, dataSource.aggregation, dataSource.quantity, units);
+  };
+
+  // Alerts compare raw values, so a new alert is seeded from the last raw rule; in the anomaly
+  // view those are the rules kept for the raw view
+  const getDefaultAlertThreshold = (dataSource: DataSource): number => {
+    const rawRules = isAnomalyEnabled(dataSource) ? dataSource.alternateColorRules ?? [] : dataSource.colorRules;
+    const value = rawRules[rawRules.length - 1]?.value ?? 0;
+    return roundForDisplay(toDisplayAggregate(value, { type: 'max' }, dataSource.quantity, units));
+  };
+
+  // The '=' tolerance is a distance between values, converted like an anomaly
+  const toDisplayTolerance = (value: number, dataSource = selectedDataSource): number => {
+    if (!dataSource) return value;
+    return roundForDisplay(toDisplayAnomaly(value, dataSource.aggregation, dataSource.quantity, units));
+  };
+
+  const fromDisplayTolerance = (value: number, dataSource = selectedDataSource): number => {
+    if (!dataSource) return value;
+    return fromDisplayAnomaly(value, dataSource.aggregation, dataSource.quantity, units);
+  };
+
+  const formatThreshold = (value: number, dataSource = selectedDataSource): string => {
+    return `${toDisplayThreshold(value, dataSource)} ${getSourceUnit(dataSource)}`.trim();
+  };
+
+  const getSourceOf = (polygon: Polygon) => getPolygonDataSource(polygon, availableDataSources, selectedDataSourceId);
+
+  // Legend entries per source in use (the selected one while there are no polygons); polygons with
+  // their own rules are listed separately and left out of their source's gradient or classes
+  const ownRulePolygons = polygons
+    .filter(polygon => polygon.colorRules)
+    .map(polygon => ({ polygon, dataSource: getSourceOf(polygon) }))
+    .filter((entry): entry is { polygon: Polygon; dataSource: DataSource } => !!entry.dataSource);
+  const legendGroups = (polygons.length > 0
+    ? groupPolygonsBySource(polygons.filter(polygon => !polygon.colorRules), availableDataSources, selectedDataSourceId)
+    : selectedDataSource ? [{ dataSource: selectedDataSource, polygons: [] as Polygon[] }] : []
+  ).filter(group => usesColorScale(group.dataSource.styling) || group.dataSource.colorRules.length > 0);
+
+  const styling = selectedDataSource?.styling ?? DEFAULT_COLOR_STYLING;
+  const handleStylingChange = (updates: Partial<ColorStyling>) => {
+    if (selectedDataSource) {
+      dispatch(setDataSourceStyling({ dataSourceId: selectedDataSource.id, styling: { ...styling, ...updates } }));
+    }
+  };
 
   const handleAddRule = () => {
-    if (selectedDataSource && newRule.operator && newRule.value !== undefined && newRule.color) {
-      const rule: ColorRule = {
-        id: `rule_${Date.now()}`,
-        operator: newRule.operator as ColorRule['operator'],
-        value: newRule.value,
-        color: newRule.color
-      };
+    if (selectedDataSource && newRule.color) {
+      const rule: ColorRule = { ...newRule, id: `rule_${Date.now()}` };
       dispatch(addColorRule({ dataSourceId: selectedDataSource.id, rule }));
       setNewRule({ operator: '>', value: 0, color: '#1890ff' });
     }
@@ -109,6 +241,103 @@ const DataSourceSidebar: React.FC = () => {
     }
   };
 
+  const handleDropRule = (toIndex: number) => {
+    if (selectedDataSource && dragIndex !== null) {
+      dispatch(moveColorRule({ dataSourceId: selectedDataSource.id, fromIndex: dragIndex, toIndex }));
+    }
+    setDragIndex(null);
+    setDraggableRuleId(null);
+  };
+
+  const handleUpdateCondition = (rule: ColorRule, index: number, updates: Partial<RuleCondition>) => {
+    const conditions = (rule.conditions ?? []).map((condition, i) => i === index ? { ...condition, ...updates } : condition);
+    handleUpdateRule(rule.id, { conditions });
+  };
+
+  const handleDeleteCondition = (rule: ColorRule, index: number) => {
+    handleUpdateRule(rule.id, { conditions: (rule.conditions ?? []).filter((_, i) => i !== index) });
+  };
+
+  const ruleAnalysis = analyzeColorRules(selectedDataSource?.colorRules ?? []);
+  const hasRuleProblems = Object.keys(ruleAnalysis.issues).length > 0 || ruleAnalysis.gaps.length > 0;
+  const rulesByValue = orderRulesByValue(selectedDataSource?.colorRules ?? []);
+  const winningRules = rulesByValue.filter((rule, index) => rulesByValue.indexOf(rule) === index);
+
+  // Rules are referred to by their position in the list
+  const getRuleNumber = (ruleId: string): number => {
+    return (selectedDataSource?.colorRules.findIndex(rule => rule.id === ruleId) ?? -1) + 1;
+  };
+
+  const describeRuleIssue = (issue: RuleIssue): string => {
+    switch (issue.type) {
+      case 'empty':
+        return 'Matches no value';
+      case 'duplicate':
+        return `Duplicate of rule ${getRuleNumber(issue.ruleId)}; never used`;
+      case 'unreachable':
+        return `Never wins: ${issue.ruleIds.length === 1 ? 'rule' : 'rules'} ${issue.ruleIds.map(getRuleNumber).join(', ')} match all its values first`;
+      case 'overlap':
+        return `Rule ${getRuleNumber(issue.ruleId)} takes values ${describeValues(issue.values, formatThreshold)}`;
+    }
+  };
+
+  const handleFixRules = () => {
+    if (selectedDataSource) {
+      dispatch(setColorRules({ dataSourceId: selectedDataSource.id, rules: fixIntoContiguousRanges(selectedDataSource.colorRules) }));
+    }
+  };
+
+  // Rules take the palette's colors from low to high values; rules that never win keep theirs
+  const handleApplyPalette = () => {
+    if (selectedDataSource) {
+      const colors = getPaletteColors(getColorRamp(rulePalette.rampId), winningRules.length, rulePalette.reversed);
+      dispatch(setColorRules({
+        dataSourceId: selectedDataSource.id,
+        rules: selectedDataSource.colorRules.map(rule => {
+          const index = winningRules.indexOf(rule);
+          return index === -1 ? rule : { ...rule, color: colors[index] };
+        })
+      }));
+    }
+  };
+
+  // Colors as shown on the map from low to high values: the winning rules, or the classes or gradient of the ramp
+  const styledColors = styling.mode === 'rules'
+    ? rulesByValue.map(rule => rule.color)
+    : getPaletteColors(getColorRamp(styling.rampId), styling.mode === 'classes' ? styling.classCount : 9, styling.reversed);
+  const contrastWarnings = styling.mode === 'ramp' ? [] : findContrastWarnings(styledColors);
+  // Warnings count rules by their place in the list and classes from the lowest
+  const describeContrastPair = (index: number): string => styling.mode === 'rules'
+    ? `Rules ${getRuleNumber(rulesByValue[index].id)} and ${getRuleNumber(rulesByValue[index + 1].id)}`
+    : `Classes ${index + 1} and ${index + 2}`;
+
+  const renderVisionPreview = () => (
+    <div style={{ marginTop: '16px' }}>
+      <Text strong style={{ display: 'block', marginBottom: '4px' }}>Color vision preview</Text>
+      {(Object.keys(COLOR_VISIONS) as ColorVision[]).map(vision => {
+        const colors = styledColors.map(color => simulateColorVision(color, vision));
+        return (
+          <div key={vision} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+            <Text type="secondary" style={{ fontSize: '12px', width: '90px', flexShrink: 0 }}>{vision === 'normal' ? 'Normal' : vision}</Text>
+            {styling.mode === 'ramp' ? (
+              <div title={COLOR_VISIONS[vision].label} style={{ flex: 1, height: '12px', borderRadius: '2px', background: `linear-gradient(to right, ${colors.join(', ')})` }} />
+            ) : (
+              <div title={COLOR_VISIONS[vision].label} style={{ display: 'flex', flex: 1, height: '12px' }}>
+                {colors.map((color, index) => <div key={index} style={{ flex: 1, backgroundColor: color }} />)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {contrastWarnings.map(warning => (
+        <Text key={warning.index} type="warning" style={{ fontSize: '12px', display: 'block' }}>
+          ⚠️ {describeContrastPair(warning.index)} are hard to tell apart
+          {warning.visions.includes('normal') ? '' : ` with ${warning.visions.join(', ')}`}
+        </Text>
+      ))}
+    </div>
+  );
+
   const handleDeleteRule = (ruleId: string) => {
     if (selectedDataSource) {
       dispatch(deleteColorRule({ 
@@ -118,20 +347,130 @@ const DataSourceSidebar: React.FC = () => {
     }
   };
 
-  const handleEditPolygon = (polygonId: string, currentName: string) => {
-    setEditingPolygon({ id: polygonId, name: currentName });
+  const handleExport = (kind: 'series' | 'summary') => {
+    if (!selectedDataSource) return;
+    // Only polygons drawn with the selected source have its series
+    const sourcePolygons = polygons.filter(polygon => getSourceOf(polygon)?.id === selectedDataSource.id);
+    const content = kind === 'series'
+      ? buildSeriesCsv(sourcePolygons, weatherData, selectedDataSource, units)
+      : buildSummaryCsv(sourcePolygons, selectedDataSource, units);
+    downloadCsv(`${selectedDataSource.id}_${kind}.csv`, content);
+    message.success(`Exported ${sourcePolygons.length} polygon${sourcePolygons.length !== 1 ? 's' : ''}`);
+  };
+
+  // Replace the replayed fixtures with a file recorded earlier
+  const handleLoadFixtures = (file: File) => {
+    file.text()
+      .then(text => {
+        loadFixtures(JSON.parse(text));
+        message.success(`Loaded ${getFixtureCount()} fixture${getFixtureCount() !== 1 ? 's' : ''}`);
+      })
+      .catch(error => message.error(`Could not load fixtures: ${error instanceof Error ? error.message : error}`));
+    return false;
+  };
+
+  // Computed sources are fetched from the selected source's provider
+  const computedProviderId = selectedDataSource?.providerId || listDataProviders()[0].id;
+  const computedFields = getDataProvider(computedProviderId).hourlyFields;
+
+  // Syntax errors first, then fields the provider would not know
+  const getExpressionError = (expression: string): string | null => {
+    const syntaxError = validateExpression(expression);
+    if (syntaxError) {
+      return syntaxError;
+    }
+    const variables = compileExpression(expression).variables;
+    const unknown = getUnknownExpressionFields(expression, computedProviderId);
+    if (unknown.length > 0) {
+      return `Unknown field${unknown.length !== 1 ? 's' : ''}: ${unknown.join(', ')}`;
+    }
+    return variables.length === 0 ? 'Expression must use at least one field' : null;
+  };
+  const expressionError = computedSource ? getExpressionError(computedSource.expression) : null;
+
+  const handleAddComputedSource = () => {
+    if (!computedSource || expressionError || !computedSource.name.trim()) {
+      return;
+    }
+    const id = `computed_${Date.now()}`;
+    const dataSource: DataSource = {
+      id,
+      name: computedSource.name.trim(),
+      field: id,
+      derivation: { type: 'expression', expression: computedSource.expression },
+      quantity: computedSource.quantity,
+      icon: '🧮',
+      providerId: computedProviderId,
+      colorRules: [],
+      aggregation: { type: 'mean' },
+      isActive: true
+    };
+    dispatch(addDataSource(dataSource));
+    setComputedSource(null);
+    message.success(`Computed source "${dataSource.name}" added`);
+  };
+
+  const handleAddAlert = () => {
+    if (!selectedDataSource || !newAlert || !newAlert.name.trim()) {
+      return;
+    }
+    dispatch(addAlert({
+      ...newAlert,
+      id: `alert_${Date.now()}`,
+      name: newAlert.name.trim(),
+      dataSourceId: selectedDataSource.id,
+      threshold: fromDisplayAggregate(newAlert.threshold, newAlert.aggregation, selectedDataSource.quantity, units),
+      enabled: true
+    }));
+    setNewAlert(null);
+    message.success('Alert added; it is checked whenever new data arrives');
+  };
+
+  const handleEditPolygon = (polygon: Polygon) => {
+    setEditingPolygon({
+      id: polygon.id,
+      name: polygon.name,
+      dataSourceId: getSourceOf(polygon)?.id ?? polygon.dataSourceId,
+      colorRules: polygon.colorRules
+    });
     setEditModalVisible(true);
   };
 
+  const editingDataSource = editingPolygon
+    ? availableDataSources.find(ds => ds.id === editingPolygon.dataSourceId)
+    : undefined;
+
+  // Own rules start as a copy of the source's rules; thresholds of another source's quantity
+  // would not make sense, so changing the source starts over from its rules
+  const handleEditingSourceChange = (dataSourceId: string) => {
+    const dataSource = availableDataSources.find(ds => ds.id === dataSourceId);
+    setEditingPolygon(prev => prev ? {
+      ...prev,
+      dataSourceId,
+      colorRules: prev.colorRules && dataSource ? dataSource.colorRules.map(rule => ({ ...rule })) : undefined
+    } : null);
+  };
+
+  const handleEditingRuleChange = (ruleId: string, updates: Partial<ColorRule>) => {
+    setEditingPolygon(prev => prev && prev.colorRules ? {
+      ...prev,
+      colorRules: prev.colorRules.map(rule => rule.id === ruleId ? { ...rule, ...updates } : rule)
+    } : prev);
+  };
+
   const handleSavePolygonEdit = () => {
     if (editingPolygon) {
       dispatch(updatePolygon({ 
         id: editingPolygon.id, 
-        updates: { name: editingPolygon.name } 
+        updates: {
+          name: editingPolygon.name,
+          dataSourceId: editingPolygon.dataSourceId,
+          colorRules: editingPolygon.colorRules
+        } 
       }));
       setEditModalVisible(false);
       setEditingPolygon(null);
-      message.success('Polygon name updated');
+      message.success('Polygon updated');
     }
   };
 
@@ -143,43 +482,147 @@ const DataSourceSidebar: React.FC = () => {
     message.success(`Polygon "${polygonName}" deleted`);
   };
 
-  const getOperatorSymbol = (operator: ColorRule['operator']) => {
-    switch (operator) {
-      case '=': return '=';
-      case '<': return '<';
-      case '>': return '>';
-      case '<=': return '≤';
-      case '>=': return '≥';
-      default: return operator;
-    }
+  // Operator and threshold inputs of one condition; 'between' adds an upper bound and its
+  // bound style, '=' its tolerance
+  const renderConditionInputs = (
+    condition: RuleCondition,
+    onChange: (updates: Partial<RuleCondition>) => void,
+    dataSource = selectedDataSource
+  ) => (
+    <>
+      <Select
+        size="small"
+        value={condition.operator}
+        onChange={(operator: RuleOperator) => onChange(
+          operator === 'between' && condition.upperValue === undefined
+            ? { operator, upperValue: condition.value }
+            : { operator }
+        )}
+        style={{ width: '84px' }}
+      >
+        {RULE_OPERATORS.map(option => (
+          <Option key={option.value} value={option.value}>{option.label}</Option>
+        ))}
+      </Select>
+      <InputNumber
+        size="small"
+        value={toDisplayThreshold(condition.value, dataSource)}
+        onChange={(value) => onChange({ value: fromDisplayThreshold(value || 0, dataSource) })}
+        style={{ width: '72px' }}
+      />
+      {condition.operator === 'between' && (
+        <>
+          <Text type="secondary" style={{ fontSize: '12px' }}>and</Text>
+          <InputNumber
+            size="small"
+            value={toDisplayThreshold(condition.upperValue ?? condition.value, dataSource)}
+            onChange={(value) => onChange({ upperValue: fromDisplayThreshold(value || 0, dataSource) })}
+            style={{ width: '72px' }}
+          />
+          <Select
+            size="small"
+            value={getBetweenBounds(condition)}
+            onChange={(value: string) => {
+              const bounds = BETWEEN_BOUNDS.find(option => option.value === value);
+              if (bounds) {
+                onChange({ includeLower: bounds.includeLower, includeUpper: bounds.includeUpper });
+              }
+            }}
+            style={{ width: '60px' }}
+          >
+            {BETWEEN_BOUNDS.map(option => (
+              <Option key={option.value} value={option.value}>{option.value}</Option>
+            ))}
+          </Select>
+        </>
+      )}
+      {condition.operator === '=' && (
+        <InputNumber
+          size="small"
+          prefix="±"
+          min={0}
+          value={toDisplayTolerance(condition.tolerance ?? DEFAULT_EQUALS_TOLERANCE, dataSource)}
+          onChange={(value) => onChange({ tolerance: fromDisplayTolerance(value || 0, dataSource) })}
+          style={{ width: '72px' }}
+        />
+      )}
+      <Text type="secondary" style={{ fontSize: '12px' }}>{getSourceUnit(dataSource)}</Text>
+    </>
+  );
+
+  const renderLegendRow = (key: React.Key, swatch: React.CSSProperties, label: string, count?: number) => (
+    <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+      <div 
+        style={{
+          width: '16px',
+          height: '16px',
+          borderRadius: '2px',
+          ...swatch
+        }}
+      />
+      <Text style={{ fontSize: '12px', flex: 1 }}>{label}</Text>
+      {count !== undefined && <Text type="secondary" style={{ fontSize: '12px' }}>{count}</Text>}
+    </div>
+  );
+
+  const renderRuleLegend = (rules: ColorRule[], dataSource: DataSource) => (
+    <>
+      {rules.map(rule => renderLegendRow(
+        rule.id,
+        { backgroundColor: rule.color },
+        describeRule(rule, value => formatThreshold(value, dataSource))
+      ))}
+      {renderLegendRow('fallback', { backgroundColor: dataSource.fallbackColor ?? DEFAULT_FALLBACK_COLOR }, 'Anything else')}
+    </>
+  );
+
+  // Rules, gradient or classes of one source; a gradient or classes are fitted to its polygons' values
+  const renderSourceLegend = (dataSource: DataSource, sourcePolygons: Polygon[]) => {
+    const sourceStyling = dataSource.styling ?? DEFAULT_COLOR_STYLING;
+    const coloredValues = sourcePolygons
+      .map(polygon => polygon.quality
+        ? getColoredValue({ value: polygon.value ?? null, quality: polygon.quality, anomaly: polygon.anomaly ?? null })
+        : null)
+      .filter((value): value is number => value !== null);
+    const colorScale = usesColorScale(sourceStyling) ? buildColorScale(sourceStyling, coloredValues) : null;
+    const format = (value: number) => formatThreshold(value, dataSource);
+
+    return (
+      <>
+        <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginBottom: '8px' }}>
+          {AGGREGATIONS[dataSource.aggregation.type].label}
+          {AGGREGATIONS[dataSource.aggregation.type].usesThreshold && ` (${formatAggregation(dataSource.aggregation, dataSource.quantity, units)})`}
+          {' '}over the selected range
+          {isAnomalyEnabled(dataSource) && `, as deviation from the ${dataSource.baseline?.years}-year baseline`}
+        </Text>
+        {usesColorScale(sourceStyling) && !colorScale && (
+          <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginBottom: '4px' }}>
+            Colors appear once polygons have data
+          </Text>
+        )}
+        {colorScale?.mode === 'ramp' && (
+          <div style={{ marginBottom: '8px' }}>
+            <div style={{ height: '12px', borderRadius: '2px', background: getGradientCss(colorScale.stops) }} />
+            <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Text style={{ fontSize: '12px' }}>{format(colorScale.min)}</Text>
+              {colorScale.center !== null && <Text style={{ fontSize: '12px' }}>{format(colorScale.center)}</Text>}
+              <Text style={{ fontSize: '12px' }}>{format(colorScale.max)}</Text>
+            </div>
+          </div>
+        )}
+        {colorScale?.mode === 'classes' && colorScale.colors.map((color, index) => renderLegendRow(
+          index,
+          { backgroundColor: color },
+          `${format(colorScale.breaks[index])} – ${format(colorScale.breaks[index + 1])}`,
+          coloredValues.filter(value => getClassIndex(colorScale.breaks, value) === index).length
+        ))}
+        {!usesColorScale(sourceStyling) && renderRuleLegend(dataSource.colorRules, dataSource)}
+      </>
+    );
   };
 
   return (
     <div style={{ height: '100%', overflow: 'auto' }}>
-      {/* Loading Indicator */}
-      {isLoading && (
-        <div style={{ padding: '16px', textAlign: 'center' }}>
-          <Spin indicator={<LoadingOutlined style={{ fontSize: 24 }} />} />
-          <div style={{ marginTop: '8px' }}>
-            <Text type="secondary">Fetching weather data...</Text>
-          </div>
-        </div>
-      )}
-
-      {/* Error Alert */}
-      {error && (
-        <div style={{ padding: '16px' }}>
-          <Alert
-            message="Weather Data Error"
-            description={error}
-            type="error"
-            showIcon
-            closable
-            onClose={() => dispatch({ type: 'dataSources/setError', payload: null })}
-          />
-        </div>
-      )}
-
       {/* Data Source Selection */}
       <div className="sidebar-section">
         <Title level={4}>Data Source</Title>
@@ -187,104 +630,431 @@ const DataSourceSidebar: React.FC = () => {
           style={{ width: '100%' }}
           value={selectedDataSourceId}
           onChange={(value) => dispatch(setSelectedDataSource(value))}
-          disabled={isLoading}
         >
           {availableDataSources.map(ds => (
             <Option key={ds.id} value={ds.id}>
-              {ds.name} ({ds.unit})
+              {ds.icon} {ds.name} ({getDisplayUnit(ds.quantity, units).symbol})
             </Option>
           ))}
         </Select>
+        <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: '4px' }}>
+          New polygons use this source; edit a polygon to change its own source or rules
+        </Text>
+        <Space style={{ marginTop: '8px' }} wrap>
+          <Button
+            size="small"
+            icon={<PlusOutlined />}
+            onClick={() => setComputedSource({ name: '', expression: '', quantity: 'temperature' })}
+          >
+            Computed source
+          </Button>
+          {selectedDataSource?.derivation?.type === 'expression' && (
+            <Popconfirm
+              title={`Remove "${selectedDataSource.name}"?`}
+              onConfirm={() => dispatch(removeDataSource(selectedDataSource.id))}
+              okText="Remove"
+              cancelText="Cancel"
+              okType="danger"
+            >
+              <Button size="small" danger icon={<DeleteOutlined />}>Remove</Button>
+            </Popconfirm>
+          )}
+        </Space>
+        {selectedDataSource?.derivation && (
+          <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: '8px' }}>
+            {selectedDataSource.derivation.type === 'expression'
+              ? `= ${selectedDataSource.derivation.expression}`
+              : DERIVATIONS[selectedDataSource.derivation.type].label}
+            {' '}from {getRequiredFields(selectedDataSource, 'hourly').join(', ')}
+          </Text>
+        )}
+        {selectedDataSource && (
+          <div style={{ marginTop: '12px' }}>
+            <Text type="secondary" style={{ fontSize: '12px' }}>Provider</Text>
+            <Select
+              style={{ width: '100%', marginTop: '4px' }}
+              value={selectedDataSource.providerId}
+              onChange={(value) => dispatch(setDataSourceProvider({ 
+                dataSourceId: selectedDataSource.id, 
+                providerId: value 
+              }))}
+                >
+              {listDataProviders().map(provider => (
+                <Option key={provider.id} value={provider.id}>
+                  {provider.name}
+                </Option>
+              ))}
+            </Select>
+            <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: '12px' }}>
+              Aggregation over the selected range
+            </Text>
+            <Space.Compact style={{ width: '100%', marginTop: '4px' }}>
+              <Select
+                style={{ width: '100%' }}
+                value={selectedDataSource.aggregation.type}
+                onChange={(type: AggregationType) => dispatch(setDataSourceAggregation({
+                  dataSourceId: selectedDataSource.id,
+                  aggregation: { ...selectedDataSource.aggregation, type }
+                }))}
+              >
+                {getAggregationTypes(selectedDataSource.quantity).map(type => (
+                  <Option key={type} value={type}>
+                    {AGGREGATIONS[type].label}
+                  </Option>
+                ))}
+              </Select>
+              {AGGREGATIONS[selectedDataSource.aggregation.type].usesThreshold && (
+                <InputNumber
+                  value={roundForDisplay(toDisplayValue(selectedDataSource.aggregation.threshold ?? 0, selectedDataSource.quantity, units))}
+                  addonAfter={getDisplayUnit(selectedDataSource.quantity, units).symbol}
+                  onChange={(value) => dispatch(setDataSourceAggregation({
+                    dataSourceId: selectedDataSource.id,
+                    aggregation: {
+                      ...selectedDataSource.aggregation,
+                      threshold: fromDisplayValue(value ?? 0, selectedDataSource.quantity, units)
+                    }
+                  }))}
+                  style={{ width: '140px' }}
+                />
+              )}
+            </Space.Compact>
+            <Space style={{ marginTop: '12px', display: 'flex' }}>
+              <Switch
+                size="small"
+                checked={!!selectedDataSource.baseline?.enabled}
+                onChange={(enabled) => dispatch(setDataSourceBaseline({
+                  dataSourceId: selectedDataSource.id,
+                  baseline: { years: selectedDataSource.baseline?.years ?? DEFAULT_BASELINE_YEARS, enabled }
+                }))}
+              />
+              <Text style={{ fontSize: '12px' }}>Anomaly vs. previous</Text>
+              <InputNumber
+                size="small"
+                min={1}
+                max={MAX_BASELINE_YEARS}
+                precision={0}
+                value={selectedDataSource.baseline?.years ?? DEFAULT_BASELINE_YEARS}
+                onChange={(years) => years && dispatch(setDataSourceBaseline({
+                  dataSourceId: selectedDataSource.id,
+                  baseline: { enabled: !!selectedDataSource.baseline?.enabled, years }
+                }))}
+                style={{ width: '60px' }}
+              />
+              <Text style={{ fontSize: '12px' }}>years</Text>
+            </Space>
+          </div>
+        )}
+      </div>
+
+      {/* Units */}
+      <div className="sidebar-section">
+        <Title level={4}>Units</Title>
+        <Radio.Group
+          size="small"
+          value={units.system}
+          onChange={(e) => dispatch(setUnitSystem(e.target.value as UnitSystem))}
+        >
+          <Radio.Button value="metric">Metric</Radio.Button>
+          <Radio.Button value="imperial">Imperial</Radio.Button>
+        </Radio.Group>
+        {selectedDataSource && UNITS[selectedDataSource.quantity].length > 1 && (
+          <Select
+            size="small"
+            style={{ width: '100px', marginLeft: '8px' }}
+            value={getDisplayUnit(selectedDataSource.quantity, units).id}
+            onChange={(unitId) => dispatch(setQuantityUnit({ quantity: selectedDataSource.quantity, unitId }))}
+          >
+            {UNITS[selectedDataSource.quantity].map(unit => (
+              <Option key={unit.id} value={unit.id}>{unit.symbol}</Option>
+            ))}
+          </Select>
+        )}
+        {selectedDataSource && polygons.length > 0 && (
+          <Space style={{ marginTop: '12px', display: 'flex' }}>
+            <Button size="small" icon={<DownloadOutlined />} onClick={() => handleExport('summary')}>
+              Export summary
+            </Button>
+            <Button size="small" icon={<DownloadOutlined />} onClick={() => handleExport('series')}>
+              Export series
+            </Button>
+          </Space>
+        )}
       </div>
 
+      {/* Fixture recording and replay */}
+      {getFixtureMode() !== 'off' && (
+        <div className="sidebar-section">
+          <Title level={4}>Fixtures</Title>
+          {getFixtureMode() === 'record' ? (
+            <Space>
+              <Tag color="red">🎞️ Recording</Tag>
+              <Button size="small" icon={<DownloadOutlined />} onClick={() => downloadFixtures()}>
+                Download fixtures
+              </Button>
+            </Space>
+          ) : (
+            <Space>
+              <Tag color="purple">🎞️ Replaying</Tag>
+              <Upload accept=".json,application/json" showUploadList={false} beforeUpload={handleLoadFixtures}>
+                <Button size="small" icon={<UploadOutlined />}>Load fixtures</Button>
+              </Upload>
+            </Space>
+          )}
+        </div>
+      )}
+
       {/* Color Rules */}
       {selectedDataSource && (
         <div className="sidebar-section">
           <Title level={4}>Color Rules</Title>
+          <Radio.Group
+            size="small"
+            value={styling.mode}
+            onChange={(event) => handleStylingChange({ mode: event.target.value as ColorStylingMode })}
+            style={{ display: 'block', marginBottom: '8px' }}
+          >
+            <Radio.Button value="rules">Rules</Radio.Button>
+            <Radio.Button value="ramp">Gradient</Radio.Button>
+            <Radio.Button value="classes">Classes</Radio.Button>
+          </Radio.Group>
           <Text type="secondary" style={{ fontSize: '12px' }}>
-            Define how data values are colored on the map
+            {styling.mode === 'rules' && 'Rules are checked top to bottom and the first match colors the polygon; drag to reorder'}
+            {styling.mode === 'ramp' && 'Values are colored along a gradient between the range limits'}
+            {styling.mode === 'classes' && 'Classes are computed from the values of the polygons on the map'}
           </Text>
           
-          <div style={{ marginTop: '16px' }}>
-            {selectedDataSource.colorRules.map((rule) => (
-              <div key={rule.id} className="color-rule-item">
-                <div 
-                  className="color-preview" 
-                  style={{ backgroundColor: rule.color }}
-                />
-                <Select
-                  size="small"
-                  value={rule.operator}
-                  onChange={(value) => handleUpdateRule(rule.id, { operator: value })}
-                  style={{ width: '60px' }}
+          {styling.mode !== 'rules' ? (
+            <Space direction="vertical" style={{ width: '100%', marginTop: '16px' }}>
+              <Select
+                size="small"
+                value={styling.rampId}
+                onChange={(rampId: string) => handleStylingChange({ rampId })}
+                style={{ width: '100%' }}
+              >
+                {getOrderedRamps().map(renderPaletteOption)}
+              </Select>
+              <Space>
+                <Switch size="small" checked={!!styling.reversed} onChange={(reversed) => handleStylingChange({ reversed })} />
+                <Text style={{ fontSize: '12px' }}>Reverse colors</Text>
+              </Space>
+              {styling.mode === 'ramp' ? (
+                <Space wrap>
+                  <InputNumber
+                    size="small"
+                    addonBefore="Min"
+                    placeholder="auto"
+                    value={styling.min === undefined ? null : toDisplayThreshold(styling.min)}
+                    onChange={(value) => handleStylingChange({ min: value === null ? undefined : fromDisplayThreshold(value) })}
+                    style={{ width: '130px' }}
+                  />
+                  <InputNumber
+                    size="small"
+                    addonBefore="Max"
+                    placeholder="auto"
+                    value={styling.max === undefined ? null : toDisplayThreshold(styling.max)}
+                    onChange={(value) => handleStylingChange({ max: value === null ? undefined : fromDisplayThreshold(value) })}
+                    style={{ width: '130px' }}
+                  />
+                  {getColorRamp(styling.rampId).kind === 'diverging' && (
+                    <InputNumber
+                      size="small"
+                      addonBefore="Center"
+                      placeholder="auto"
+                      value={styling.center === undefined ? null : toDisplayThreshold(styling.center)}
+                      onChange={(value) => handleStylingChange({ center: value === null ? undefined : fromDisplayThreshold(value) })}
+                      style={{ width: '130px' }}
+                    />
+                  )}
+                  <Text type="secondary" style={{ fontSize: '12px' }}>{aggregatedUnit}</Text>
+                </Space>
+              ) : (
+                <Space wrap>
+                  <Select
+                    size="small"
+                    value={styling.method}
+                    onChange={(method: ClassificationMethod) => handleStylingChange({ method })}
+                    style={{ width: '180px' }}
+                  >
+                    {(Object.keys(CLASSIFICATION_METHODS) as ClassificationMethod[]).map(method => (
+                      <Option key={method} value={method}>{CLASSIFICATION_METHODS[method].label}</Option>
+                    ))}
+                  </Select>
+                  <InputNumber
+                    size="small"
+                    min={MIN_CLASSES}
+                    max={MAX_CLASSES}
+                    precision={0}
+                    addonAfter="classes"
+                    value={styling.classCount}
+                    onChange={(value) => handleStylingChange({ classCount: value ?? DEFAULT_COLOR_STYLING.classCount })}
+                    style={{ width: '120px' }}
+                  />
+                </Space>
+              )}
+            </Space>
+          ) : (
+            <>
+            <div style={{ marginTop: '16px' }}>
+              {selectedDataSource.colorRules.map((rule, index) => (
+                <div
+                  key={rule.id}
+                  className="color-rule-item"
+                  draggable={draggableRuleId === rule.id}
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(event) => event.preventDefault()}
+                  onDrop={() => handleDropRule(index)}
+                  onDragEnd={() => {
+                    setDragIndex(null);
+                    setDraggableRuleId(null);
+                  }}
+                  style={{ flexWrap: 'wrap', opacity: dragIndex === index ? 0.5 : 1 }}
                 >
-                  <Option value="<">&lt;</Option>
-                  <Option value="<=">&le;</Option>
-                  <Option value="=">=</Option>
-                  <Option value=">=">&ge;</Option>
-                  <Option value=">">&gt;</Option>
-                </Select>
-                <InputNumber
-                  size="small"
-                  value={rule.value}
-                  onChange={(value) => handleUpdateRule(rule.id, { value: value || 0 })}
-                  style={{ width: '80px' }}
-                />
+                  <HolderOutlined
+                    style={{ cursor: 'grab', color: '#999' }}
+                    onMouseDown={() => setDraggableRuleId(rule.id)}
+                    onMouseUp={() => setDraggableRuleId(null)}
+                  />
+                  <Text type="secondary" style={{ fontSize: '12px' }}>{index + 1}.</Text>
+                  <div 
+                    className="color-preview" 
+                    style={{ backgroundColor: rule.color }}
+                  />
+                  {renderConditionInputs(rule, updates => handleUpdateRule(rule.id, updates))}
+                  <ColorPicker
+                    size="small"
+                    value={rule.color}
+                    onChange={(color) => handleUpdateRule(rule.id, { color: color.toHexString() })}
+                  />
+                  <Popconfirm
+                    title="Delete this rule?"
+                    onConfirm={() => handleDeleteRule(rule.id)}
+                    okText="Yes"
+                    cancelText="No"
+                  >
+                    <Button size="small" type="text" icon={<DeleteOutlined />} danger />
+                  </Popconfirm>
+                  {(rule.conditions ?? []).map((condition, conditionIndex) => (
+                    <div key={conditionIndex} style={{ display: 'flex', alignItems: 'center', gap: '8px', width: '100%', paddingLeft: '24px' }}>
+                      <Select
+                        size="small"
+                        value={rule.combinator ?? 'and'}
+                        onChange={(combinator: 'and' | 'or') => handleUpdateRule(rule.id, { combinator })}
+                        style={{ width: '64px' }}
+                      >
+                        <Option value="and">AND</Option>
+                        <Option value="or">OR</Option>
+                      </Select>
+                      {renderConditionInputs(condition, updates => handleUpdateCondition(rule, conditionIndex, updates))}
+                      <Button
+                        size="small"
+                        type="text"
+                        icon={<DeleteOutlined />}
+                        onClick={() => handleDeleteCondition(rule, conditionIndex)}
+                      />
+                    </div>
+                  ))}
+                  <Button
+                    size="small"
+                    type="link"
+                    icon={<PlusOutlined />}
+                    onClick={() => handleUpdateRule(rule.id, {
+                      conditions: (rule.conditions ?? []).concat({ operator: '<', value: rule.value })
+                    })}
+                    style={{ paddingLeft: '24px' }}
+                  >
+                    Condition
+                  </Button>
+                  {(ruleAnalysis.issues[rule.id] ?? []).map((issue, issueIndex) => (
+                    <Text
+                      key={issueIndex}
+                      type={issue.type === 'overlap' ? 'secondary' : 'warning'}
+                      style={{ fontSize: '12px', display: 'block', width: '100%', paddingLeft: '24px' }}
+                    >
+                      {issue.type === 'overlap' ? 'ℹ️' : '⚠️'} {describeRuleIssue(issue)}
+                    </Text>
+                  ))}
+                </div>
+              ))}
+              <div className="color-rule-item">
                 <ColorPicker
                   size="small"
-                  value={rule.color}
-                  onChange={(color) => handleUpdateRule(rule.id, { color: color.toHexString() })}
+                  value={selectedDataSource.fallbackColor ?? DEFAULT_FALLBACK_COLOR}
+                  onChange={(color) => dispatch(setFallbackColor({ dataSourceId: selectedDataSource.id, color: color.toHexString() }))}
                 />
+                <Text type="secondary" style={{ fontSize: '12px' }}>Fallback when no rule matches</Text>
+                {ruleAnalysis.gaps.length > 0 && selectedDataSource.colorRules.length > 0 && (
+                  <Text type="warning" style={{ fontSize: '12px', display: 'block', width: '100%' }}>
+                    ⚠️ No rule covers values {describeValues(ruleAnalysis.gaps, formatThreshold)}
+                  </Text>
+                )}
+              </div>
+              {hasRuleProblems && ruleAnalysis.fixable && (
                 <Popconfirm
-                  title="Delete this rule?"
-                  onConfirm={() => handleDeleteRule(rule.id)}
-                  okText="Yes"
-                  cancelText="No"
+                  title="Replace the rules with contiguous ranges?"
+                  description="Each value keeps its current color where a rule matches it; gaps take the color of the range below"
+                  onConfirm={handleFixRules}
+                  okText="Fix"
+                  cancelText="Cancel"
                 >
-                  <Button size="small" type="text" icon={<DeleteOutlined />} danger />
+                  <Button size="small">Fix into contiguous ranges</Button>
                 </Popconfirm>
-              </div>
-            ))}
-          </div>
+              )}
+            </div>
 
-          {/* Add New Rule */}
-          <Card size="small" style={{ marginTop: '16px' }}>
-            <Text strong style={{ display: 'block', marginBottom: '8px' }}>Add New Rule</Text>
-            <Space wrap>
-              <Select
-                size="small"
-                value={newRule.operator}
-                onChange={(value) => setNewRule({ ...newRule, operator: value })}
-                style={{ width: '60px' }}
-              >
-                <Option value="<">&lt;</Option>
-                <Option value="<=">&le;</Option>
-                <Option value="=">=</Option>
-                <Option value=">=">&ge;</Option>
-                <Option value=">">&gt;</Option>
-              </Select>
-              <InputNumber
-                size="small"
-                value={newRule.value}
-                onChange={(value) => setNewRule({ ...newRule, value: value || 0 })}
-                style={{ width: '80px' }}
-                placeholder="Value"
-              />
-              <ColorPicker
-                size="small"
-                value={newRule.color}
-                onChange={(color) => setNewRule({ ...newRule, color: color.toHexString() })}
-              />
-              <Button 
-                size="small" 
-                type="primary" 
-                icon={<PlusOutlined />}
-                onClick={handleAddRule}
-              >
-                Add
-              </Button>
-            </Space>
-          </Card>
+            {/* Palette */}
+            {selectedDataSource.colorRules.length > 0 && (
+              <Card size="small" style={{ marginTop: '16px' }}>
+                <Text strong style={{ display: 'block', marginBottom: '8px' }}>Palette</Text>
+                <Space direction="vertical" style={{ width: '100%' }}>
+                  <Select
+                    size="small"
+                    value={rulePalette.rampId}
+                    onChange={(rampId: string) => setRulePalette({ ...rulePalette, rampId })}
+                    style={{ width: '100%' }}
+                  >
+                    {COLOR_RAMPS.map(renderPaletteOption)}
+                  </Select>
+                  <Space wrap>
+                    <Switch size="small" checked={rulePalette.reversed} onChange={(reversed) => setRulePalette({ ...rulePalette, reversed })} />
+                    <Text style={{ fontSize: '12px' }}>Reverse colors</Text>
+                    <Popconfirm
+                      title={`Recolor ${winningRules.length} rule${winningRules.length !== 1 ? 's' : ''} from low to high values?`}
+                      onConfirm={handleApplyPalette}
+                      okText="Apply"
+                      cancelText="Cancel"
+                    >
+                      <Button size="small">Apply to rules</Button>
+                    </Popconfirm>
+                  </Space>
+                  <Text type="secondary" style={{ fontSize: '12px' }}>👁️ marks palettes that stay distinguishable with color blindness</Text>
+                </Space>
+              </Card>
+            )}
+
+            {/* Add New Rule */}
+            <Card size="small" style={{ marginTop: '16px' }}>
+              <Text strong style={{ display: 'block', marginBottom: '8px' }}>Add New Rule</Text>
+              <Space wrap>
+                {renderConditionInputs(newRule, updates => setNewRule({ ...newRule, ...updates }))}
+                <ColorPicker
+                  size="small"
+                  value={newRule.color}
+                  onChange={(color) => setNewRule({ ...newRule, color: color.toHexString() })}
+                />
+                <Button 
+                  size="small" 
+                  type="primary" 
+                  icon={<PlusOutlined />}
+                  onClick={handleAddRule}
+                >
+                  Add
+                </Button>
+              </Space>
+            </Card>
+            </>
+          )}
+
+          {styledColors.length > 0 && renderVisionPreview()}
         </div>
       )}
 
@@ -302,123 +1072,382 @@ const DataSourceSidebar: React.FC = () => {
           <List
             size="small"
             dataSource={polygons}
-            renderItem={(polygon) => (
-              <List.Item
-                className={`polygon-list-item ${selectedPolygonId === polygon.id ? 'selected' : ''}`}
-                onClick={() => dispatch(selectPolygon(
-                  selectedPolygonId === polygon.id ? null : polygon.id
-                ))}
-                style={{ 
-                  cursor: 'pointer',
-                  backgroundColor: selectedPolygonId === polygon.id ? '#f0f8ff' : 'transparent',
-                  border: selectedPolygonId === polygon.id ? '1px solid #d4e9ff' : '1px solid transparent',
-                  borderRadius: '6px',
-                  marginBottom: '4px',
-                  padding: '8px 12px',
-                  transition: 'all 0.2s ease'
-                }}
-                actions={[
-                  <Button
-                    key="edit"
-                    type="text"
-                    size="small"
-                    icon={<EditOutlined />}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleEditPolygon(polygon.id, polygon.name);
-                    }}
-                    title="Edit polygon name"
-                  />,
-                  <Popconfirm
-                    key="delete"
-                    title={`Delete polygon "${polygon.name}"?`}
-                    description="This action cannot be undone."
-                    onConfirm={(e) => {
-                      e?.stopPropagation();
-                      handleDeletePolygon(polygon.id, polygon.name);
-                    }}
-                    onCancel={(e) => e?.stopPropagation()}
-                    okText="Delete"
-                    cancelText="Cancel"
-                    okType="danger"
-                  >
+            renderItem={(polygon) => {
+              const polygonSource = getSourceOf(polygon);
+              return (
+                <List.Item
+                  className={`polygon-list-item ${selectedPolygonId === polygon.id ? 'selected' : ''}`}
+                  onClick={() => dispatch(selectPolygon(
+                    selectedPolygonId === polygon.id ? null : polygon.id
+                  ))}
+                  style={{ 
+                    cursor: 'pointer',
+                    backgroundColor: selectedPolygonId === polygon.id ? '#f0f8ff' : 'transparent',
+                    border: selectedPolygonId === polygon.id ? '1px solid #d4e9ff' : '1px solid transparent',
+                    borderRadius: '6px',
+                    marginBottom: '4px',
+                    padding: '8px 12px',
+                    transition: 'all 0.2s ease'
+                  }}
+                  actions={[
                     <Button
+                      key="edit"
                       type="text"
                       size="small"
-                      danger
-                      icon={<DeleteOutlined />}
+                      icon={<EditOutlined />}
                       onClick={(e) => {
                         e.stopPropagation();
+                        handleEditPolygon(polygon);
                       }}
-                      title="Delete polygon"
-                    />
-                  </Popconfirm>
-                ]}
-              >
-                <div style={{ flex: 1 }}>
-                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-                    <div 
-                      style={{
-                        width: '12px',
-                        height: '12px',
-                        backgroundColor: polygon.color,
-                        borderRadius: '50%'
+                      title="Edit polygon"
+                    />,
+                    <Popconfirm
+                      key="delete"
+                      title={`Delete polygon "${polygon.name}"?`}
+                      description="This action cannot be undone."
+                      onConfirm={(e) => {
+                        e?.stopPropagation();
+                        handleDeletePolygon(polygon.id, polygon.name);
                       }}
-                    />
-                    <Text strong>{polygon.name}</Text>
-                  </div>
-                  <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
-                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
-                      <span>📍 {polygon.points.length} point{polygon.points.length !== 1 ? 's' : ''}</span>
-                      {polygon.value !== undefined && polygon.value !== null && !isNaN(polygon.value) ? (
-                        <Tag color="blue" style={{ margin: 0 }}>
-                          🌡️ {polygon.value.toFixed(1)}{selectedDataSource?.unit || '°C'}
-                        </Tag>
-                      ) : (
-                        <Tag color="orange" style={{ margin: 0 }}>
-                          ⏳ Loading data...
-                        </Tag>
-                      )}
-                      {selectedPolygonId === polygon.id && (
-                        <Tag color="green" style={{ margin: 0 }}>
-                          ✓ Selected
-                        </Tag>
-                      )}
+                      onCancel={(e) => e?.stopPropagation()}
+                      okText="Delete"
+                      cancelText="Cancel"
+                      okType="danger"
+                    >
+                      <Button
+                        type="text"
+                        size="small"
+                        danger
+                        icon={<DeleteOutlined />}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                        }}
+                        title="Delete polygon"
+                      />
+                    </Popconfirm>
+                  ]}
+                >
+                  <div style={{ flex: 1 }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                      <div 
+                        style={{
+                          width: '12px',
+                          height: '12px',
+                          backgroundColor: polygon.color,
+                          borderRadius: '50%'
+                        }}
+                      />
+                      <Text strong>{polygon.name}</Text>
+                    </div>
+                    <div style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+                        <span>📍 {polygon.points.length} point{polygon.points.length !== 1 ? 's' : ''}</span>
+                        {polygon.quality && !polygon.quality.sufficient ? (
+                          <Tag style={{ margin: 0 }} title={`Coverage ${formatCoverage(polygon.quality)}`}>
+                            🕳️ No data
+                          </Tag>
+                        ) : polygon.value !== undefined && polygon.value !== null && !isNaN(polygon.value) ? (
+                          <Tag
+                            color="blue"
+                            style={{ margin: 0 }}
+                            title={polygonStatus[polygon.id]?.lastUpdated ? `Updated ${new Date(polygonStatus[polygon.id].lastUpdated!).toLocaleTimeString()}` : undefined}
+                          >
+                            {polygonSource && (
+                              <>
+                                {polygonSource.icon}{' '}
+                                {formatAggregatedValue(polygon.value, polygonSource.aggregation, polygonSource.quantity, units)}
+                                {` (${formatAggregation(polygonSource.aggregation, polygonSource.quantity, units)})`}
+                              </>
+                            )}
+                          </Tag>
+                        ) : polygonStatus[polygon.id]?.state !== 'error' && (
+                          <Tag color="orange" style={{ margin: 0 }}>
+                            ⏳ Waiting for data...
+                          </Tag>
+                        )}
+                        {polygon.colorRules && (
+                          <Tag style={{ margin: 0 }} title="Colored by its own rules">
+                            🎨 Own rules
+                          </Tag>
+                        )}
+                        {polygonSource && polygon.anomaly && polygon.quality?.sufficient && (
+                          polygon.anomaly.anomaly !== null && polygon.anomaly.baselineValue !== null ? (
+                            <Tag
+                              color={polygon.anomaly.anomaly >= 0 ? 'volcano' : 'geekblue'}
+                              style={{ margin: 0 }}
+                              title={`Baseline ${formatAggregatedValue(polygon.anomaly.baselineValue, polygonSource.aggregation, polygonSource.quantity, units)} (${polygonSource.baseline?.years ?? DEFAULT_BASELINE_YEARS}-year mean)`}
+                            >
+                              Δ {formatAnomaly(polygon.anomaly.anomaly, polygonSource.aggregation, polygonSource.quantity, units)}
+                            </Tag>
+                          ) : (
+                            <Tag style={{ margin: 0 }}>No baseline</Tag>
+                          )
+                        )}
+                        {polygonStatus[polygon.id]?.state === 'loading' && (
+                          <Tag style={{ margin: 0 }}>
+                            <Spin size="small" indicator={<LoadingOutlined style={{ fontSize: 10 }} />} /> Loading
+                          </Tag>
+                        )}
+                        {polygonStatus[polygon.id]?.state === 'error' && (
+                          <>
+                            <Tag color="red" style={{ margin: 0 }} title={polygonStatus[polygon.id].message || undefined}>
+                              ❌ {polygonStatus[polygon.id].message || 'Failed to load'}
+                            </Tag>
+                            <Button
+                              size="small"
+                              type="link"
+                              icon={<ReloadOutlined />}
+                              style={{ padding: 0, height: 'auto' }}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                dispatch(retryPolygonWeather(polygon.id));
+                              }}
+                            >
+                              Retry
+                            </Button>
+                          </>
+                        )}
+                        {retries[polygon.id] && (
+                          <Tag color="gold" style={{ margin: 0 }}>
+                            🔁 Retrying ({retries[polygon.id].attempt}/{retries[polygon.id].maxAttempts})
+                          </Tag>
+                        )}
+                        {includesForecast(weatherData[polygon.id], selectedEndTime) && (
+                          <Tag color="purple" style={{ margin: 0 }} title="Selected range includes forecast hours">
+                            🔮 Forecast
+                          </Tag>
+                        )}
+                        {polygon.quality && polygon.quality.sufficient && polygon.quality.coverage < 1 && (
+                          <Tag
+                            color="gold"
+                            style={{ margin: 0 }}
+                            title={`${polygon.quality.gapCount} gap(s), longest ${polygon.quality.longestGapHours} h`}
+                          >
+                            📉 {formatCoverage(polygon.quality)}
+                          </Tag>
+                        )}
+                        {polygon.sampleCount !== undefined && (
+                          <Tag style={{ margin: 0 }} title="Points sampled inside the polygon area">
+                            🎯 {polygon.sampleCount} sample{polygon.sampleCount !== 1 ? 's' : ''}
+                          </Tag>
+                        )}
+                        {selectedPolygonId === polygon.id && (
+                          <Tag color="green" style={{ margin: 0 }}>
+                            ✓ Selected
+                          </Tag>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              </List.Item>
-            )}
+                </List.Item>
+              );
+            }}
           />
         )}
       </div>
 
       {/* Legend */}
-      {selectedDataSource && selectedDataSource.colorRules.length > 0 && (
+      {legendGroups.length > 0 && (
         <div className="sidebar-section">
           <Title level={4}>Legend</Title>
-          <div>
-            {[...selectedDataSource.colorRules]
-              .sort((a, b) => a.value - b.value)
-              .map((rule, index) => (
-                <div key={rule.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
-                  <div 
-                    style={{
-                      width: '16px',
-                      height: '16px',
-                      backgroundColor: rule.color,
-                      borderRadius: '2px'
-                    }}
-                  />
-                  <Text style={{ fontSize: '12px' }}>
-                    {getOperatorSymbol(rule.operator)} {rule.value} {selectedDataSource.unit}
-                  </Text>
-                </div>
-              ))}
+          {legendGroups.map(group => (
+            <div key={group.dataSource.id} style={{ marginBottom: '8px' }}>
+              {(legendGroups.length > 1 || ownRulePolygons.length > 0) && (
+                <Text strong style={{ fontSize: '12px', display: 'block' }}>
+                  {group.dataSource.icon} {group.dataSource.name}
+                </Text>
+              )}
+              {renderSourceLegend(group.dataSource, group.polygons)}
+            </div>
+          ))}
+          {ownRulePolygons.map(({ polygon, dataSource }) => (
+            <div key={polygon.id} style={{ marginBottom: '8px' }}>
+              <Text strong style={{ fontSize: '12px', display: 'block', marginBottom: '4px' }}>
+                {dataSource.icon} {polygon.name} (own rules)
+              </Text>
+              {renderRuleLegend(polygon.colorRules ?? [], dataSource)}
+            </div>
+          ))}
+          {renderLegendRow(
+            'no-data',
+            {
+              background: `repeating-linear-gradient(45deg, ${NO_DATA_COLOR} 0 2px, transparent 2px 5px)`,
+              border: `1px dashed ${NO_DATA_COLOR}`
+            },
+            'No data'
+          )}
+        </div>
+      )}
+
+      {/* Alerts */}
+      {selectedDataSource && (
+        <div className="sidebar-section">
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Title level={4} style={{ margin: 0 }}>Alerts</Title>
+            <Button
+              size="small"
+              icon={<PlusOutlined />}
+              onClick={() => setNewAlert({
+                name: `${selectedDataSource.name} alert`,
+                polygonId: null,
+                aggregation: { type: 'max' },
+                windowHours: 24,
+                operator: '>',
+                threshold: getDefaultAlertThreshold(selectedDataSource)
+              })}
+            >
+              Add alert
+            </Button>
           </div>
+          {alertDefinitions.filter(definition => definition.dataSourceId === selectedDataSource.id).map(definition => (
+            <div key={definition.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px' }}>
+              <Switch
+                size="small"
+                checked={definition.enabled}
+                onChange={(enabled) => dispatch(updateAlert({ id: definition.id, updates: { enabled } }))}
+              />
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <Text style={{ fontSize: '12px', display: 'block' }} ellipsis>{definition.name}</Text>
+                <Text type="secondary" style={{ fontSize: '11px' }}>
+                  {describeAlert(definition, selectedDataSource, units)}
+                  {' · '}{definition.polygonId ? polygons.find(p => p.id === definition.polygonId)?.name : 'all polygons'}
+                </Text>
+              </div>
+              <Button size="small" type="text" danger icon={<DeleteOutlined />} onClick={() => dispatch(removeAlert(definition.id))} />
+            </div>
+          ))}
         </div>
       )}
 
+      {/* Alert Modal */}
+      <Modal
+        title="Add Alert"
+        open={newAlert !== null}
+        onOk={handleAddAlert}
+        onCancel={() => setNewAlert(null)}
+        okText="Add"
+        cancelText="Cancel"
+        okButtonProps={{ disabled: !newAlert?.name.trim() }}
+      >
+        {newAlert && selectedDataSource && (
+          <>
+            <div style={{ marginBottom: '16px' }}>
+              <Text>Name:</Text>
+              <Input
+                value={newAlert.name}
+                onChange={(e) => setNewAlert({ ...newAlert, name: e.target.value })}
+                style={{ marginTop: '8px' }}
+              />
+            </div>
+            <div style={{ marginBottom: '16px' }}>
+              <Text>Polygons:</Text>
+              <Select
+                value={newAlert.polygonId ?? ''}
+                onChange={(polygonId: string) => setNewAlert({ ...newAlert, polygonId: polygonId || null })}
+                style={{ width: '100%', marginTop: '8px' }}
+              >
+                <Option value="">All polygons</Option>
+                {polygons.map(polygon => (
+                  <Option key={polygon.id} value={polygon.id}>{polygon.name}</Option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <Text>Notify when the</Text>
+              <Space wrap style={{ marginTop: '8px' }}>
+                <Select
+                  value={newAlert.windowHours}
+                  onChange={(windowHours: number) => setNewAlert({ ...newAlert, windowHours })}
+                  style={{ width: '90px' }}
+                >
+                  {ALERT_WINDOW_HOURS.map(hours => (
+                    <Option key={hours} value={hours}>{hours} h</Option>
+                  ))}
+                </Select>
+                <Select
+                  value={newAlert.aggregation.type}
+                  onChange={(type: AggregationType) => setNewAlert({ ...newAlert, aggregation: { type } })}
+                  style={{ width: '170px' }}
+                >
+                  {/* Hour counts would need a second threshold, so they are not offered here */}
+                  {getAggregationTypes(selectedDataSource.quantity)
+                    .filter(type => !AGGREGATIONS[type].usesThreshold)
+                    .map(type => (
+                      <Option key={type} value={type}>{AGGREGATIONS[type].label}</Option>
+                    ))}
+                </Select>
+                <Select
+                  value={newAlert.operator}
+                  onChange={(operator: AlertOperator) => setNewAlert({ ...newAlert, operator })}
+                  style={{ width: '70px' }}
+                >
+                  <Option value=">">&gt;</Option>
+                  <Option value=">=">≥</Option>
+                  <Option value="<">&lt;</Option>
+                  <Option value="<=">≤</Option>
+                </Select>
+                <InputNumber
+                  value={newAlert.threshold}
+                  onChange={(threshold) => setNewAlert({ ...newAlert, threshold: threshold ?? 0 })}
+                  addonAfter={getAggregatedUnit(newAlert.aggregation, selectedDataSource.quantity, units)}
+                  style={{ width: '140px' }}
+                />
+              </Space>
+            </div>
+          </>
+        )}
+      </Modal>
+
+      {/* Computed Source Modal */}
+      <Modal
+        title="Add Computed Source"
+        open={computedSource !== null}
+        onOk={handleAddComputedSource}
+        onCancel={() => setComputedSource(null)}
+        okText="Add"
+        cancelText="Cancel"
+        okButtonProps={{ disabled: !!expressionError || !computedSource?.name.trim() }}
+      >
+        <div style={{ marginBottom: '16px' }}>
+          <Text>Name:</Text>
+          <Input
+            value={computedSource?.name || ''}
+            onChange={(e) => setComputedSource(prev => prev ? { ...prev, name: e.target.value } : null)}
+            placeholder="e.g. Temperature range"
+            style={{ marginTop: '8px' }}
+          />
+        </div>
+        <div style={{ marginBottom: '16px' }}>
+          <Text>Expression:</Text>
+          <Input
+            value={computedSource?.expression || ''}
+            onChange={(e) => setComputedSource(prev => prev ? { ...prev, expression: e.target.value } : null)}
+            placeholder="e.g. temperature_2m - dew_point_2m"
+            status={computedSource?.expression && expressionError ? 'error' : undefined}
+            style={{ marginTop: '8px', fontFamily: 'monospace' }}
+          />
+          <Text type={computedSource?.expression && expressionError ? 'danger' : 'secondary'} style={{ fontSize: '12px', display: 'block', marginTop: '4px' }}>
+            {computedSource?.expression && expressionError
+              ? expressionError
+              : `Fields: ${computedFields.join(', ')}. Operators + - * / ^, functions min, max, abs, sqrt, exp, log, pow.`}
+          </Text>
+        </div>
+        <div>
+          <Text>Values are in:</Text>
+          <Select
+            style={{ width: '100%', marginTop: '8px' }}
+            value={computedSource?.quantity}
+            onChange={(quantity: Quantity) => setComputedSource(prev => prev ? { ...prev, quantity } : null)}
+          >
+            {(Object.keys(UNITS) as Quantity[]).map(quantity => (
+              <Option key={quantity} value={quantity}>
+                {quantity.replace('_', ' ')} ({UNITS[quantity][0].symbol})
+              </Option>
+            ))}
+          </Select>
+        </div>
+      </Modal>
+
       {/* Edit Polygon Modal */}
       <Modal
         title="Edit Polygon"
@@ -440,6 +1469,70 @@ const DataSourceSidebar: React.FC = () => {
             style={{ marginTop: '8px' }}
           />
         </div>
+        {editingPolygon && (
+          <>
+            <div style={{ marginBottom: '16px' }}>
+              <Text>Data Source:</Text>
+              <Select
+                value={editingPolygon.dataSourceId}
+                onChange={handleEditingSourceChange}
+                style={{ width: '100%', marginTop: '8px' }}
+              >
+                {availableDataSources.map(ds => (
+                  <Option key={ds.id} value={ds.id}>
+                    {ds.icon} {ds.name} ({getDisplayUnit(ds.quantity, units).symbol})
+                  </Option>
+                ))}
+              </Select>
+            </div>
+            <Space style={{ marginBottom: '8px' }}>
+              <Switch
+                size="small"
+                checked={!!editingPolygon.colorRules}
+                onChange={(own) => setEditingPolygon(prev => prev ? {
+                  ...prev,
+                  colorRules: own && editingDataSource ? editingDataSource.colorRules.map(rule => ({ ...rule })) : undefined
+                } : null)}
+              />
+              <Text>Own color rules</Text>
+            </Space>
+            {editingPolygon.colorRules && editingDataSource && (
+              <div>
+                {editingPolygon.colorRules.map(rule => (
+                  <div key={rule.id} className="color-rule-item" style={{ flexWrap: 'wrap' }}>
+                    <div className="color-preview" style={{ backgroundColor: rule.color }} />
+                    {renderConditionInputs(rule, updates => handleEditingRuleChange(rule.id, updates), editingDataSource)}
+                    <ColorPicker
+                      size="small"
+                      value={rule.color}
+                      onChange={(color) => handleEditingRuleChange(rule.id, { color: color.toHexString() })}
+                    />
+                    <Button
+                      size="small"
+                      type="text"
+                      icon={<DeleteOutlined />}
+                      danger
+                      onClick={() => setEditingPolygon(prev => prev && prev.colorRules ? {
+                        ...prev,
+                        colorRules: prev.colorRules.filter(r => r.id !== rule.id)
+                      } : prev)}
+                    />
+                  </div>
+                ))}
+                <Button
+                  size="small"
+                  icon={<PlusOutlined />}
+                  onClick={() => setEditingPolygon(prev => prev && prev.colorRules ? {
+                    ...prev,
+                    colorRules: prev.colorRules.concat({ id: `rule_${Date.now()}`, operator: '>', value: 0, color: '#1890ff' })
+                  } : prev)}
+                >
+                  Add rule
+                </Button>
+              </div>
+            )}
+          </>
+        )}
       </Modal>
     </div>
   );
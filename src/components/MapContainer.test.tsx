@@ -0,0 +1,77 @@
+import React from 'react';
+import { Provider } from 'react-redux';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import MapContainer from './MapContainer';
+import { selectPolygon } from '../store/slices/polygonSlice';
+import { configureFixtures } from '../services/fixtures';
+import { clearWeatherDataCache } from '../services/weatherService';
+import { createReplayStore, loadWeather, POLYGONS } from './__fixtures__/replayStore';
+import type { ReplayStore } from './__fixtures__/replayStore';
+
+const renderMap = (store: ReplayStore) => render(
+  <Provider store={store}>
+    <MapContainer />
+  </Provider>
+);
+
+describe('MapContainer', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    clearWeatherDataCache();
+  });
+
+  afterEach(() => {
+    configureFixtures({ mode: 'off' });
+    jest.restoreAllMocks();
+  });
+
+  it('shows the replayed value and coverage of the selected polygon', async () => {
+    const store = createReplayStore();
+    renderMap(store);
+    await act(async () => {
+      await loadWeather(store);
+      store.dispatch(selectPolygon('field'));
+    });
+
+    expect(screen.getByText('North field')).toBeInTheDocument();
+    expect(screen.getByText(/15\.1°C$/)).toBeInTheDocument();
+    expect(screen.getByText(/^Area-weighted temperature \(2m\), mean over the range/)).toHaveTextContent('(1 sample)');
+    expect(screen.getByText(/Coverage: 100% of 49 h/)).toBeInTheDocument();
+    expect(screen.getByText(/^0 gaps/)).toBeInTheDocument();
+    // Shown at the recording's time, not the test run's
+    expect(screen.getByText(/Local time: Jun 15, 2024, 12:00 PM/)).toBeInTheDocument();
+    expect(screen.getByText('GMT (UTC+00:00)')).toBeInTheDocument();
+    expect(screen.getByText('Temperature (2m)')).toBeInTheDocument();
+  });
+
+  it('colors and labels every polygon from the fixtures', async () => {
+    const store = createReplayStore();
+    renderMap(store);
+    await act(async () => {
+      await loadWeather(store);
+    });
+
+    const [field, orchard] = store.getState().polygons.polygons;
+    expect(field.color).not.toBe('#3388ff');
+    expect(orchard.color).not.toBe('#3388ff');
+    expect(screen.getAllByTitle(/^North field: 15\.1°C - Point \d/)).toHaveLength(3);
+    expect(screen.getAllByTitle(/^Orchard: 14\.4°C - Point \d/)).toHaveLength(3);
+  });
+
+  it('reports a polygon missing from the recording and offers a retry', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const elsewhere = { ...POLYGONS[0], id: 'elsewhere', name: 'Elsewhere', points: POLYGONS[0].points.map(p => ({ ...p, lat: p.lat + 1 })) };
+    const store = createReplayStore([elsewhere]);
+    renderMap(store);
+    await act(async () => {
+      await loadWeather(store);
+      store.dispatch(selectPolygon('elsewhere'));
+    });
+
+    expect(screen.getByText(/No recorded fixture for request synthetic\|hourly\|2024-06-09\|2024-06-13\|/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /Retry/ }));
+    expect(store.getState().polygonStatus.byPolygon.elsewhere.state).toBe('loading');
+    await waitFor(() => expect(store.getState().polygonStatus.byPolygon.elsewhere.state).toBe('error'));
+  });
+});
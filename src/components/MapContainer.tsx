@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { Button, message } from 'antd';
 import { useAppSelector, useAppDispatch } from '../store/hooks';
 import { 
@@ -9,16 +9,47 @@ import {
   selectPolygon,
   deletePolygon 
 } from '../store/slices/polygonSlice';
-import { fetchWeatherData } from '../services/weatherService';
+import type { Polygon } from '../store/slices/polygonSlice';
+import { includesForecast, getObservedUntil } from '../services/weatherService';
+import { AGGREGATIONS, formatAggregatedValue } from '../services/aggregation';
+import { formatAnomaly } from '../services/baseline';
+import { formatDateTime, formatUtcOffset } from '../services/timeZones';
+import { formatCoverage } from '../services/dataQuality';
+import { getPolygonDataSource } from '../services/polygonSources';
+import { retryPolygonWeather } from '../store/slices/polygonStatusSlice';
+import { getNow } from '../services/clock';
 
 const MapContainer: React.FC = () => {
   const dispatch = useAppDispatch();
   const { polygons, isDrawing, selectedPolygonId, drawingPoints } = useAppSelector(state => state.polygons);
-  const { selectedDataSourceId, availableDataSources } = useAppSelector(state => state.dataSources);
-  const { selectedStartTime, selectedEndTime } = useAppSelector(state => state.timeline);
+  const { selectedDataSourceId, availableDataSources, weatherData, retries } = useAppSelector(state => state.dataSources);
+  const polygonStatus = useAppSelector(state => state.polygonStatus.byPolygon);
+  const selectedEndTime = useAppSelector(state => state.timeline.selectedEndTime);
+  const units = useAppSelector(state => state.units);
   const [mapCenter, setMapCenter] = useState({ lat: 51.505, lng: -0.09 }); // London center with clear streets
   const [zoomLevel, setZoomLevel] = useState(13); // Zoom level 13 provides approximately 2 sq. km resolution with clear streets
 
+  // Aggregated value (or fetch status) suffix for point tooltips, in the user's units
+  const formatPolygonValue = (polygon: Polygon): string => {
+    const status = polygonStatus[polygon.id];
+    if (status?.state === 'loading') {
+      return ' (loading)';
+    }
+    if (status?.state === 'error') {
+      return ` (error: ${status.message})`;
+    }
+    const dataSource = getPolygonDataSource(polygon, availableDataSources, selectedDataSourceId);
+    const value = polygon.value;
+    if (!dataSource || value === undefined || value === null || isNaN(value)) {
+      return '';
+    }
+    const anomaly = polygon.anomaly?.anomaly;
+    const deviation = anomaly !== undefined && anomaly !== null
+      ? ` (${formatAnomaly(anomaly, dataSource.aggregation, dataSource.quantity, units)} vs. normal)`
+      : '';
+    return `: ${formatAggregatedValue(value, dataSource.aggregation, dataSource.quantity, units)}${deviation}`;
+  };
+
   const handleStartDrawing = () => {
     if (isDrawing) {
       dispatch(cancelDrawing());
@@ -66,45 +97,6 @@ const MapContainer: React.FC = () => {
     }
   }, [dispatch, polygons]);
 
-  // Update polygon colors when timeline changes or polygons change
-  useEffect(() => {
-    const updatePolygonData = async () => {
-      const selectedDataSource = availableDataSources.find(ds => ds.id === selectedDataSourceId);
-      console.log('🔄 Updating polygon data:', {
-        selectedDataSourceId,
-        selectedDataSource,
-        polygonCount: polygons.length,
-        startTime: selectedStartTime,
-        endTime: selectedEndTime
-      });
-      
-      if (!selectedDataSource) {
-        console.warn('❌ No data source selected');
-        return;
-      }
-
-      for (const polygon of polygons) {
-        try {
-          console.log('🌡️ Fetching weather for polygon:', polygon.id, polygon.points);
-          await fetchWeatherData(
-            polygon, 
-            dispatch, 
-            selectedStartTime, 
-            selectedEndTime, 
-            selectedDataSource.colorRules
-          );
-          console.log('✅ Weather data fetched for polygon:', polygon.id);
-        } catch (error) {
-          console.error('❌ Error updating polygon data for', polygon.id, ':', error);
-        }
-      }
-    };
-
-    if (polygons.length > 0) {
-      updatePolygonData();
-    }
-  }, [polygons, dispatch, selectedStartTime, selectedEndTime, selectedDataSourceId, availableDataSources]);
-
   const handleFinishDrawing = () => {
     if (drawingPoints.length >= 3) {
       const polygonName = `Polygon ${Date.now()}`;
@@ -687,6 +679,15 @@ const MapContainer: React.FC = () => {
                   zIndex: 540
                 }}
               >
+                {/* Hatching for polygons without enough data */}
+                {polygon.quality && !polygon.quality.sufficient && (
+                  <defs>
+                    <pattern id={`no-data-${polygon.id}`} width="8" height="8" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+                      <line x1="0" y1="0" x2="0" y2="8" stroke={polygon.color} strokeWidth="2" />
+                    </pattern>
+                  </defs>
+                )}
+                
                 {/* Connecting lines for all polygons */}
                 <polyline
                   points={polygon.points.map(point => {
@@ -703,7 +704,7 @@ const MapContainer: React.FC = () => {
                   stroke={polygon.color}
                   strokeWidth={selectedPolygonId === polygon.id ? "4" : "3"}
                   opacity={selectedPolygonId === polygon.id ? "1" : "0.8"}
-                  strokeDasharray={polygon.points.length < 3 ? "6,3" : "none"}
+                  strokeDasharray={polygon.points.length < 3 ? "6,3" : polygon.quality && !polygon.quality.sufficient ? "2,4" : "none"}
                 />
                 
                 {/* Filled polygon for 3+ points */}
@@ -719,7 +720,7 @@ const MapContainer: React.FC = () => {
                       const pixelY = (relativeY / 2 + 0.5) * 100;
                       return `${pixelX}%,${pixelY}%`;
                     }).join(' ')}
-                    fill={`${polygon.color}30`}
+                    fill={polygon.quality && !polygon.quality.sufficient ? `url(#no-data-${polygon.id})` : `${polygon.color}30`}
                     stroke="none"
                     opacity={selectedPolygonId === polygon.id ? "0.4" : "0.2"}
                   />
@@ -757,14 +758,17 @@ const MapContainer: React.FC = () => {
                     height: selectedPolygonId === polygon.id ? '14px' : '11px',
                     borderRadius: '50%',
                     background: polygon.color,
-                    border: selectedPolygonId === polygon.id ? '3px solid white' : '2px solid rgba(255,255,255,0.9)',
+                    border: polygonStatus[polygon.id]?.state === 'error'
+                      ? `${selectedPolygonId === polygon.id ? 3 : 2}px solid #ff4d4f`
+                      : selectedPolygonId === polygon.id ? '3px solid white' : '2px solid rgba(255,255,255,0.9)',
+                    opacity: polygonStatus[polygon.id]?.state === 'loading' ? 0.5 : 1,
                     transform: 'translate(-50%, -50%)',
                     zIndex: 550,
                     cursor: 'pointer',
                     boxShadow: selectedPolygonId === polygon.id ? '0 4px 8px rgba(0,0,0,0.4)' : '0 2px 4px rgba(0,0,0,0.3)',
                     transition: 'all 0.2s ease'
                   }}
-                  title={`Point ${index + 1} - Right-click to delete polygon`}
+                  title={`${polygon.name}${formatPolygonValue(polygon)} - Point ${index + 1} - Right-click to delete polygon`}
                 />
               );
             })}
@@ -787,6 +791,9 @@ const MapContainer: React.FC = () => {
         }}>
           {(() => {
             const selectedPolygon = polygons.find(p => p.id === selectedPolygonId);
+            const polygonSource = selectedPolygon && getPolygonDataSource(selectedPolygon, availableDataSources, selectedDataSourceId);
+            const selectedWeatherData = selectedPolygon ? weatherData[selectedPolygon.id] : undefined;
+            const observedUntil = selectedWeatherData ? getObservedUntil(selectedWeatherData) : null;
             return selectedPolygon ? (
               <>
                 <div style={{ fontWeight: 500, marginBottom: '4px' }}>
@@ -800,23 +807,103 @@ const MapContainer: React.FC = () => {
                   {selectedPolygon.value !== undefined && selectedPolygon.value !== null && !isNaN(selectedPolygon.value) ? (
                     <div style={{ marginBottom: '8px', padding: '8px 12px', background: '#f0f8ff', borderRadius: '6px', border: '1px solid #d4e9ff' }}>
                       <div style={{ fontSize: '14px', fontWeight: 'bold', color: '#1890ff' }}>
-                        🌡️ {selectedPolygon.value.toFixed(1)}°C
+                        {polygonSource?.icon}{' '}
+                        {polygonSource
+                          ? formatAggregatedValue(selectedPolygon.value, polygonSource.aggregation, polygonSource.quantity, units)
+                          : selectedPolygon.value.toFixed(1)}
                       </div>
                       <div style={{ fontSize: '10px', color: '#666', marginTop: '2px' }}>
-                        Average temperature
+                        Area-weighted {polygonSource?.name.toLowerCase() || 'value'},{' '}
+                        {AGGREGATIONS[polygonSource?.aggregation.type || 'mean'].label.toLowerCase()} over the range
+                        {selectedPolygon.sampleCount !== undefined && ` (${selectedPolygon.sampleCount} sample${selectedPolygon.sampleCount !== 1 ? 's' : ''})`}
                       </div>
+                      {polygonSource && selectedPolygon.anomaly && (
+                        <div style={{ fontSize: '11px', color: '#595959', marginTop: '6px' }}>
+                          {selectedPolygon.anomaly.anomaly !== null && selectedPolygon.anomaly.baselineValue !== null ? (
+                            <>
+                              <strong>Δ {formatAnomaly(selectedPolygon.anomaly.anomaly, polygonSource.aggregation, polygonSource.quantity, units)}</strong>
+                              {' '}vs. {formatAggregatedValue(selectedPolygon.anomaly.baselineValue, polygonSource.aggregation, polygonSource.quantity, units)}
+                              {' '}({polygonSource.baseline?.years}-year baseline)
+                            </>
+                          ) : (
+                            'No baseline data for this window'
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ) : selectedPolygon.quality ? (
+                    <div style={{ marginBottom: '8px', padding: '8px 12px', background: '#f5f5f5', borderRadius: '6px', fontSize: '11px', border: '1px dashed #bfbfbf' }}>
+                      <div style={{ color: '#595959' }}>🕳️ No data for the selected range</div>
                     </div>
-                  ) : (
+                  ) : polygonStatus[selectedPolygon.id]?.state !== 'error' && (
                     <div style={{ marginBottom: '8px', padding: '8px 12px', background: '#fff3cd', borderRadius: '6px', fontSize: '11px', border: '1px solid #ffeaa7' }}>
-                      <div style={{ color: '#d4850c' }}>⚠️ Loading weather data...</div>
-                      <div style={{ marginTop: '4px', fontSize: '10px', color: '#666' }}>
-                        Check console for details
+                      <div style={{ color: '#d4850c' }}>⏳ Loading weather data...</div>
+                    </div>
+                  )}
+                  
+                  {polygonStatus[selectedPolygon.id]?.state === 'error' && (
+                    <div style={{ marginBottom: '8px', padding: '8px 12px', background: '#fff1f0', borderRadius: '6px', fontSize: '11px', border: '1px solid #ffccc7' }}>
+                      <div style={{ color: '#cf1322' }}>❌ {polygonStatus[selectedPolygon.id].message}</div>
+                      <Button
+                        size="small"
+                        style={{ marginTop: '6px' }}
+                        onClick={() => dispatch(retryPolygonWeather(selectedPolygon.id))}
+                      >
+                        🔁 Retry
+                      </Button>
+                    </div>
+                  )}
+                  
+                  {polygonStatus[selectedPolygon.id]?.state === 'loading' && selectedPolygon.value !== undefined && (
+                    <div style={{ marginBottom: '8px', fontSize: '11px', color: '#d4850c' }}>
+                      ⏳ Refreshing...
+                    </div>
+                  )}
+                  
+                  {polygonStatus[selectedPolygon.id]?.lastUpdated && (
+                    <div style={{ marginBottom: '8px', fontSize: '10px', color: '#999' }}>
+                      Last updated {new Date(polygonStatus[selectedPolygon.id].lastUpdated!).toLocaleTimeString()}
+                    </div>
+                  )}
+                  
+                  {selectedPolygon.quality && (
+                    <div style={{ marginBottom: '8px', fontSize: '11px', color: selectedPolygon.quality.sufficient ? '#666' : '#cf1322' }}>
+                      📉 Coverage: {formatCoverage(selectedPolygon.quality)}
+                      {!selectedPolygon.quality.sufficient && ' (insufficient, shown as no data)'}
+                      <div style={{ fontSize: '10px', color: '#999' }}>
+                        {selectedPolygon.quality.gapCount} gap{selectedPolygon.quality.gapCount !== 1 ? 's' : ''}
+                        {selectedPolygon.quality.gapCount > 0 && `, longest ${selectedPolygon.quality.longestGapHours} h`}
+                        {selectedPolygon.quality.usedFallback && ', nearest value used'}
+                        {selectedPolygon.quality.gridDistance && `, grid cells ${selectedPolygon.quality.gridDistance.meanKm.toFixed(1)} km away on average (max ${selectedPolygon.quality.gridDistance.maxKm.toFixed(1)} km)`}
+                      </div>
+                    </div>
+                  )}
+                  
+                  {retries[selectedPolygon.id] && (
+                    <div style={{ marginBottom: '8px', fontSize: '11px', color: '#d4850c' }}>
+                      🔁 Retrying ({retries[selectedPolygon.id].attempt}/{retries[selectedPolygon.id].maxAttempts})
+                    </div>
+                  )}
+                  
+                  {selectedWeatherData && includesForecast(selectedWeatherData, selectedEndTime) && (
+                    <div style={{ marginBottom: '8px', fontSize: '11px', color: '#722ed1' }}>
+                      🔮 Includes forecast
+                      {observedUntil !== null && ` (observed until ${formatDateTime(observedUntil, selectedWeatherData.timezone)})`}
+                    </div>
+                  )}
+                  
+                  {selectedWeatherData && (
+                    <div style={{ marginBottom: '8px', fontSize: '11px', color: '#666' }}>
+                      🕒 Local time: {formatDateTime(getNow(), selectedWeatherData.timezone)}
+                      <div style={{ fontSize: '10px', color: '#999' }}>
+                        {selectedWeatherData.timezone} ({formatUtcOffset(selectedWeatherData.utcOffsetSeconds)})
                       </div>
                     </div>
                   )}
                   
                   <div style={{ fontSize: '10px', color: '#999', marginBottom: '4px' }}>
-                    Data source: <span style={{ color: '#666' }}>{selectedDataSourceId || 'None'}</span>
+                    Data source: <span style={{ color: '#666' }}>{polygonSource?.name || 'None'}</span>
+                    {selectedPolygon.colorRules && <span style={{ color: '#666' }}> (own rules)</span>}
                   </div>
                 </div>
                 <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Badge, Button, Drawer, Empty, List, Popconfirm, Space, Tag, Typography, notification } from 'antd';
+import { BellOutlined, CheckOutlined, AimOutlined } from '@ant-design/icons';
+import { useAppSelector, useAppDispatch } from '../store/hooks';
+import { acknowledgeAlertEvent, acknowledgeAllAlertEvents, clearAlertHistory } from '../store/slices/alertsSlice';
+import { selectPolygon } from '../store/slices/polygonSlice';
+import { setSelectedDataSource } from '../store/slices/dataSourceSlice';
+import { focusTimeRange } from '../store/slices/timelineSlice';
+import { formatAggregatedValue } from '../services/aggregation';
+import { formatDateTime } from '../services/timeZones';
+import type { AlertEvent } from '../services/alerts';
+
+const { Text } = Typography;
+
+const NotificationCenter: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { definitions, history } = useAppSelector(state => state.alerts);
+  const polygons = useAppSelector(state => state.polygons.polygons);
+  const availableDataSources = useAppSelector(state => state.dataSources.availableDataSources);
+  const units = useAppSelector(state => state.units);
+  const displayTimeZone = useAppSelector(state => state.timeline.displayTimeZone);
+  const [open, setOpen] = useState(false);
+
+  const unacknowledged = history.filter(event => !event.acknowledged).length;
+
+  const describeEvent = (event: AlertEvent): string => {
+    const definition = definitions.find(d => d.id === event.alertId);
+    const dataSource = availableDataSources.find(ds => ds.id === event.dataSourceId);
+    const polygonName = polygons.find(p => p.id === event.polygonId)?.name || 'Polygon';
+    const value = definition && dataSource
+      ? formatAggregatedValue(event.value, definition.aggregation, dataSource.quantity, units)
+      : event.value.toFixed(1);
+    return `${polygonName}: ${value}`;
+  };
+
+  // Select the polygon and its source, and move the timeline to the triggering period
+  const handleShow = (event: AlertEvent) => {
+    dispatch(setSelectedDataSource(event.dataSourceId));
+    dispatch(selectPolygon(event.polygonId));
+    dispatch(focusTimeRange({ start: new Date(event.startTime), end: new Date(event.endTime) }));
+    dispatch(acknowledgeAlertEvent(event.id));
+    setOpen(false);
+  };
+
+  // Pop up events that are new or triggered again, by when each was last seen triggered
+  const knownTriggers = useRef<Map<string, number> | null>(null);
+  useEffect(() => {
+    const known = knownTriggers.current;
+    knownTriggers.current = new Map(history.map(event => [event.id, event.triggeredAt]));
+    if (!known) {
+      return;
+    }
+    history
+      .filter(event => known.get(event.id) !== event.triggeredAt && !event.acknowledged)
+      .slice(0, 3)
+      .forEach(event => {
+        notification.warning({
+          key: event.id,
+          message: `🔔 ${event.alertName}`,
+          description: describeEvent(event),
+          placement: 'bottomRight',
+          actions: (
+            <Button size="small" onClick={() => {
+              notification.destroy(event.id);
+              handleShow(event);
+            }}>
+              Show
+            </Button>
+          ),
+        });
+      });
+    // Only new history entries matter; names and units are read at that moment
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [history]);
+
+  return (
+    <>
+      <Badge count={unacknowledged} size="small">
+        <Button icon={<BellOutlined />} onClick={() => setOpen(true)}>
+          Alerts
+        </Button>
+      </Badge>
+      <Drawer
+        title="Notifications"
+        open={open}
+        onClose={() => setOpen(false)}
+        width={400}
+        extra={
+          <Space>
+            <Button size="small" icon={<CheckOutlined />} disabled={unacknowledged === 0} onClick={() => dispatch(acknowledgeAllAlertEvents())}>
+              Acknowledge all
+            </Button>
+            <Popconfirm
+              title="Clear notification history?"
+              onConfirm={() => dispatch(clearAlertHistory())}
+              okText="Clear"
+              cancelText="Cancel"
+              disabled={history.length === 0}
+            >
+              <Button size="small" danger disabled={history.length === 0}>Clear</Button>
+            </Popconfirm>
+          </Space>
+        }
+      >
+        {history.length === 0 ? (
+          <Empty description={definitions.length === 0 ? 'No alerts defined yet' : 'No alerts triggered'} />
+        ) : (
+          <List
+            dataSource={history}
+            renderItem={(event) => (
+              <List.Item
+                style={{ background: event.acknowledged ? undefined : '#fff7e6', padding: '8px 12px' }}
+                actions={[
+                  <Button key="show" size="small" type="link" icon={<AimOutlined />} onClick={() => handleShow(event)}>
+                    Show
+                  </Button>,
+                  !event.acknowledged && (
+                    <Button key="ack" size="small" type="link" onClick={() => dispatch(acknowledgeAlertEvent(event.id))}>
+                      Acknowledge
+                    </Button>
+                  ),
+                ]}
+              >
+                <div>
+                  <div>
+                    <Text strong>{event.alertName}</Text>
+                    {!event.acknowledged && <Tag color="orange" style={{ marginLeft: '8px' }}>New</Tag>}
+                  </div>
+                  <div style={{ fontSize: '12px' }}>{describeEvent(event)}</div>
+                  <div style={{ fontSize: '11px', color: '#888' }}>
+                    {formatDateTime(event.startTime, displayTimeZone)} – {formatDateTime(event.endTime, displayTimeZone)}
+                  </div>
+                </div>
+              </List.Item>
+            )}
+          />
+        )}
+      </Drawer>
+    </>
+  );
+};
+
+export default NotificationCenter;
@@ -1,15 +1,35 @@
 import React, { useCallback, useEffect, useState, useMemo } from 'react';
-import { Button, Space, Typography, Switch, Slider } from 'antd';
+import { Button, Space, Typography, Switch, Slider, Select } from 'antd';
 import { useAppSelector, useAppDispatch } from '../store/hooks';
-import { setSelectedTimeRange, setSelectedTime, toggleRangeMode } from '../store/slices/timelineSlice';
+import {
+  setSelectedTimeRange,
+  setSelectedTime,
+  toggleRangeMode,
+  setTimelineWindow,
+  setResolutionMode,
+  setDisplayTimeZone,
+  TIMELINE_WINDOW_PRESETS,
+  FORECAST_WINDOW_DAYS
+} from '../store/slices/timelineSlice';
+import type { ResolutionMode } from '../store/slices/timelineSlice';
+import { formatDateTime, getTimeZoneLabel, LOCAL_TIME_ZONE } from '../services/timeZones';
+import { getNow } from '../services/clock';
 
 const { Text } = Typography;
 
 const TimelineSlider: React.FC = () => {
   const dispatch = useAppDispatch();
-  const { startTime, endTime, selectedStartTime, selectedEndTime, isRangeMode } = useAppSelector(
+  const { startTime, endTime, selectedStartTime, selectedEndTime, isRangeMode, resolutionMode, displayTimeZone } = useAppSelector(
     (state) => state.timeline
   );
+  const weatherData = useAppSelector(state => state.dataSources.weatherData);
+
+  // Browser zone, UTC and every zone a polygon's data came from
+  const timeZoneOptions = useMemo(() => {
+    const zones = new Set<string>([LOCAL_TIME_ZONE, 'UTC']);
+    Object.values(weatherData).forEach(data => zones.add(data.timezone));
+    return Array.from(zones).map(zone => ({ value: zone, label: getTimeZoneLabel(zone) }));
+  }, [weatherData]);
   
   const [isInitialized, setIsInitialized] = useState(false);
 
@@ -29,10 +49,35 @@ const TimelineSlider: React.FC = () => {
     return () => clearTimeout(timer);
   }, []);
 
-  const formatDate = (timestamp: number) => {
-    const date = new Date(timestamp);
-    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
+  const formatDate = (timestamp: number) => formatDateTime(timestamp, displayTimeZone);
+
+  // Mark where observed data ends and forecast begins
+  const marks = useMemo(() => {
+    const now = getNow();
+    if (now <= timestamps.start || now >= timestamps.end) {
+      return undefined;
+    }
+    return { [now]: { label: '🔮 Now', style: { fontSize: '11px', color: '#722ed1' } } };
+  }, [timestamps.start, timestamps.end]);
+
+  // Preset whose history length matches the current window, if any
+  const windowPresetId = useMemo(() => {
+    const historyDays = Math.round((getNow() - timestamps.start) / (24 * 60 * 60 * 1000));
+    return TIMELINE_WINDOW_PRESETS.find(preset => preset.days === historyDays)?.id;
+  }, [timestamps.start]);
+
+  const handleWindowPresetChange = useCallback((presetId: string) => {
+    const preset = TIMELINE_WINDOW_PRESETS.find(p => p.id === presetId);
+    if (!preset) {
+      return;
+    }
+    const now = getNow();
+    console.log('🗓️ Setting timeline window:', preset.label);
+    dispatch(setTimelineWindow({
+      start: new Date(now - preset.days * 24 * 60 * 60 * 1000),
+      end: new Date(now + FORECAST_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    }));
+  }, [dispatch]);
 
   const handleSliderChange = useCallback((value: number | number[]) => {
     try {
@@ -77,6 +122,32 @@ const TimelineSlider: React.FC = () => {
       <div style={{ marginBottom: '16px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <Text strong>Timeline Control</Text>
         <Space>
+          <Select
+            size="small"
+            value={windowPresetId}
+            placeholder="Window"
+            onChange={handleWindowPresetChange}
+            options={TIMELINE_WINDOW_PRESETS.map(preset => ({ value: preset.id, label: preset.label }))}
+            style={{ width: 170 }}
+          />
+          <Select
+            size="small"
+            value={resolutionMode}
+            onChange={(mode: ResolutionMode) => dispatch(setResolutionMode(mode))}
+            options={[
+              { value: 'auto', label: 'Auto resolution' },
+              { value: 'hourly', label: 'Hourly' },
+              { value: 'daily', label: 'Daily aggregates' },
+            ]}
+            style={{ width: 150 }}
+          />
+          <Select
+            size="small"
+            value={displayTimeZone}
+            onChange={(zone: string) => dispatch(setDisplayTimeZone(zone))}
+            options={timeZoneOptions}
+            style={{ width: 200 }}
+          />
           <Text style={{ color: !isRangeMode ? '#1890ff' : '#666' }}>📍 Single Point</Text>
           <Switch 
             checked={isRangeMode} 
@@ -98,6 +169,7 @@ const TimelineSlider: React.FC = () => {
             min={timestamps.start}
             max={timestamps.end}
             step={900000} // 15 minutes in milliseconds
+            marks={marks}
             onChange={handleSliderChange}
             tooltip={{
               formatter: (value?: number) => value ? formatDate(value) : ''
@@ -109,6 +181,7 @@ const TimelineSlider: React.FC = () => {
             min={timestamps.start}
             max={timestamps.end}
             step={900000} // 15 minutes in milliseconds
+            marks={marks}
             onChange={handleSliderChange}
             tooltip={{
               formatter: (value?: number) => value ? formatDate(value) : ''
@@ -141,7 +214,7 @@ const TimelineSlider: React.FC = () => {
         <Button 
           size="small" 
           onClick={() => {
-            const now = new Date(Math.min(Date.now(), timestamps.end));
+            const now = new Date(Math.min(getNow(), timestamps.end));
             const oneHourAgo = new Date(Math.max(now.getTime() - 60 * 60 * 1000, timestamps.start));
             console.log('⏰ Setting Last Hour:', { start: oneHourAgo, end: now, isRangeMode });
             if (isRangeMode) {
@@ -156,7 +229,7 @@ const TimelineSlider: React.FC = () => {
         <Button 
           size="small" 
           onClick={() => {
-            const now = new Date(Math.min(Date.now(), timestamps.end));
+            const now = new Date(Math.min(getNow(), timestamps.end));
             const sixHoursAgo = new Date(Math.max(now.getTime() - 6 * 60 * 60 * 1000, timestamps.start));
             console.log('⏰ Setting Last 6 Hours:', { start: sixHoursAgo, end: now, isRangeMode });
             if (isRangeMode) {
@@ -171,7 +244,7 @@ const TimelineSlider: React.FC = () => {
         <Button 
           size="small" 
           onClick={() => {
-            const now = new Date(Math.min(Date.now(), timestamps.end));
+            const now = new Date(Math.min(getNow(), timestamps.end));
             const oneDayAgo = new Date(Math.max(now.getTime() - 24 * 60 * 60 * 1000, timestamps.start));
             console.log('⏰ Setting Last 24 Hours:', { start: oneDayAgo, end: now, isRangeMode });
             if (isRangeMode) {
@@ -183,6 +256,21 @@ const TimelineSlider: React.FC = () => {
         >
           📅 Last 24 Hours
         </Button>
+        <Button 
+          size="small" 
+          onClick={() => {
+            const now = new Date(Math.max(getNow(), timestamps.start));
+            const oneDayAhead = new Date(Math.min(now.getTime() + 24 * 60 * 60 * 1000, timestamps.end));
+            console.log('🔮 Setting Next 24 Hours:', { start: now, end: oneDayAhead, isRangeMode });
+            if (isRangeMode) {
+              dispatch(setSelectedTimeRange({ start: now, end: oneDayAhead }));
+            } else {
+              dispatch(setSelectedTime(oneDayAhead));
+            }
+          }}
+        >
+          🔮 Next 24 Hours
+        </Button>
       </div>
     </div>
   );
@@ -0,0 +1,64 @@
+import { configureStore } from '@reduxjs/toolkit';
+import timelineReducer, { setSelectedTimeRange } from '../../store/slices/timelineSlice';
+import polygonReducer from '../../store/slices/polygonSlice';
+import type { Polygon } from '../../store/slices/polygonSlice';
+import dataSourceReducer, { setDataSourceProvider } from '../../store/slices/dataSourceSlice';
+import unitsReducer from '../../store/slices/unitsSlice';
+import polygonStatusReducer, { fetchPolygonWeather } from '../../store/slices/polygonStatusSlice';
+import alertsReducer from '../../store/slices/alertsSlice';
+import { configureFixtures, prepareFixtures } from '../../services/fixtures';
+import type { FixtureFile } from '../../services/fixtures';
+import recordedFixtures from './weather-fixtures.json';
+
+// Store and fixtures for component tests. weather-fixtures.json was recorded in record mode from
+// the synthetic provider for the two polygons below over RANGE, with the clock at its recordedAt.
+
+export const RANGE = { start: new Date('2024-06-10T00:00:00Z'), end: new Date('2024-06-12T00:00:00Z') };
+
+export const POLYGONS: Polygon[] = [
+  {
+    id: 'field',
+    name: 'North field',
+    points: [{ lat: 51.5, lng: -0.1 }, { lat: 51.5, lng: -0.099 }, { lat: 51.501, lng: -0.099 }],
+    dataSourceId: 'temperature',
+    color: '#3388ff'
+  },
+  {
+    id: 'orchard',
+    name: 'Orchard',
+    points: [{ lat: 51.52, lng: -0.12 }, { lat: 51.52, lng: -0.119 }, { lat: 51.521, lng: -0.119 }],
+    dataSourceId: 'temperature',
+    color: '#3388ff'
+  }
+];
+
+export const createReplayStore = (polygons: Polygon[] = POLYGONS) => {
+  configureFixtures({ mode: 'replay', fixtures: recordedFixtures as FixtureFile });
+  const store = configureStore({
+    reducer: {
+      timeline: timelineReducer,
+      polygons: polygonReducer,
+      dataSources: dataSourceReducer,
+      units: unitsReducer,
+      polygonStatus: polygonStatusReducer,
+      alerts: alertsReducer,
+    },
+    preloadedState: {
+      polygons: { polygons, isDrawing: false, selectedPolygonId: null, drawingPoints: [] }
+    },
+    // The timeline keeps Date objects in state, which the development check reports on every action
+    middleware: getDefaultMiddleware => getDefaultMiddleware({ serializableCheck: false }),
+  });
+  store.dispatch(setDataSourceProvider({ dataSourceId: 'temperature', providerId: 'synthetic' }));
+  store.dispatch(setSelectedTimeRange(RANGE));
+  return store;
+};
+
+export type ReplayStore = ReturnType<typeof createReplayStore>;
+
+// Fetch every polygon over RANGE from the fixtures, as the app does when the range settles
+export const loadWeather = (store: ReplayStore) => prepareFixtures().then(() => store.dispatch(fetchPolygonWeather({
+  polygonIds: store.getState().polygons.polygons.map(polygon => polygon.id),
+  startTime: RANGE.start.getTime(),
+  endTime: RANGE.end.getTime()
+})));
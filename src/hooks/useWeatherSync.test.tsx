@@ -0,0 +1,79 @@
+import React from 'react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useWeatherSync } from './useWeatherSync';
+import { fetchWeatherDataForPolygons } from '../services/weatherService';
+import timelineReducer from '../store/slices/timelineSlice';
+import polygonReducer, { updatePolygon } from '../store/slices/polygonSlice';
+import type { Polygon } from '../store/slices/polygonSlice';
+import dataSourceReducer from '../store/slices/dataSourceSlice';
+import unitsReducer from '../store/slices/unitsSlice';
+import polygonStatusReducer from '../store/slices/polygonStatusSlice';
+import alertsReducer from '../store/slices/alertsSlice';
+
+jest.mock('../services/weatherService', () => ({
+  fetchWeatherDataForPolygons: jest.fn(),
+  recolorPolygons: jest.fn()
+}));
+
+const fetchMock = fetchWeatherDataForPolygons as jest.MockedFunction<typeof fetchWeatherDataForPolygons>;
+
+const field = (id: string, lat: number): Polygon => ({
+  id,
+  name: id,
+  points: [{ lat, lng: 0 }, { lat, lng: 0.1 }, { lat: lat + 0.1, lng: 0.1 }],
+  dataSourceId: 'temperature',
+  color: '#3388ff'
+});
+
+const createStore = () => configureStore({
+  reducer: {
+    timeline: timelineReducer,
+    polygons: polygonReducer,
+    dataSources: dataSourceReducer,
+    units: unitsReducer,
+    polygonStatus: polygonStatusReducer,
+    alerts: alertsReducer,
+  },
+  preloadedState: {
+    polygons: { polygons: [field('a', 0), field('b', 1)], isDrawing: false, selectedPolygonId: null, drawingPoints: [] }
+  },
+  // The timeline keeps Date objects in state, which the development check reports on every action
+  middleware: getDefaultMiddleware => getDefaultMiddleware({ serializableCheck: false }),
+});
+
+// Polygon ids and source of each fetch so far
+const fetchedGroups = () => fetchMock.mock.calls.map(([polygons, , , , dataSource]) => [
+  dataSource?.id,
+  polygons.map(polygon => polygon.id)
+]);
+
+describe('useWeatherSync', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    fetchMock.mockImplementation(async polygons => polygons.map(polygon => ({ polygonId: polygon.id, error: null })));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refetches only the polygon whose source changed', async () => {
+    const store = createStore();
+    renderHook(() => useWeatherSync(), {
+      wrapper: ({ children }) => <Provider store={store}>{children}</Provider>
+    });
+
+    await waitFor(() => expect(store.getState().polygonStatus.byPolygon.b?.state).toBe('success'));
+    expect(fetchedGroups()).toEqual([['temperature', ['a', 'b']]]);
+
+    act(() => {
+      store.dispatch(updatePolygon({ id: 'b', updates: { dataSourceId: 'precipitation' } }));
+    });
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    await waitFor(() => expect(store.getState().polygonStatus.byPolygon.b?.state).toBe('success'));
+    expect(fetchedGroups()).toEqual([['temperature', ['a', 'b']], ['precipitation', ['b']]]);
+  });
+});
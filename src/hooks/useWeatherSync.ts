@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { recolorPolygons } from '../services/weatherService';
+import { prepareFixtures } from '../services/fixtures';
+import { forgetPolygons } from '../services/colorWorkerClient';
+import { fetchPolygonWeather } from '../store/slices/polygonStatusSlice';
+import { getPolygonDataSource } from '../services/polygonSources';
+import type { Polygon } from '../store/slices/polygonSlice';
+import type { DataSource } from '../store/slices/dataSourceSlice';
+import type { ResolutionMode } from '../store/slices/timelineSlice';
+
+// Wait for the timeline to settle before fetching while the slider is dragged
+const TIME_RANGE_DEBOUNCE_MS = 400;
+
+interface FetchGeneration {
+  abort: () => void;
+  aborted: boolean;
+  started: boolean; // false while waiting for replayed fixtures
+  replaces: FetchGeneration | null; // running generation to abort once this one has started
+  signatures: Map<string, string>; // polygon id -> signature being fetched
+}
+
+// Everything that makes a polygon's fetched series stale when it changes
+const getFetchSignature = (
+  polygon: Polygon,
+  dataSource: DataSource,
+  start: Date,
+  end: Date,
+  resolutionMode: ResolutionMode
+): string => {
+  const geometry = polygon.points.map(p => `${p.lat.toFixed(6)},${p.lng.toFixed(6)}`).join(';');
+  const derivation = dataSource.derivation ? JSON.stringify(dataSource.derivation) : '';
+  const baseline = dataSource.baseline?.enabled ? dataSource.baseline.years : 0;
+  return `${geometry}|${dataSource.field}|${derivation}|${dataSource.providerId}|${start.getTime()}|${end.getTime()}|${resolutionMode}|${baseline}`;
+};
+
+// Single orchestrator deciding what to fetch or recolor when store state changes.
+// Mounted once at the app root so components only render state.
+export const useWeatherSync = (): void => {
+  const dispatch = useAppDispatch();
+  const polygons = useAppSelector(state => state.polygons.polygons);
+  const { availableDataSources, selectedDataSourceId, weatherData } = useAppSelector(state => state.dataSources);
+  const { selectedStartTime, selectedEndTime, resolutionMode } = useAppSelector(state => state.timeline);
+
+  // Debounced copy of the selected range
+  const [timeRange, setTimeRange] = useState({ start: selectedStartTime, end: selectedEndTime });
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setTimeRange({ start: selectedStartTime, end: selectedEndTime });
+    }, TIME_RANGE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [selectedStartTime, selectedEndTime]);
+
+  // Signature of the last completed fetch for each polygon, and the generation in progress
+  const completedSignatures = useRef(new Map<string, string>());
+  const currentGeneration = useRef<FetchGeneration | null>(null);
+  const latest = useRef({ polygons, weatherData, timeRange, availableDataSources, selectedDataSourceId });
+  latest.current = { polygons, weatherData, timeRange, availableDataSources, selectedDataSourceId };
+
+  // Fetch polygons whose geometry, data source or time range changed,
+  // superseding any generation that is still running
+  useEffect(() => {
+    const completed = completedSignatures.current;
+    const polygonIds = new Set(polygons.map(p => p.id));
+    const removedIds = Array.from(completed.keys()).filter(id => !polygonIds.has(id));
+    removedIds.forEach(id => completed.delete(id));
+    forgetPolygons(removedIds);
+
+    const wanted = new Map<string, string>();
+    polygons.forEach(polygon => {
+      const dataSource = getPolygonDataSource(polygon, availableDataSources, selectedDataSourceId);
+      if (!dataSource) {
+        return;
+      }
+      const signature = getFetchSignature(polygon, dataSource, timeRange.start, timeRange.end, resolutionMode);
+      if (completed.get(polygon.id) !== signature) {
+        wanted.set(polygon.id, signature);
+      }
+    });
+
+    // Re-renders from color updates leave the wanted set unchanged; let the running generation finish
+    const running = currentGeneration.current;
+    const sameAsRunning = running !== null
+      && running.signatures.size === wanted.size
+      && Array.from(wanted.entries()).every(([id, signature]) => running.signatures.get(id) === signature);
+
+    if (sameAsRunning || (wanted.size === 0 && running === null)) {
+      return;
+    }
+
+    // A generation still waiting to start is dropped, and the one it was going to replace is handed on
+    const replaces = running && !running.started ? running.replaces : running;
+    if (running && !running.started) {
+      running.aborted = true;
+    }
+
+    if (wanted.size === 0) {
+      currentGeneration.current = null;
+      replaces?.abort();
+      return;
+    }
+
+    const generation: FetchGeneration = {
+      abort: () => {
+        generation.aborted = true;
+        replaces?.abort();
+      },
+      aborted: false,
+      started: false,
+      replaces,
+      signatures: wanted
+    };
+    currentGeneration.current = generation;
+
+    // Replayed fixtures set the clock the request dates derive from, so they are loaded first.
+    // From here to the provider requests nothing is awaited, so the new generation joins the
+    // requests it shares with the old one before the old one is aborted. A fixture file that fails
+    // to load fails each request on its own, so it shows on the polygons.
+    prepareFixtures().catch(() => undefined).then(() => {
+      if (generation.aborted) {
+        return;
+      }
+      const stale = polygons.filter(polygon => wanted.has(polygon.id));
+      console.log(`🔄 Fetching weather for ${stale.length} of ${polygons.length} polygon(s)`);
+
+      // The thunk reads the data sources and resolution mode from the store, which match what this effect saw
+      const request = dispatch(fetchPolygonWeather({
+        polygonIds: stale.map(polygon => polygon.id),
+        startTime: timeRange.start.getTime(),
+        endTime: timeRange.end.getTime()
+      }));
+      generation.started = true;
+      generation.replaces = null;
+      generation.abort = () => {
+        generation.aborted = true;
+        request.abort();
+      };
+
+      request.then(() => {
+        if (generation.aborted) {
+          return;
+        }
+        wanted.forEach((signature, id) => completed.set(id, signature));
+        if (currentGeneration.current === generation) {
+          currentGeneration.current = null;
+        }
+      });
+
+      // Abort after the new generation has joined any requests it shares with the old one
+      replaces?.abort();
+    });
+  }, [polygons, availableDataSources, selectedDataSourceId, timeRange, resolutionMode, dispatch]);
+
+  // Abort whatever is running when the app unmounts
+  useEffect(() => {
+    return () => currentGeneration.current?.abort();
+  }, []);
+
+  // Rule, styling and aggregation edits, and polygons' own rules, only need a recolor from data already in the store
+  const coloringKey = JSON.stringify([
+    availableDataSources.map(ds => [ds.id, ds.colorRules, ds.fallbackColor, ds.styling, ds.aggregation]),
+    polygons.map(polygon => [polygon.id, polygon.colorRules])
+  ]);
+  useEffect(() => {
+    const current = latest.current;
+    recolorPolygons(
+      current.polygons,
+      current.weatherData,
+      dispatch,
+      current.timeRange.start,
+      current.timeRange.end,
+      current.availableDataSources,
+      current.selectedDataSourceId
+    );
+  }, [coloringKey, dispatch]);
+};
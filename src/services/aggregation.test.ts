@@ -0,0 +1,107 @@
+import {
+  aggregateValues,
+  circularMean,
+  formatAggregatedValue,
+  formatAggregation,
+  fromDisplayAggregate,
+  getAggregationTypes,
+  percentile,
+  toDisplayAggregate
+} from './aggregation';
+import { DEFAULT_UNIT_PREFERENCES } from './units';
+import type { UnitPreferences } from './units';
+
+const IMPERIAL: UnitPreferences = { system: 'imperial', overrides: {} };
+const VALUES = [4, 1, 3, 2, 10];
+
+describe('aggregateValues', () => {
+  it.each([
+    ['mean', 4],
+    ['min', 1],
+    ['max', 10],
+    ['median', 3],
+    ['sum', 20],
+    ['p10', 1.4],
+    ['p90', 7.6]
+  ] as const)('computes the %s', (type, expected) => {
+    expect(aggregateValues(VALUES, { type })).toBeCloseTo(expected, 10);
+  });
+
+  it('computes the population standard deviation', () => {
+    expect(aggregateValues([2, 4, 4, 4, 5, 5, 7, 9], { type: 'stddev' })).toBe(2);
+  });
+
+  it('counts hours above the threshold, scaled by the step', () => {
+    expect(aggregateValues(VALUES, { type: 'hours_above', threshold: 2.5 })).toBe(3);
+    expect(aggregateValues(VALUES, { type: 'hours_above', threshold: 2.5 }, 24)).toBe(72);
+    expect(aggregateValues(VALUES, { type: 'sum' }, 24)).toBe(480);
+  });
+
+  it('is null for an empty window', () => {
+    expect(aggregateValues([], { type: 'max' })).toBeNull();
+  });
+
+  it('handles series longer than the argument limit', () => {
+    const values = Array.from({ length: 200000 }, (_, index) => Math.sin(index) * 50);
+    values[123456] = 99;
+    values[54321] = -99;
+    expect(aggregateValues(values, { type: 'max' })).toBe(99);
+    expect(aggregateValues(values, { type: 'min' })).toBe(-99);
+  });
+
+  it('averages directions as vectors whatever the aggregation', () => {
+    expect(aggregateValues([350, 10], { type: 'mean' }, 1, true)).toBeCloseTo(0, 6);
+    expect(aggregateValues([350, 10], { type: 'max' }, 1, true)).toBeCloseTo(0, 6);
+    expect(aggregateValues([350, 10], { type: 'mean' })).toBe(180);
+  });
+});
+
+describe('circularMean', () => {
+  it('wraps around north', () => {
+    expect(circularMean([340, 20, 0])).toBeCloseTo(0, 6);
+    expect(circularMean([170, 190])).toBeCloseTo(180, 6);
+    expect(circularMean([80, 100])).toBeCloseTo(90, 6);
+  });
+
+  it('weights directions', () => {
+    expect(circularMean([0, 90], [1, 0])).toBeCloseTo(0, 6);
+  });
+
+  it('is null when directions cancel out or nothing is given', () => {
+    expect(circularMean([0, 180])).toBeNull();
+    expect(circularMean([])).toBeNull();
+  });
+});
+
+describe('percentile', () => {
+  it('interpolates between sorted values', () => {
+    expect(percentile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(percentile([1, 2, 3, 4], 0)).toBe(1);
+    expect(percentile([1, 2, 3, 4], 1)).toBe(4);
+  });
+});
+
+describe('getAggregationTypes', () => {
+  it('only offers the mean for directions', () => {
+    expect(getAggregationTypes('angle')).toEqual(['mean']);
+    expect(getAggregationTypes('temperature')).toContain('hours_above');
+  });
+});
+
+describe('display conversion', () => {
+  it('converts levels with the offset and spreads without it', () => {
+    expect(toDisplayAggregate(20, { type: 'max' }, 'temperature', IMPERIAL)).toBeCloseTo(68, 10);
+    expect(toDisplayAggregate(10, { type: 'stddev' }, 'temperature', IMPERIAL)).toBeCloseTo(18, 10);
+    expect(fromDisplayAggregate(68, { type: 'mean' }, 'temperature', IMPERIAL)).toBeCloseTo(20, 10);
+  });
+
+  it('keeps hour counts as they are', () => {
+    expect(toDisplayAggregate(6, { type: 'hours_above', threshold: 30 }, 'temperature', IMPERIAL)).toBe(6);
+    expect(formatAggregatedValue(6, { type: 'hours_above', threshold: 30 }, 'temperature', IMPERIAL)).toBe('6h');
+  });
+
+  it('describes aggregations with their threshold', () => {
+    expect(formatAggregation({ type: 'max' }, 'temperature', DEFAULT_UNIT_PREFERENCES)).toBe('max');
+    expect(formatAggregation({ type: 'hours_above', threshold: 30 }, 'temperature', IMPERIAL)).toBe('hours > 86°F');
+  });
+});
@@ -0,0 +1,171 @@
+import { getDisplayUnit, toDisplayValue, fromDisplayValue, isCircularQuantity } from './units';
+import type { Quantity, UnitPreferences } from './units';
+
+// Reductions applied to a polygon's series over the selected time window
+
+export type AggregationType = 'mean' | 'min' | 'max' | 'median' | 'sum' | 'p10' | 'p90' | 'stddev' | 'hours_above';
+
+export interface Aggregation {
+  type: AggregationType;
+  threshold?: number; // only used by 'hours_above'
+}
+
+interface AggregationInfo {
+  label: string;
+  shortLabel: string; // shown next to values in tags and the legend
+  usesThreshold: boolean;
+  circular: boolean; // meaningful for directions, where it is taken over vectors
+}
+
+export const AGGREGATIONS: Record<AggregationType, AggregationInfo> = {
+  mean: { label: 'Mean', shortLabel: 'avg', usesThreshold: false, circular: true },
+  min: { label: 'Minimum', shortLabel: 'min', usesThreshold: false, circular: false },
+  max: { label: 'Maximum', shortLabel: 'max', usesThreshold: false, circular: false },
+  median: { label: 'Median', shortLabel: 'median', usesThreshold: false, circular: false },
+  sum: { label: 'Sum', shortLabel: 'sum', usesThreshold: false, circular: false },
+  p10: { label: '10th percentile', shortLabel: 'p10', usesThreshold: false, circular: false },
+  p90: { label: '90th percentile', shortLabel: 'p90', usesThreshold: false, circular: false },
+  stddev: { label: 'Standard deviation', shortLabel: 'σ', usesThreshold: false, circular: false },
+  hours_above: { label: 'Hours above threshold', shortLabel: 'hours >', usesThreshold: true, circular: false },
+};
+
+// Aggregations offered for a quantity; directions only have a (vector) mean
+export const getAggregationTypes = (quantity: Quantity): AggregationType[] => {
+  return (Object.keys(AGGREGATIONS) as AggregationType[])
+    .filter(type => !isCircularQuantity(quantity) || AGGREGATIONS[type].circular);
+};
+
+export const DEFAULT_AGGREGATION: Aggregation = { type: 'mean' };
+
+// Linear-interpolated percentile of already sorted values
+export const percentile = (sorted: number[], p: number): number => {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Weighted mean direction of angles in degrees, taken over unit vectors so that 350° and 10°
+// average to 0° rather than 180°; null when the directions cancel out
+export const circularMean = (angles: number[], weights?: number[]): number | null => {
+  let x = 0;
+  let y = 0;
+  let totalWeight = 0;
+  angles.forEach((angle, index) => {
+    const weight = weights ? weights[index] : 1;
+    const radians = angle * Math.PI / 180;
+    x += Math.cos(radians) * weight;
+    y += Math.sin(radians) * weight;
+    totalWeight += weight;
+  });
+  if (totalWeight === 0 || Math.hypot(x, y) < totalWeight * 1e-9) {
+    return null;
+  }
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+// Reduce values to one number; null for an empty window.
+// stepHours scales sums and hour counts when each value covers more than one hour (daily data).
+// Directions (circular) always use the vector mean, whatever aggregation was stored.
+export const aggregateValues = (values: number[], aggregation: Aggregation, stepHours = 1, circular = false): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  if (circular) {
+    return circularMean(values);
+  }
+
+  const sum = values.reduce((total, value) => total + value, 0);
+  const mean = sum / values.length;
+
+  switch (aggregation.type) {
+    // Loops rather than spreading: long hourly ranges exceed the engine's argument limit
+    case 'min':
+      return values.reduce((min, value) => value < min ? value : min, values[0]);
+    case 'max':
+      return values.reduce((max, value) => value > max ? value : max, values[0]);
+    case 'median':
+      return percentile([...values].sort((a, b) => a - b), 0.5);
+    case 'p10':
+      return percentile([...values].sort((a, b) => a - b), 0.1);
+    case 'p90':
+      return percentile([...values].sort((a, b) => a - b), 0.9);
+    case 'sum':
+      return sum * stepHours;
+    case 'stddev':
+      return Math.sqrt(values.reduce((total, value) => total + (value - mean) * (value - mean), 0) / values.length);
+    case 'hours_above': {
+      const threshold = aggregation.threshold ?? 0;
+      return values.filter(value => value > threshold).length * stepHours;
+    }
+    default:
+      return mean;
+  }
+};
+
+// Sums and spreads convert like differences (no offset); hour counts do not convert at all
+const isDeltaAggregation = (aggregation: Aggregation): boolean => {
+  return aggregation.type === 'sum' || aggregation.type === 'stddev';
+};
+
+// Aggregated canonical value (or rule threshold) in the user's units
+export const toDisplayAggregate = (
+  value: number,
+  aggregation: Aggregation,
+  quantity: Quantity,
+  preferences: UnitPreferences
+): number => {
+  if (aggregation.type === 'hours_above') {
+    return value;
+  }
+  return toDisplayValue(value, quantity, preferences, isDeltaAggregation(aggregation));
+};
+
+// Value entered in the user's units back to the canonical aggregate
+export const fromDisplayAggregate = (
+  value: number,
+  aggregation: Aggregation,
+  quantity: Quantity,
+  preferences: UnitPreferences
+): number => {
+  if (aggregation.type === 'hours_above') {
+    return value;
+  }
+  return fromDisplayValue(value, quantity, preferences, isDeltaAggregation(aggregation));
+};
+
+// Unit of an aggregated value: counts are in hours, everything else uses the display unit
+export const getAggregatedUnit = (
+  aggregation: Aggregation,
+  quantity: Quantity,
+  preferences: UnitPreferences
+): string => {
+  return aggregation.type === 'hours_above' ? 'h' : getDisplayUnit(quantity, preferences).symbol;
+};
+
+// Aggregated value with its unit, e.g. "71.6°F" or "6h"
+export const formatAggregatedValue = (
+  value: number,
+  aggregation: Aggregation,
+  quantity: Quantity,
+  preferences: UnitPreferences,
+  digits = 1
+): string => {
+  const display = toDisplayAggregate(value, aggregation, quantity, preferences);
+  return `${display.toFixed(aggregation.type === 'hours_above' ? 0 : digits)}${getAggregatedUnit(aggregation, quantity, preferences)}`;
+};
+
+// Short description such as "max" or "hours > 86°F"
+export const formatAggregation = (
+  aggregation: Aggregation,
+  quantity: Quantity,
+  preferences: UnitPreferences
+): string => {
+  const info = AGGREGATIONS[aggregation.type] || AGGREGATIONS.mean;
+  if (!info.usesThreshold) {
+    return info.shortLabel;
+  }
+  const unit = getDisplayUnit(quantity, preferences);
+  const threshold = toDisplayValue(aggregation.threshold ?? 0, quantity, preferences);
+  return `${info.shortLabel} ${Math.round(threshold * 10) / 10}${unit.symbol}`;
+};
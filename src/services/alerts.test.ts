@@ -0,0 +1,157 @@
+import { aggregateValues, AGGREGATIONS } from './aggregation';
+import type { AggregationType } from './aggregation';
+import { appliesTo, describeAlert, findAlertEvents } from './alerts';
+import type { AlertDefinition } from './alerts';
+import { DEFAULT_UNIT_PREFERENCES } from './units';
+import type { DataSource, WeatherData } from '../store/slices/dataSourceSlice';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 6, 1);
+
+const source = (quantity: DataSource['quantity'] = 'temperature'): DataSource => ({
+  id: 'temperature',
+  name: 'Temperature',
+  field: 'temperature_2m',
+  quantity,
+  icon: '',
+  providerId: 'synthetic',
+  colorRules: [],
+  aggregation: { type: 'mean' },
+  isActive: true
+});
+
+const hourly = (values: Array<number | null>): WeatherData => ({
+  latitude: 0,
+  longitude: 0,
+  time: values.map((_, index) => START + index * HOUR_MS),
+  series: { temperature_2m: values },
+  resolution: 'hourly',
+  utcOffsetSeconds: 0,
+  timezone: 'GMT',
+  sampleCount: 1,
+  gridDistance: null,
+  forecastStartIndex: null
+});
+
+const alert = (overrides: Partial<AlertDefinition> = {}): AlertDefinition => ({
+  id: 'hot',
+  name: 'Hot',
+  dataSourceId: 'temperature',
+  polygonId: null,
+  aggregation: { type: 'max' },
+  windowHours: 3,
+  operator: '>',
+  threshold: 30,
+  enabled: true,
+  ...overrides
+});
+
+// Every window's aggregate the slow way, as events would report them
+const bruteForceEvents = (definition: AlertDefinition, values: Array<number | null>, circular = false) => {
+  const windowSteps = definition.windowHours;
+  const events: Array<{ startTime: number; endTime: number; value: number }> = [];
+  const above = definition.operator === '>' || definition.operator === '>=';
+  for (let start = 0; start + windowSteps <= values.length; start++) {
+    const present = values.slice(start, start + windowSteps).filter((value): value is number => value !== null);
+    const aggregate = present.length < windowSteps / 2 ? null : aggregateValues(present, definition.aggregation, 1, circular);
+    const crosses = aggregate !== null && (
+      definition.operator === '>' ? aggregate > definition.threshold
+        : definition.operator === '>=' ? aggregate >= definition.threshold
+          : definition.operator === '<' ? aggregate < definition.threshold
+            : aggregate <= definition.threshold
+    );
+    if (!crosses) {
+      continue;
+    }
+    const startTime = START + start * HOUR_MS;
+    const endTime = START + (start + windowSteps) * HOUR_MS;
+    const last = events[events.length - 1];
+    if (last && startTime <= last.endTime) {
+      last.endTime = endTime;
+      last.value = above ? Math.max(last.value, aggregate!) : Math.min(last.value, aggregate!);
+    } else {
+      events.push({ startTime, endTime, value: aggregate! });
+    }
+  }
+  return events;
+};
+
+describe('findAlertEvents', () => {
+  it('merges consecutive triggering windows into one event with the most extreme value', () => {
+    const events = findAlertEvents(alert(), source(), hourly([20, 25, 31, 29, 20, 20, 20, 20, 35, 20]));
+    expect(events).toEqual([
+      { startTime: START, endTime: START + 5 * HOUR_MS, value: 31 },
+      { startTime: START + 6 * HOUR_MS, endTime: START + 10 * HOUR_MS, value: 35 }
+    ]);
+  });
+
+  it('skips windows with too few values', () => {
+    const events = findAlertEvents(alert({ windowHours: 4 }), source(), hourly([40, null, null, null, 20, 20]));
+    expect(events).toEqual([]);
+  });
+
+  it('reports the lowest value for alerts below a threshold', () => {
+    const events = findAlertEvents(alert({ aggregation: { type: 'mean' }, windowHours: 2, operator: '<', threshold: 0 }), source(), hourly([1, -1, -3, 2, 5]));
+    expect(events).toEqual([{ startTime: START + HOUR_MS, endTime: START + 4 * HOUR_MS, value: -2 }]);
+  });
+
+  it('is empty for a source without the field', () => {
+    expect(findAlertEvents(alert(), { ...source(), field: 'precipitation' }, hourly([40]))).toEqual([]);
+  });
+
+  // Pseudo-random series with gaps, so every aggregation is compared on varied windows.
+  // Thresholds avoid values a window can hit exactly, where running sums may round differently.
+  const values: Array<number | null> = Array.from({ length: 400 }, (_, index) => {
+    const noise = Math.sin(index * 12.9898) * 43758.5453;
+    return index % 17 === 5 || index % 23 < 3 ? null : Math.round((noise - Math.floor(noise)) * 400) / 10;
+  });
+
+  it.each(Object.keys(AGGREGATIONS) as AggregationType[])('matches per-window aggregation for %s', type => {
+    [3, 24, 72].forEach(windowHours => {
+      ['>', '<='].forEach(operator => {
+        const definition = alert({
+          aggregation: { type, threshold: 20 },
+          windowHours,
+          operator: operator as AlertDefinition['operator'],
+          threshold: type === 'hours_above' ? windowHours / 2 + 0.5 : 20.0123
+        });
+        const events = findAlertEvents(definition, source(), hourly(values));
+        const expected = bruteForceEvents(definition, values);
+        expect(events.map(event => [event.startTime, event.endTime])).toEqual(expected.map(event => [event.startTime, event.endTime]));
+        events.forEach((event, index) => expect(event.value).toBeCloseTo(expected[index].value, 9));
+      });
+    });
+  });
+
+  it('averages directions as vectors', () => {
+    const definition = alert({ aggregation: { type: 'mean' }, windowHours: 2, operator: '<', threshold: 20 });
+    const events = findAlertEvents(definition, source('angle'), hourly([350, 10, 180, 190]));
+    expect(events).toHaveLength(1);
+    expect(events[0].value).toBeCloseTo(0, 9);
+    expect(events[0].endTime).toBe(START + 2 * HOUR_MS);
+    expect(bruteForceEvents(definition, [350, 10, 180, 190], true)[0].value).toBeCloseTo(0, 9);
+  });
+
+  it('handles long series in one pass', () => {
+    const long = Array.from({ length: 5 * 365 * 24 }, (_, index) => 20 + 15 * Math.sin(index / 500));
+    const events = findAlertEvents(alert({ windowHours: 168, aggregation: { type: 'median' } }), source(), hourly(long));
+    expect(events.length).toBeGreaterThan(0);
+    events.forEach(event => expect(event.value).toBeGreaterThan(30));
+  });
+});
+
+describe('appliesTo', () => {
+  it('matches enabled alerts of the source, for one or every polygon', () => {
+    expect(appliesTo(alert(), 'p1', 'temperature')).toBe(true);
+    expect(appliesTo(alert({ polygonId: 'p2' }), 'p1', 'temperature')).toBe(false);
+    expect(appliesTo(alert({ polygonId: 'p1' }), 'p1', 'temperature')).toBe(true);
+    expect(appliesTo(alert({ enabled: false }), 'p1', 'temperature')).toBe(false);
+    expect(appliesTo(alert(), 'p1', 'precipitation')).toBe(false);
+  });
+});
+
+describe('describeAlert', () => {
+  it('describes the window, aggregation and threshold', () => {
+    expect(describeAlert(alert({ windowHours: 24 }), source(), DEFAULT_UNIT_PREFERENCES)).toBe('24 h max > 30.0°C');
+  });
+});
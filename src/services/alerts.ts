@@ -0,0 +1,247 @@
+import { formatAggregatedValue, formatAggregation, percentile } from './aggregation';
+import type { Aggregation } from './aggregation';
+import { isCircularQuantity } from './units';
+import type { UnitPreferences } from './units';
+import type { DataSource, WeatherData } from '../store/slices/dataSourceSlice';
+
+// Threshold alerts: a rolling window aggregate of a polygon's series compared with a threshold,
+// e.g. "24 h max temperature above 30°C". Consecutive triggering windows form one event.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type AlertOperator = '>' | '>=' | '<' | '<=';
+
+export interface AlertDefinition {
+  id: string;
+  name: string;
+  dataSourceId: string;
+  polygonId: string | null; // null applies the alert to every polygon
+  aggregation: Aggregation; // reduction over each window
+  windowHours: number;
+  operator: AlertOperator;
+  threshold: number; // canonical unit of the source's quantity (hours for 'hours_above')
+  enabled: boolean;
+}
+
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  alertName: string;
+  polygonId: string;
+  dataSourceId: string;
+  startTime: number; // epoch ms of the first triggering window's start
+  endTime: number; // epoch ms of the last triggering window's end
+  value: number; // most extreme window aggregate during the event
+  triggeredAt: number;
+  acknowledged: boolean;
+}
+
+export const ALERT_WINDOW_HOURS = [1, 3, 6, 12, 24, 48, 72, 168];
+
+// Share of a window's steps that must have values for it to be evaluated
+const MIN_WINDOW_COVERAGE = 0.5;
+
+const compare = (value: number, operator: AlertOperator, threshold: number): boolean => {
+  switch (operator) {
+    case '>':
+      return value > threshold;
+    case '>=':
+      return value >= threshold;
+    case '<':
+      return value < threshold;
+    default:
+      return value <= threshold;
+  }
+};
+
+// Whether a definition watches this polygon's series of this source
+export const appliesTo = (definition: AlertDefinition, polygonId: string, dataSourceId: string): boolean => {
+  return definition.enabled
+    && definition.dataSourceId === dataSourceId
+    && (definition.polygonId === null || definition.polygonId === polygonId);
+};
+
+// Window aggregates kept up to date as values enter and leave a sliding window, so every
+// window position costs O(1) (extremes amortized, percentiles O(window) for the sorted copy)
+interface SlidingAggregate {
+  add: (index: number) => void;
+  remove: (index: number) => void;
+  count: () => number; // present values in the window
+  result: () => number | null;
+}
+
+const createSlidingAggregate = (
+  values: number[], // NaN where missing; callers only add and remove present values
+  aggregation: Aggregation,
+  stepHours: number,
+  circular: boolean
+): SlidingAggregate => {
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  let above = 0;
+  let x = 0;
+  let y = 0;
+  // Spreads are summed relative to a value of the series, avoiding cancellation in sumOfSquares
+  const shift = values.find(value => !isNaN(value)) ?? 0;
+  const threshold = aggregation.threshold ?? 0;
+
+  // Indices of candidate extremes, their values monotonic from the front
+  const extremes: number[] = [];
+  let extremesStart = 0;
+  const isMax = aggregation.type === 'max';
+  const usesExtremes = !circular && (aggregation.type === 'max' || aggregation.type === 'min');
+
+  const quantile = aggregation.type === 'median' ? 0.5 : aggregation.type === 'p10' ? 0.1 : aggregation.type === 'p90' ? 0.9 : null;
+  const usesSorted = !circular && quantile !== null;
+  const sorted: number[] = [];
+  const findPosition = (value: number): number => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sorted[middle] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  };
+
+  return {
+    add: index => {
+      const value = values[index];
+      count++;
+      sum += value;
+      sumOfSquares += (value - shift) * (value - shift);
+      if (value > threshold) {
+        above++;
+      }
+      if (circular) {
+        x += Math.cos(value * Math.PI / 180);
+        y += Math.sin(value * Math.PI / 180);
+      }
+      if (usesExtremes) {
+        while (extremes.length > extremesStart) {
+          const last = values[extremes[extremes.length - 1]];
+          if (isMax ? last > value : last < value) {
+            break;
+          }
+          extremes.pop();
+        }
+        extremes.push(index);
+      }
+      if (usesSorted) {
+        sorted.splice(findPosition(value), 0, value);
+      }
+    },
+    remove: index => {
+      const value = values[index];
+      count--;
+      sum -= value;
+      sumOfSquares -= (value - shift) * (value - shift);
+      if (value > threshold) {
+        above--;
+      }
+      if (circular) {
+        x -= Math.cos(value * Math.PI / 180);
+        y -= Math.sin(value * Math.PI / 180);
+      }
+      if (usesExtremes && extremes[extremesStart] === index) {
+        extremesStart++;
+      }
+      if (usesSorted) {
+        sorted.splice(findPosition(value), 1);
+      }
+    },
+    count: () => count,
+    result: () => {
+      if (count === 0) {
+        return null;
+      }
+      if (circular) {
+        return Math.hypot(x, y) < count * 1e-9 ? null : (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+      }
+      switch (aggregation.type) {
+        case 'min':
+        case 'max':
+          return values[extremes[extremesStart]];
+        case 'median':
+        case 'p10':
+        case 'p90':
+          return percentile(sorted, quantile!);
+        case 'sum':
+          return sum * stepHours;
+        case 'stddev': {
+          const meanOffset = sum / count - shift;
+          return Math.sqrt(Math.max(0, sumOfSquares / count - meanOffset * meanOffset));
+        }
+        case 'hours_above':
+          return above * stepHours;
+        default:
+          return sum / count;
+      }
+    }
+  };
+};
+
+// Periods in which the window aggregate crosses the threshold, from the polygon's stored series
+export const findAlertEvents = (
+  definition: AlertDefinition,
+  dataSource: DataSource,
+  data: WeatherData
+): Array<Pick<AlertEvent, 'startTime' | 'endTime' | 'value'>> => {
+  const series = data.series[dataSource.field];
+  if (!Array.isArray(series)) {
+    return [];
+  }
+
+  const values = series.map(value => value === null || value === undefined ? NaN : value);
+  const stepHours = data.resolution === 'daily' ? 24 : 1;
+  const stepMs = stepHours * HOUR_MS;
+  const windowSteps = Math.max(1, Math.round(definition.windowHours / stepHours));
+  const above = definition.operator === '>' || definition.operator === '>=';
+  const window = createSlidingAggregate(values, definition.aggregation, stepHours, isCircularQuantity(dataSource.quantity));
+  const events: Array<Pick<AlertEvent, 'startTime' | 'endTime' | 'value'>> = [];
+
+  for (let end = 0; end < values.length; end++) {
+    if (!isNaN(values[end])) {
+      window.add(end);
+    }
+    const start = end - windowSteps + 1;
+    if (start > 0 && !isNaN(values[start - 1])) {
+      window.remove(start - 1);
+    }
+    if (start < 0 || window.count() < windowSteps * MIN_WINDOW_COVERAGE) {
+      continue;
+    }
+
+    const aggregate = window.result();
+    if (aggregate === null || !compare(aggregate, definition.operator, definition.threshold)) {
+      continue;
+    }
+
+    const startTime = data.time[start];
+    const endTime = data.time[end] + stepMs;
+    const last = events[events.length - 1];
+    if (last && startTime <= last.endTime) {
+      last.endTime = endTime;
+      last.value = above ? Math.max(last.value, aggregate) : Math.min(last.value, aggregate);
+    } else {
+      events.push({ startTime, endTime, value: aggregate });
+    }
+  }
+
+  return events;
+};
+
+// Condition in words, e.g. "24 h max > 30°C"
+export const describeAlert = (
+  definition: AlertDefinition,
+  dataSource: DataSource,
+  preferences: UnitPreferences
+): string => {
+  const threshold = formatAggregatedValue(definition.threshold, definition.aggregation, dataSource.quantity, preferences);
+  return `${definition.windowHours} h ${formatAggregation(definition.aggregation, dataSource.quantity, preferences)} ${definition.operator} ${threshold}`;
+};
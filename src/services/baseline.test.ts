@@ -0,0 +1,131 @@
+import {
+  buildBaselineSeries,
+  formatAnomaly,
+  fromDisplayAnomaly,
+  getBaselineProviderId,
+  getBaselineWindows,
+  shiftYears,
+  toDisplayAnomaly
+} from './baseline';
+import { evaluatePolygon } from './colorEvaluation';
+import { DEFAULT_UNIT_PREFERENCES } from './units';
+import type { UnitPreferences } from './units';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const IMPERIAL: UnitPreferences = { system: 'imperial', overrides: {} };
+
+describe('shiftYears', () => {
+  it('keeps the calendar instant', () => {
+    expect(shiftYears(Date.UTC(2024, 5, 10, 13), -3)).toBe(Date.UTC(2021, 5, 10, 13));
+  });
+
+  it('rolls Feb 29 over to Mar 1', () => {
+    expect(shiftYears(Date.UTC(2024, 1, 29, 6), -1)).toBe(Date.UTC(2023, 2, 1, 6));
+  });
+});
+
+describe('getBaselineWindows', () => {
+  it('returns the selected window in each previous year, most recent first', () => {
+    const windows = getBaselineWindows(new Date('2024-06-10T00:00:00Z'), new Date('2024-06-17T00:00:00Z'), 3);
+    expect(windows.map(window => [window.yearsBack, window.startDate.toISOString(), window.endDate.toISOString()])).toEqual([
+      [1, '2023-06-10T00:00:00.000Z', '2023-06-17T00:00:00.000Z'],
+      [2, '2022-06-10T00:00:00.000Z', '2022-06-17T00:00:00.000Z'],
+      [3, '2021-06-10T00:00:00.000Z', '2021-06-17T00:00:00.000Z']
+    ]);
+  });
+});
+
+describe('getBaselineProviderId', () => {
+  it('uses the archive except for the offline provider', () => {
+    expect(getBaselineProviderId('open-meteo')).toBe('open-meteo-archive');
+    expect(getBaselineProviderId('open-meteo-forecast')).toBe('open-meteo-archive');
+    expect(getBaselineProviderId('synthetic')).toBe('synthetic');
+  });
+});
+
+describe('buildBaselineSeries', () => {
+  const start = Date.UTC(2024, 5, 10);
+  const hours = (from: number, count: number): number[] => Array.from({ length: count }, (_, index) => from + index * HOUR_MS);
+
+  it('averages previous years step by step onto the current axis', () => {
+    const baseline = buildBaselineSeries(hours(start, 3), 'hourly', [
+      { yearsBack: 1, time: hours(shiftYears(start, -1), 3), values: [10, 12, null] },
+      { yearsBack: 2, time: hours(shiftYears(start, -2), 3), values: [14, NaN, null] }
+    ]);
+    expect(baseline).toEqual({ years: 2, values: [12, 12, null] });
+  });
+
+  it('ignores previous-year steps outside the current axis', () => {
+    const baseline = buildBaselineSeries(hours(start, 2), 'hourly', [
+      { yearsBack: 1, time: hours(shiftYears(start, -1) - HOUR_MS, 3), values: [100, 1, 2] }
+    ]);
+    expect(baseline.values).toEqual([1, 2]);
+  });
+
+  it('matches daily steps at local midnight by their nearest UTC midnight', () => {
+    // Local midnight at UTC+2 this year and UTC+1 last year
+    const current = [0, 1].map(day => start + day * DAY_MS - 2 * HOUR_MS);
+    const previous = [0, 1].map(day => shiftYears(start, -1) + day * DAY_MS - HOUR_MS);
+    const baseline = buildBaselineSeries(current, 'daily', [{ yearsBack: 1, time: previous, values: [20, 22] }]);
+    expect(baseline.values).toEqual([20, 22]);
+  });
+
+  it('averages directions across 0°/360° as vectors', () => {
+    const baseline = buildBaselineSeries(hours(start, 2), 'hourly', [
+      { yearsBack: 1, time: hours(shiftYears(start, -1), 2), values: [350, 90] },
+      { yearsBack: 2, time: hours(shiftYears(start, -2), 2), values: [10, 270] }
+    ], true);
+    expect(baseline.values[0]).toBeCloseTo(0, 6);
+    // Opposite directions have no mean direction
+    expect(baseline.values[1]).toBeNull();
+  });
+
+  it('is null everywhere without previous years', () => {
+    expect(buildBaselineSeries(hours(start, 2), 'hourly', [])).toEqual({ years: 0, values: [null, null] });
+  });
+});
+
+describe('anomaly display', () => {
+  it('converts differences without the unit offset', () => {
+    expect(toDisplayAnomaly(5, { type: 'mean' }, 'temperature', IMPERIAL)).toBeCloseTo(9, 10);
+    expect(fromDisplayAnomaly(9, { type: 'mean' }, 'temperature', IMPERIAL)).toBeCloseTo(5, 10);
+  });
+
+  it('leaves hour counts unconverted', () => {
+    const aggregation = { type: 'hours_above' as const, threshold: 25 };
+    expect(toDisplayAnomaly(-4, aggregation, 'temperature', IMPERIAL)).toBe(-4);
+    expect(fromDisplayAnomaly(-4, aggregation, 'temperature', IMPERIAL)).toBe(-4);
+  });
+
+  it('formats a signed anomaly with its unit', () => {
+    expect(formatAnomaly(2.34, { type: 'mean' }, 'temperature', DEFAULT_UNIT_PREFERENCES)).toBe('+2.3°C');
+    expect(formatAnomaly(-1, { type: 'mean' }, 'temperature', IMPERIAL)).toBe('-1.8°F');
+    expect(formatAnomaly(0, { type: 'mean' }, 'temperature', DEFAULT_UNIT_PREFERENCES)).toBe('0.0°C');
+    expect(formatAnomaly(-4, { type: 'hours_above', threshold: 25 }, 'temperature', DEFAULT_UNIT_PREFERENCES)).toBe('-4h');
+  });
+});
+
+describe('direction anomalies', () => {
+  it('differ from a baseline across north by the shorter way round', () => {
+    const start = Date.UTC(2024, 5, 10);
+    const time = [start, start + HOUR_MS];
+    const baseline = buildBaselineSeries(time, 'hourly', [
+      { yearsBack: 1, time: time.map(step => shiftYears(step, -1)), values: [340, 340] },
+      { yearsBack: 2, time: time.map(step => shiftYears(step, -2)), values: [0, 0] }
+    ], true);
+    const evaluation = evaluatePolygon(
+      'p1',
+      { values: [10, 10], time, resolution: 'hourly', gridDistance: null, baseline: baseline.values },
+      new Date(start),
+      new Date(start + 2 * HOUR_MS),
+      { type: 'mean' },
+      [],
+      true,
+      undefined,
+      true
+    );
+    expect(evaluation.anomaly?.baselineValue).toBeCloseTo(350, 6);
+    expect(evaluation.anomaly?.anomaly).toBeCloseTo(20, 6);
+  });
+});
@@ -0,0 +1,135 @@
+import { circularMean, getAggregatedUnit } from './aggregation';
+import type { Aggregation } from './aggregation';
+import { toDisplayValue, fromDisplayValue } from './units';
+import type { Quantity, UnitPreferences } from './units';
+import type { DataProviderId, SeriesResolution } from './providers';
+import type { DataSource } from '../store/slices/dataSourceSlice';
+
+// Climatology baselines: the same calendar window in previous years, averaged step by step,
+// so a polygon's value can be shown as its deviation (anomaly) from normal conditions.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_BASELINE_YEARS = 5;
+export const MAX_BASELINE_YEARS = 30;
+
+export interface BaselineSettings {
+  enabled: boolean; // color and report the anomaly instead of the raw value
+  years: number; // previous years averaged into the baseline
+}
+
+// Baseline stored with a polygon's series, aligned to its time axis
+export interface BaselineSeries {
+  years: number;
+  values: Array<number | null>; // mean of the previous years at each step, null when none had data
+}
+
+// A polygon's aggregated baseline and its value's deviation from it, in canonical units
+export interface PolygonAnomaly {
+  baselineValue: number | null; // null when the previous years have no data in the range
+  anomaly: number | null; // value - baselineValue
+}
+
+export interface BaselineWindow {
+  yearsBack: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+export const isAnomalyEnabled = (dataSource: DataSource): boolean => {
+  return !!dataSource.baseline?.enabled;
+};
+
+// Baselines come from the archive; offline deployments keep using the synthetic provider
+export const getBaselineProviderId = (providerId: DataProviderId): DataProviderId => {
+  return providerId === 'synthetic' ? 'synthetic' : 'open-meteo-archive';
+};
+
+// Same calendar instant a number of years earlier (or later); Feb 29 rolls over to Mar 1
+export const shiftYears = (time: number, years: number): number => {
+  const date = new Date(time);
+  date.setUTCFullYear(date.getUTCFullYear() + years);
+  return date.getTime();
+};
+
+// The selected window in each of the previous `years` years, most recent first
+export const getBaselineWindows = (startDate: Date, endDate: Date, years: number): BaselineWindow[] => {
+  const windows: BaselineWindow[] = [];
+  for (let yearsBack = 1; yearsBack <= years; yearsBack++) {
+    windows.push({
+      yearsBack,
+      startDate: new Date(shiftYears(startDate.getTime(), -yearsBack)),
+      endDate: new Date(shiftYears(endDate.getTime(), -yearsBack))
+    });
+  }
+  return windows;
+};
+
+// Average previous years onto the current time axis. Daily steps start at local midnight,
+// so they are matched by the nearest UTC midnight like in quality reports.
+// Directions (circular) are averaged as vectors, so 350° and 10° make a normal of 0°.
+export const buildBaselineSeries = (
+  time: number[],
+  resolution: SeriesResolution,
+  previousYears: Array<{ yearsBack: number; time: number[]; values: Array<number | null> }>,
+  circular = false
+): BaselineSeries => {
+  const toStepKey = (step: number): number => {
+    return resolution === 'daily' ? Math.floor((step + DAY_MS / 2) / DAY_MS) * DAY_MS : step;
+  };
+
+  const lookups = previousYears.map(year => {
+    const valuesByStep = new Map<number, number | null>();
+    year.time.forEach((step, index) => valuesByStep.set(toStepKey(shiftYears(step, year.yearsBack)), year.values[index]));
+    return valuesByStep;
+  });
+
+  const values = time.map(step => {
+    const key = toStepKey(step);
+    const present: number[] = [];
+    lookups.forEach(valuesByStep => {
+      const value = valuesByStep.get(key);
+      if (value !== null && value !== undefined && !isNaN(value)) {
+        present.push(value);
+      }
+    });
+    if (present.length === 0) {
+      return null;
+    }
+    return circular ? circularMean(present) : present.reduce((sum, value) => sum + value, 0) / present.length;
+  });
+
+  return { years: previousYears.length, values };
+};
+
+// Anomalies are differences, so they convert without the unit offset; hour counts do not convert
+export const toDisplayAnomaly = (
+  value: number,
+  aggregation: Aggregation,
+  quantity: Quantity,
+  preferences: UnitPreferences
+): number => {
+  return aggregation.type === 'hours_above' ? value : toDisplayValue(value, quantity, preferences, true);
+};
+
+export const fromDisplayAnomaly = (
+  value: number,
+  aggregation: Aggregation,
+  quantity: Quantity,
+  preferences: UnitPreferences
+): number => {
+  return aggregation.type === 'hours_above' ? value : fromDisplayValue(value, quantity, preferences, true);
+};
+
+// Signed anomaly with its unit, e.g. "+2.3°C" or "-4h"
+export const formatAnomaly = (
+  value: number,
+  aggregation: Aggregation,
+  quantity: Quantity,
+  preferences: UnitPreferences,
+  digits = 1
+): string => {
+  const display = toDisplayAnomaly(value, aggregation, quantity, preferences);
+  const text = display.toFixed(aggregation.type === 'hours_above' ? 0 : digits);
+  return `${display > 0 ? '+' : ''}${text}${getAggregatedUnit(aggregation, quantity, preferences)}`;
+};
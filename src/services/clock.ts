@@ -0,0 +1,13 @@
+// Current time for everything that turns a selected range into provider requests: range
+// validation, request padding, archive/forecast segments and the first forecast step.
+// Fixture recording and replay pin it so the same selection always builds the same requests.
+
+let pinnedTime: number | null = null;
+
+// Epoch milliseconds, pinned or real
+export const getNow = (): number => pinnedTime ?? Date.now();
+
+// Pin the clock to an instant, or follow real time again with null
+export const setClock = (time: number | null): void => {
+  pinnedTime = time;
+};
@@ -0,0 +1,190 @@
+import { aggregateValues, DEFAULT_AGGREGATION } from './aggregation';
+import type { Aggregation } from './aggregation';
+import { buildQualityReport, NO_DATA_COLOR } from './dataQuality';
+import type { GridDistance, QualityReport } from './dataQuality';
+import type { PolygonAnomaly } from './baseline';
+import { applyColorRules } from './colorRules';
+import { buildColorScale, getScaleColor, usesColorScale } from './colorScales';
+import type { ColorStyling } from './colorScales';
+import type { SeriesResolution } from './providers/types';
+import type { ColorRule } from '../store/slices/dataSourceSlice';
+
+// The numeric pipeline from a polygon's series to its value and color. It has no browser or
+// store dependencies so it runs unchanged in the color worker and on the main thread.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reduce a series over the selected time range with the data source's aggregation.
+// An empty window (e.g. a single point between hourly steps) uses the nearest step instead;
+// null means the series has no usable values at all.
+export const calculateAggregateValue = (
+  data: Array<number | null>,
+  timeArray: number[], // UTC epoch milliseconds
+  startTime: Date,
+  endTime: Date,
+  resolution: SeriesResolution = 'hourly',
+  aggregation: Aggregation = DEFAULT_AGGREGATION,
+  circular = false // directions in degrees
+): number | null => {
+  const values: number[] = [];
+
+  // A daily step counts when any part of its day falls inside the range
+  const stepMs = resolution === 'daily' ? DAY_MS : 0;
+  const isValid = (value: number | null): value is number => value !== null && value !== undefined && !isNaN(value);
+
+  timeArray.forEach((time, index) => {
+    const value = data[index];
+    const inRange = stepMs > 0
+      ? time <= endTime.getTime() && time + stepMs > startTime.getTime()
+      : time >= startTime.getTime() && time <= endTime.getTime();
+    if (inRange && isValid(value)) {
+      values.push(value);
+    }
+  });
+
+  if (values.length === 0) {
+    let nearestIndex = -1;
+    timeArray.forEach((time, index) => {
+      const distance = Math.abs(time - startTime.getTime());
+      if (isValid(data[index]) && (nearestIndex === -1 || distance < Math.abs(timeArray[nearestIndex] - startTime.getTime()))) {
+        nearestIndex = index;
+      }
+    });
+    if (nearestIndex === -1) {
+      return null;
+    }
+    values.push(data[nearestIndex] as number);
+  }
+
+  return aggregateValues(values, aggregation, resolution === 'daily' ? 24 : 1, circular);
+};
+
+// One polygon's stored series, as sent to the evaluator
+export interface PolygonSeriesInput {
+  values: Array<number | null>;
+  time: number[];
+  resolution: SeriesResolution;
+  gridDistance: GridDistance | null;
+  baseline?: Array<number | null>; // climatology on the same steps, for anomalies
+}
+
+export interface PolygonEvaluation {
+  polygonId: string;
+  value: number | null;
+  color: string;
+  quality: QualityReport;
+  anomaly: PolygonAnomaly | null; // only when anomalies were requested
+}
+
+// Aggregate one polygon over the range, assess its coverage and pick its color.
+// In anomaly mode the baseline is aggregated the same way and the rules color the difference.
+// Polygons without enough data (or without a baseline) get the "no data" color instead of a rule color.
+// Directions (circular) differ from their baseline by the shorter way round, within ±180°.
+export const evaluatePolygon = (
+  polygonId: string,
+  series: PolygonSeriesInput,
+  startTime: Date,
+  endTime: Date,
+  aggregation: Aggregation,
+  colorRules: ColorRule[],
+  anomalyMode = false,
+  fallbackColor?: string,
+  circular = false
+): PolygonEvaluation => {
+  const value = calculateAggregateValue(series.values, series.time, startTime, endTime, series.resolution, aggregation, circular);
+  const quality = buildQualityReport(series.values, series.time, startTime, endTime, series.resolution, value, series.gridDistance);
+
+  let anomaly: PolygonAnomaly | null = null;
+  if (anomalyMode) {
+    const baselineValue = series.baseline
+      ? calculateAggregateValue(series.baseline, series.time, startTime, endTime, series.resolution, aggregation, circular)
+      : null;
+    const difference = value !== null && baselineValue !== null ? value - baselineValue : null;
+    anomaly = {
+      baselineValue,
+      anomaly: difference !== null && circular ? ((difference % 360) + 540) % 360 - 180 : difference
+    };
+  }
+  const ruleValue = anomaly ? anomaly.anomaly : value;
+
+  return {
+    polygonId,
+    value,
+    color: quality.sufficient && ruleValue !== null ? applyColorRules(ruleValue, colorRules, fallbackColor) : NO_DATA_COLOR,
+    quality,
+    anomaly
+  };
+};
+
+// Messages exchanged with the color worker. Series are sent once per version and kept by the
+// worker, so scrubbing the timeline only transfers the range, aggregation and rules.
+
+export interface EvaluationPolygon {
+  polygonId: string;
+  version: string; // changes whenever any of the polygon's series arrays changes
+  series?: PolygonSeriesInput; // omitted when the worker already holds this version
+}
+
+export interface EvaluationRequest {
+  type: 'evaluate';
+  id: number;
+  startTime: number; // epoch ms
+  endTime: number;
+  aggregation: Aggregation;
+  colorRules: ColorRule[];
+  anomaly: boolean; // color by deviation from each polygon's baseline
+  fallbackColor?: string; // when no rule matches
+  styling?: ColorStyling; // ramp or classes instead of the rules
+  circular?: boolean; // values are directions in degrees
+  polygons: EvaluationPolygon[];
+}
+
+export interface ForgetRequest {
+  type: 'forget';
+  polygonIds: string[];
+}
+
+export type ColorWorkerRequest = EvaluationRequest | ForgetRequest;
+
+export type ColorWorkerResponse =
+  | { type: 'result'; id: number; results: PolygonEvaluation[] }
+  | { type: 'missing'; id: number; polygonIds: string[] } // series the worker no longer holds
+  | { type: 'error'; id: number; message: string };
+
+// Evaluate every polygon of a request whose series is at hand
+export const evaluateBatch = (
+  request: EvaluationRequest,
+  getSeries: (polygon: EvaluationPolygon) => PolygonSeriesInput | undefined
+): PolygonEvaluation[] => {
+  const startTime = new Date(request.startTime);
+  const endTime = new Date(request.endTime);
+  const results: PolygonEvaluation[] = [];
+
+  request.polygons.forEach(polygon => {
+    const series = getSeries(polygon);
+    if (series) {
+      results.push(evaluatePolygon(polygon.polygonId, series, startTime, endTime, request.aggregation, request.colorRules, request.anomaly, request.fallbackColor, request.circular));
+    }
+  });
+
+  return usesColorScale(request.styling) ? applyColorScale(results, request.styling) : results;
+};
+
+// Value the colors are based on, or null for polygons drawn as "no data"
+export const getColoredValue = (evaluation: Pick<PolygonEvaluation, 'value' | 'quality' | 'anomaly'>): number | null => {
+  const value = evaluation.anomaly ? evaluation.anomaly.anomaly : evaluation.value;
+  return evaluation.quality.sufficient ? value : null;
+};
+
+// Recolor a batch with a ramp or classes fitted to the values of all its colored polygons
+const applyColorScale = (results: PolygonEvaluation[], styling: ColorStyling): PolygonEvaluation[] => {
+  const values = results.map(getColoredValue).filter((value): value is number => value !== null);
+  const scale = buildColorScale(styling, values);
+  if (!scale) {
+    return results;
+  }
+  return results.map(result => {
+    const value = getColoredValue(result);
+    return value === null ? result : { ...result, color: getScaleColor(scale, value) };
+  });
+};
@@ -0,0 +1,88 @@
+import {
+  COLOR_RAMPS,
+  getColorDifference,
+  getColorRamp,
+  getOrderedRamps,
+  getPaletteColors,
+  hexToLinearRgb,
+  interpolateRamp,
+  linearRgbToHex,
+  sampleRamp
+} from './colorRamps';
+
+describe('getColorRamp', () => {
+  it('falls back to the first ramp for unknown ids', () => {
+    expect(getColorRamp('magma').label).toBe('Magma');
+    expect(getColorRamp('nope')).toBe(COLOR_RAMPS[0]);
+  });
+
+  it('leaves qualitative sets out of the ordered ramps', () => {
+    expect(getOrderedRamps().some(ramp => ramp.kind === 'qualitative')).toBe(false);
+    expect(getOrderedRamps().map(ramp => ramp.id)).toContain('blue_red');
+  });
+});
+
+describe('interpolateRamp', () => {
+  it('returns the stops at their positions', () => {
+    const stops = ['#440154', '#21918c', '#fde725'];
+    expect(interpolateRamp(stops, 0)).toBe('#440154');
+    expect(interpolateRamp(stops, 0.5)).toBe('#21918c');
+    expect(interpolateRamp(stops, 1)).toBe('#fde725');
+    expect(interpolateRamp(stops, -1)).toBe('#440154');
+    expect(interpolateRamp(stops, 2)).toBe('#fde725');
+    expect(interpolateRamp(['#123456'], 0.3)).toBe('#123456');
+  });
+
+  it('blends in OKLab rather than sRGB', () => {
+    // Perceptual mid-grey is darker than the sRGB average #808080
+    expect(interpolateRamp(['#000000', '#ffffff'], 0.5)).toBe('#636363');
+    expect(interpolateRamp(['#ff0000', '#0000ff'], 0.5)).not.toBe('#800080');
+  });
+});
+
+describe('sampleRamp', () => {
+  it('spreads samples from the first to the last stop', () => {
+    const samples = sampleRamp(['#000000', '#ffffff'], 3);
+    expect(samples).toEqual(['#000000', '#636363', '#ffffff']);
+  });
+
+  it('takes the middle color for a single sample', () => {
+    expect(sampleRamp(['#000000', '#ffffff'], 1)).toEqual(['#636363']);
+  });
+});
+
+describe('hexToLinearRgb', () => {
+  it('expands short hex colors', () => {
+    expect(hexToLinearRgb('#abc')).toEqual(hexToLinearRgb('#aabbcc'));
+    expect(hexToLinearRgb('fff')).toEqual([1, 1, 1]);
+  });
+
+  it('round-trips through linear RGB', () => {
+    ['#000000', '#d73027', '#7f7f7f', '#ffffff'].forEach(hex => {
+      expect(linearRgbToHex(hexToLinearRgb(hex))).toBe(hex);
+    });
+  });
+});
+
+describe('getColorDifference', () => {
+  it('is zero for the same color and grows with contrast', () => {
+    expect(getColorDifference('#abc', '#aabbcc')).toBe(0);
+    expect(getColorDifference('#000000', '#ffffff')).toBeCloseTo(1, 3);
+    expect(getColorDifference('#777777', '#787878')).toBeLessThan(getColorDifference('#777777', '#999999'));
+  });
+});
+
+describe('getPaletteColors', () => {
+  it('samples ordered palettes across their whole range', () => {
+    const blues = getColorRamp('blues');
+    expect(getPaletteColors(blues, 2)).toEqual(['#f7fbff', '#08306b']);
+    expect(getPaletteColors(blues, 2, true)).toEqual(['#08306b', '#f7fbff']);
+  });
+
+  it('takes qualitative colors in turn', () => {
+    const okabeIto = getColorRamp('okabe_ito');
+    const colors = getPaletteColors(okabeIto, 10);
+    expect(colors.slice(0, 3)).toEqual(okabeIto.stops.slice(0, 3));
+    expect(colors[8]).toBe(okabeIto.stops[0]);
+  });
+});
@@ -0,0 +1,133 @@
+// Palette library for ramps, classes and rules: the viridis family and ColorBrewer-style
+// sequential, diverging and qualitative sets. Colors between stops are interpolated in OKLab,
+// where equal steps look like equal changes in lightness and hue, rather than in sRGB.
+
+export type RampKind = 'sequential' | 'diverging' | 'qualitative';
+
+export interface ColorRamp {
+  id: string;
+  label: string;
+  kind: RampKind; // diverging ramps have a neutral middle color; qualitative sets have no order
+  stops: string[]; // evenly spaced from low to high; distinct colors for qualitative sets
+  colorBlindSafe: boolean; // distinguishable with the common color vision deficiencies
+}
+
+export const COLOR_RAMPS: ColorRamp[] = [
+  { id: 'viridis', label: 'Viridis', kind: 'sequential', colorBlindSafe: true, stops: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'] },
+  { id: 'magma', label: 'Magma', kind: 'sequential', colorBlindSafe: true, stops: ['#000004', '#51127c', '#b73779', '#fc8961', '#fcfdbf'] },
+  { id: 'inferno', label: 'Inferno', kind: 'sequential', colorBlindSafe: true, stops: ['#000004', '#56106e', '#bb3754', '#f98e09', '#fcffa4'] },
+  { id: 'plasma', label: 'Plasma', kind: 'sequential', colorBlindSafe: true, stops: ['#0d0887', '#7e03a8', '#cc4778', '#f89540', '#f0f921'] },
+  { id: 'cividis', label: 'Cividis', kind: 'sequential', colorBlindSafe: true, stops: ['#00224e', '#414d6b', '#7c7b78', '#bcaf6f', '#fee838'] },
+  { id: 'blues', label: 'Blues', kind: 'sequential', colorBlindSafe: true, stops: ['#f7fbff', '#9ecae1', '#4292c6', '#08306b'] },
+  { id: 'greens', label: 'Greens', kind: 'sequential', colorBlindSafe: true, stops: ['#f7fcf5', '#a1d99b', '#41ab5d', '#00441b'] },
+  { id: 'purples', label: 'Purples', kind: 'sequential', colorBlindSafe: true, stops: ['#fcfbfd', '#bcbddc', '#807dba', '#3f007d'] },
+  { id: 'oranges', label: 'Oranges', kind: 'sequential', colorBlindSafe: true, stops: ['#fff5eb', '#fdae6b', '#f16913', '#7f2704'] },
+  { id: 'yellow_red', label: 'Yellow–red', kind: 'sequential', colorBlindSafe: true, stops: ['#ffffb2', '#fecc5c', '#fd8d3c', '#e31a1c', '#800026'] },
+  { id: 'yellow_blue', label: 'Yellow–green–blue', kind: 'sequential', colorBlindSafe: true, stops: ['#ffffd9', '#c7e9b4', '#41b6c4', '#225ea8', '#081d58'] },
+  { id: 'blue_red', label: 'Blue–red', kind: 'diverging', colorBlindSafe: true, stops: ['#2166ac', '#92c5de', '#f7f7f7', '#f4a582', '#b2182b'] },
+  { id: 'brown_teal', label: 'Brown–teal', kind: 'diverging', colorBlindSafe: true, stops: ['#8c510a', '#dfc27d', '#f5f5f5', '#80cdc1', '#01665e'] },
+  { id: 'orange_purple', label: 'Orange–purple', kind: 'diverging', colorBlindSafe: true, stops: ['#b35806', '#f1a340', '#f7f7f7', '#998ec3', '#542788'] },
+  { id: 'red_yellow_blue', label: 'Red–yellow–blue', kind: 'diverging', colorBlindSafe: true, stops: ['#d73027', '#fc8d59', '#ffffbf', '#91bfdb', '#4575b4'] },
+  { id: 'pink_green', label: 'Pink–green', kind: 'diverging', colorBlindSafe: true, stops: ['#c51b7d', '#e9a3c9', '#f7f7f7', '#a1d76a', '#4d9221'] },
+  { id: 'spectral', label: 'Spectral', kind: 'diverging', colorBlindSafe: false, stops: ['#d53e4f', '#fc8d59', '#fee08b', '#ffffbf', '#e6f598', '#99d594', '#3288bd'] },
+  { id: 'red_yellow_green', label: 'Red–yellow–green', kind: 'diverging', colorBlindSafe: false, stops: ['#d73027', '#fc8d59', '#fee08b', '#d9ef8b', '#91cf60', '#1a9850'] },
+  { id: 'okabe_ito', label: 'Okabe–Ito', kind: 'qualitative', colorBlindSafe: true, stops: ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7', '#000000'] },
+  { id: 'set2', label: 'Set 2', kind: 'qualitative', colorBlindSafe: false, stops: ['#66c2a5', '#fc8d62', '#8da0cb', '#e78ac3', '#a6d854', '#ffd92f', '#e5c494', '#b3b3b3'] },
+  { id: 'dark2', label: 'Dark 2', kind: 'qualitative', colorBlindSafe: false, stops: ['#1b9e77', '#d95f02', '#7570b3', '#e7298a', '#66a61e', '#e6ab02', '#a6761d', '#666666'] },
+];
+
+export const DEFAULT_RAMP_ID = 'viridis';
+
+export const getColorRamp = (id: string): ColorRamp => {
+  return COLOR_RAMPS.find(ramp => ramp.id === id) ?? COLOR_RAMPS[0];
+};
+
+// Palettes with an order, usable as a gradient or for classes
+export const getOrderedRamps = (): ColorRamp[] => COLOR_RAMPS.filter(ramp => ramp.kind !== 'qualitative');
+
+type Lab = [number, number, number];
+
+export type LinearRgb = [number, number, number];
+
+const toLinear = (channel: number): number => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (channel: number): number => {
+  const c = channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+};
+
+// '#rrggbb' or the short '#rgb'; an alpha channel is ignored
+export const hexToLinearRgb = (hex: string): LinearRgb => {
+  const digits = hex.replace('#', '');
+  const full = digits.length === 3 || digits.length === 4
+    ? digits.slice(0, 3).split('').map(digit => digit + digit).join('')
+    : digits.slice(0, 6);
+  const value = parseInt(full, 16);
+  return [toLinear((value >> 16) & 255), toLinear((value >> 8) & 255), toLinear(value & 255)];
+};
+
+export const linearRgbToHex = (rgb: LinearRgb): string => {
+  return `#${rgb.map(channel => fromLinear(channel).toString(16).padStart(2, '0')).join('')}`;
+};
+
+const hexToOklab = (hex: string): Lab => {
+  const [r, g, b] = hexToLinearRgb(hex);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+};
+
+const oklabToHex = ([L, a, b]: Lab): string => {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+  return linearRgbToHex([
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  ]);
+};
+
+// Perceptual distance between two colors (Euclidean in OKLab); about 0.02 is just noticeable
+export const getColorDifference = (a: string, b: string): number => {
+  const x = hexToOklab(a);
+  const y = hexToOklab(b);
+  return Math.sqrt((x[0] - y[0]) ** 2 + (x[1] - y[1]) ** 2 + (x[2] - y[2]) ** 2);
+};
+
+// Color at position t (0 = first stop, 1 = last stop)
+export const interpolateRamp = (stops: string[], t: number): string => {
+  if (stops.length === 1) {
+    return stops[0];
+  }
+  const position = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  const from = hexToOklab(stops[index]);
+  const to = hexToOklab(stops[index + 1]);
+  const fraction = position - index;
+  return oklabToHex([0, 1, 2].map(i => from[i] + (to[i] - from[i]) * fraction) as Lab);
+};
+
+// `count` evenly spaced colors from the ramp, e.g. one per class
+export const sampleRamp = (stops: string[], count: number): string[] => {
+  if (count <= 1) {
+    return [interpolateRamp(stops, 0.5)];
+  }
+  return Array.from({ length: count }, (_, index) => interpolateRamp(stops, index / (count - 1)));
+};
+
+// `count` colors from a palette: sampled along ordered ones, taken in turn from qualitative sets
+export const getPaletteColors = (ramp: ColorRamp, count: number, reversed = false): string[] => {
+  const stops = reversed ? [...ramp.stops].reverse() : ramp.stops;
+  return ramp.kind === 'qualitative'
+    ? Array.from({ length: count }, (_, index) => stops[index % stops.length])
+    : sampleRamp(stops, count);
+};
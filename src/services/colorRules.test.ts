@@ -0,0 +1,105 @@
+import {
+  applyColorRules,
+  DEFAULT_FALLBACK_COLOR,
+  describeRule,
+  findMatchingRule,
+  matchesCondition,
+  matchesRule
+} from './colorRules';
+import dataSourceReducer from '../store/slices/dataSourceSlice';
+import type { ColorRule } from '../store/slices/dataSourceSlice';
+
+const RULES: ColorRule[] = [
+  { id: 'cold', operator: '<', value: 10, color: '#0000ff' },
+  { id: 'mild', operator: 'between', value: 10, upperValue: 25, color: '#00ff00' },
+  { id: 'hot', operator: '>=', value: 25, color: '#ff0000' }
+];
+
+describe('matchesCondition', () => {
+  it('compares against the threshold', () => {
+    expect(matchesCondition(9.9, { operator: '<', value: 10 })).toBe(true);
+    expect(matchesCondition(10, { operator: '<', value: 10 })).toBe(false);
+    expect(matchesCondition(10, { operator: '<=', value: 10 })).toBe(true);
+    expect(matchesCondition(10, { operator: '>', value: 10 })).toBe(false);
+    expect(matchesCondition(10, { operator: '>=', value: 10 })).toBe(true);
+  });
+
+  it('matches = within the tolerance', () => {
+    expect(matchesCondition(10.05, { operator: '=', value: 10 })).toBe(true);
+    expect(matchesCondition(10.2, { operator: '=', value: 10 })).toBe(false);
+    expect(matchesCondition(10.2, { operator: '=', value: 10, tolerance: 0.5 })).toBe(true);
+  });
+
+  it('treats between as [lower, upper) unless the bounds say otherwise', () => {
+    const range = { operator: 'between' as const, value: 10, upperValue: 20 };
+    expect(matchesCondition(10, range)).toBe(true);
+    expect(matchesCondition(20, range)).toBe(false);
+    expect(matchesCondition(10, { ...range, includeLower: false })).toBe(false);
+    expect(matchesCondition(20, { ...range, includeUpper: true })).toBe(true);
+  });
+});
+
+describe('matchesRule', () => {
+  it('joins extra conditions with AND by default', () => {
+    const rule: ColorRule = { id: 'r', operator: '>', value: 0, color: '#000', conditions: [{ operator: '<', value: 5 }] };
+    expect(matchesRule(3, rule)).toBe(true);
+    expect(matchesRule(7, rule)).toBe(false);
+  });
+
+  it('joins extra conditions with OR when asked', () => {
+    const rule: ColorRule = {
+      id: 'r', operator: '<', value: 0, color: '#000', combinator: 'or', conditions: [{ operator: '>', value: 30 }]
+    };
+    expect(matchesRule(-1, rule)).toBe(true);
+    expect(matchesRule(31, rule)).toBe(true);
+    expect(matchesRule(15, rule)).toBe(false);
+  });
+});
+
+describe('applyColorRules', () => {
+  it('uses the first matching rule in list order', () => {
+    const overlapping: ColorRule[] = [
+      { id: 'a', operator: '>=', value: 10, color: '#aaaaaa' },
+      { id: 'b', operator: '>=', value: 25, color: '#bbbbbb' }
+    ];
+    expect(findMatchingRule(30, overlapping)).toBe(0);
+    expect(applyColorRules(30, overlapping)).toBe('#aaaaaa');
+    expect(applyColorRules(30, [...overlapping].reverse())).toBe('#bbbbbb');
+  });
+
+  it('falls back when nothing matches or there is no value', () => {
+    const rules: ColorRule[] = [{ id: 'a', operator: '>', value: 100, color: '#aaaaaa' }];
+    expect(applyColorRules(5, rules)).toBe(DEFAULT_FALLBACK_COLOR);
+    expect(applyColorRules(5, rules, '#cccccc')).toBe('#cccccc');
+    expect(applyColorRules(null, RULES, '#cccccc')).toBe('#cccccc');
+  });
+
+  it('gives non-overlapping rules the same colors in any order', () => {
+    const reversed = [...RULES].reverse();
+    [-5, 9.99, 10, 24.99, 25, 40].forEach(value => {
+      expect(applyColorRules(value, reversed)).toBe(applyColorRules(value, RULES));
+    });
+  });
+
+  it('colors the default rules the same whichever order they are in', () => {
+    const { availableDataSources } = dataSourceReducer(undefined, { type: 'init' });
+    availableDataSources.forEach(dataSource => {
+      const rules = dataSource.colorRules;
+      const thresholds = rules.flatMap(rule => [rule.value, rule.upperValue ?? rule.value]);
+      const values = thresholds.flatMap(threshold => [threshold - 0.01, threshold, threshold + 0.01]);
+      values.forEach(value => {
+        expect(findMatchingRule(value, rules)).not.toBe(-1);
+        expect(applyColorRules(value, [...rules].reverse())).toBe(applyColorRules(value, rules));
+      });
+    });
+  });
+});
+
+describe('describeRule', () => {
+  it('spells out every condition with its bounds', () => {
+    const format = (value: number) => `${value}°C`;
+    expect(describeRule(RULES[1], format)).toBe('between [10°C, 25°C)');
+    expect(describeRule({ ...RULES[0], combinator: 'or', conditions: [{ operator: '>', value: 30 }] }, format))
+      .toBe('< 10°C OR > 30°C');
+  });
+});
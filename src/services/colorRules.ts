@@ -0,0 +1,88 @@
+import type { ColorRule, RuleCondition, RuleOperator } from '../store/slices/dataSourceSlice';
+
+// Rule engine: rules are checked in the order the user arranged them and the first match
+// colors the polygon; values no rule matches get the source's fallback color.
+
+export const DEFAULT_FALLBACK_COLOR = '#3388ff';
+
+// Distance within which '=' matches unless a rule sets its own tolerance
+export const DEFAULT_EQUALS_TOLERANCE = 0.1;
+
+export const RULE_OPERATORS: Array<{ value: RuleOperator; label: string }> = [
+  { value: '<', label: '<' },
+  { value: '<=', label: '≤' },
+  { value: '=', label: '=' },
+  { value: '>=', label: '≥' },
+  { value: '>', label: '>' },
+  { value: 'between', label: 'between' },
+];
+
+export const getOperatorLabel = (operator: RuleOperator): string => {
+  return RULE_OPERATORS.find(option => option.value === operator)?.label ?? operator;
+};
+
+export const matchesCondition = (value: number, condition: RuleCondition): boolean => {
+  switch (condition.operator) {
+    case '<':
+      return value < condition.value;
+    case '<=':
+      return value <= condition.value;
+    case '=':
+      return Math.abs(value - condition.value) <= (condition.tolerance ?? DEFAULT_EQUALS_TOLERANCE);
+    case '>=':
+      return value >= condition.value;
+    case '>':
+      return value > condition.value;
+    case 'between': {
+      const upper = condition.upperValue ?? condition.value;
+      const aboveLower = condition.includeLower === false ? value > condition.value : value >= condition.value;
+      const belowUpper = condition.includeUpper ? value <= upper : value < upper;
+      return aboveLower && belowUpper;
+    }
+    default:
+      return false;
+  }
+};
+
+// The rule's own condition joined with its extra conditions by AND (default) or OR
+export const matchesRule = (value: number, rule: ColorRule): boolean => {
+  const conditions = [rule as RuleCondition].concat(rule.conditions ?? []);
+  return rule.combinator === 'or'
+    ? conditions.some(condition => matchesCondition(value, condition))
+    : conditions.every(condition => matchesCondition(value, condition));
+};
+
+// Index of the first matching rule, or -1
+export const findMatchingRule = (value: number, colorRules: ColorRule[]): number => {
+  return colorRules.findIndex(rule => matchesRule(value, rule));
+};
+
+// Color of the first matching rule; the fallback color when none matches or there is no value
+export const applyColorRules = (
+  value: number | null,
+  colorRules: ColorRule[],
+  fallbackColor: string = DEFAULT_FALLBACK_COLOR
+): string => {
+  if (!colorRules || value === null) {
+    return fallbackColor;
+  }
+  const index = findMatchingRule(value, colorRules);
+  return index === -1 ? fallbackColor : colorRules[index].color;
+};
+
+// Condition in words with thresholds run through `format`, e.g. "between [10°C, 25°C)"
+export const describeCondition = (condition: RuleCondition, format: (value: number) => string): string => {
+  if (condition.operator === 'between') {
+    const lower = condition.includeLower === false ? '(' : '[';
+    const upper = condition.includeUpper ? ']' : ')';
+    return `between ${lower}${format(condition.value)}, ${format(condition.upperValue ?? condition.value)}${upper}`;
+  }
+  return `${getOperatorLabel(condition.operator)} ${format(condition.value)}`;
+};
+
+export const describeRule = (rule: ColorRule, format: (value: number) => string): string => {
+  const joiner = rule.combinator === 'or' ? ' OR ' : ' AND ';
+  return [rule as RuleCondition].concat(rule.conditions ?? [])
+    .map(condition => describeCondition(condition, format))
+    .join(joiner);
+};
@@ -0,0 +1,136 @@
+import { buildColorScale, DEFAULT_COLOR_STYLING, getClassIndex, getScaleColor } from './colorScales';
+import type { ClassificationMethod, ColorStyling } from './colorScales';
+
+const classes = (method: ClassificationMethod, classCount: number): ColorStyling => ({
+  ...DEFAULT_COLOR_STYLING,
+  mode: 'classes',
+  method,
+  classCount
+});
+
+const breaksOf = (styling: ColorStyling, values: number[]): number[] => {
+  const scale = buildColorScale(styling, values);
+  if (scale?.mode !== 'classes') {
+    throw new Error('expected classes');
+  }
+  return scale.breaks;
+};
+
+// Sum of squared deviations from each class mean, with values assigned by getClassIndex
+const withinClassVariance = (breaks: number[], values: number[]): number => {
+  const groups = new Map<number, number[]>();
+  values.forEach(value => {
+    const index = getClassIndex(breaks, value);
+    groups.set(index, (groups.get(index) ?? []).concat(value));
+  });
+  return Array.from(groups.values()).reduce((total, group) => {
+    const mean = group.reduce((sum, value) => sum + value, 0) / group.length;
+    return total + group.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  }, 0);
+};
+
+// Least within-class variance over every split of sorted values into `classCount` non-empty runs
+const bestVariance = (sorted: number[], classCount: number): number => {
+  if (classCount === 1) {
+    return withinClassVariance([sorted[0], sorted[sorted.length - 1]], sorted);
+  }
+  let best = Infinity;
+  for (let end = 1; end <= sorted.length - classCount + 1; end++) {
+    const head = sorted.slice(0, end);
+    best = Math.min(best, withinClassVariance([head[0], head[head.length - 1]], head) + bestVariance(sorted.slice(end), classCount - 1));
+  }
+  return best;
+};
+
+describe('buildColorScale', () => {
+  it('has nothing to build for rules or without values', () => {
+    expect(buildColorScale(DEFAULT_COLOR_STYLING, [1, 2])).toBeNull();
+    expect(buildColorScale(classes('quantile', 3), [])).toBeNull();
+  });
+
+  it('splits the range evenly for equal intervals', () => {
+    expect(breaksOf(classes('equal_interval', 5), [10, 0, 3, 7, 1, 5])).toEqual([0, 2, 4, 6, 8, 10]);
+  });
+
+  it('puts the same number of values in each quantile class', () => {
+    expect(breaksOf(classes('quantile', 4), [5, 1, 4, 2, 3])).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('finds the natural breaks between clusters', () => {
+    const values = [21, 1, 12, 2, 22, 3, 10, 20, 11];
+    const breaks = breaksOf(classes('jenks', 3), values);
+    expect(breaks).toEqual([1, 3, 12, 22]);
+    expect(values.map(value => getClassIndex(breaks, value))).toEqual([2, 0, 1, 0, 2, 0, 1, 2, 1]);
+  });
+
+  it('matches an exhaustive search for the least within-class variance', () => {
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    for (let trial = 0; trial < 20; trial++) {
+      const values = Array.from({ length: 8 }, (_, index) => Math.round(random() * 1000) / 10 + index * 0.001);
+      const sorted = [...values].sort((a, b) => a - b);
+      [2, 3, 4].forEach(classCount => {
+        const breaks = breaksOf(classes('jenks', classCount), values);
+        expect(withinClassVariance(breaks, values)).toBeCloseTo(bestVariance(sorted, classCount), 6);
+      });
+    }
+  });
+
+  it('centers standard deviation classes on the mean, clamped to the data', () => {
+    const values = [2, 4, 4, 4, 5, 5, 7, 9]; // mean 5, deviation 2
+    expect(breaksOf(classes('std_dev', 4), values)).toEqual([2, 3, 5, 7, 9]);
+    expect(breaksOf(classes('std_dev', 5), values)).toEqual([2, 2, 4, 6, 8, 9]);
+  });
+
+  it('uses no more classes than there are distinct values', () => {
+    const scale = buildColorScale(classes('jenks', 5), [3, 3, 8, 8]);
+    expect(scale).toEqual({ mode: 'classes', breaks: [3, 3, 8], colors: expect.any(Array) });
+    expect(scale?.mode === 'classes' && scale.colors).toHaveLength(2);
+    expect(breaksOf(classes('quantile', 5), [4, 4, 4])).toEqual([4, 4]);
+  });
+
+  it('keeps an automatic diverging range symmetric around a fixed center', () => {
+    const styling: ColorStyling = { ...DEFAULT_COLOR_STYLING, mode: 'ramp', rampId: 'blue_red', center: 0 };
+    expect(buildColorScale(styling, [-2, 5])).toMatchObject({ min: -5, max: 5, center: 0 });
+    expect(buildColorScale({ ...styling, min: -2 }, [-2, 5])).toMatchObject({ min: -2, max: 5, center: 0 });
+    expect(buildColorScale({ ...styling, rampId: 'viridis' }, [-2, 5])).toMatchObject({ min: -2, max: 5, center: null });
+  });
+});
+
+describe('getClassIndex', () => {
+  it('puts values on a break in the lower class and clamps outliers', () => {
+    const breaks = [0, 10, 20, 30];
+    expect(getClassIndex(breaks, -5)).toBe(0);
+    expect(getClassIndex(breaks, 10)).toBe(0);
+    expect(getClassIndex(breaks, 10.1)).toBe(1);
+    expect(getClassIndex(breaks, 30)).toBe(2);
+    expect(getClassIndex(breaks, 99)).toBe(2);
+  });
+});
+
+describe('getScaleColor', () => {
+  const stops = ['#000000', '#808080', '#ffffff'];
+
+  it('maps the range onto the ramp and clamps beyond it', () => {
+    const scale = { mode: 'ramp' as const, stops, min: 0, max: 10, center: null };
+    expect(getScaleColor(scale, 0)).toBe('#000000');
+    expect(getScaleColor(scale, 5)).toBe('#808080');
+    expect(getScaleColor(scale, 25)).toBe('#ffffff');
+  });
+
+  it('gives each side of a diverging center half of the ramp', () => {
+    const scale = { mode: 'ramp' as const, stops, min: -2, max: 10, center: 0 };
+    expect(getScaleColor(scale, 0)).toBe('#808080');
+    expect(getScaleColor(scale, -2)).toBe('#000000');
+    expect(getScaleColor(scale, 10)).toBe('#ffffff');
+  });
+
+  it('takes the color of the value\'s class', () => {
+    const scale = { mode: 'classes' as const, breaks: [0, 5, 10], colors: ['#111111', '#222222'] };
+    expect(getScaleColor(scale, 5)).toBe('#111111');
+    expect(getScaleColor(scale, 6)).toBe('#222222');
+  });
+});
@@ -0,0 +1,183 @@
+import { percentile } from './aggregation';
+import { getColorRamp, interpolateRamp, sampleRamp, DEFAULT_RAMP_ID } from './colorRamps';
+
+// Styling alternatives to discrete color rules: a continuous ramp, or classes computed from
+// the values of all polygons currently shown. Both are relative to the batch of values, so
+// they are built once every polygon's value is known.
+
+export type ColorStylingMode = 'rules' | 'ramp' | 'classes';
+
+export type ClassificationMethod = 'equal_interval' | 'quantile' | 'jenks' | 'std_dev';
+
+export interface ColorStyling {
+  mode: ColorStylingMode;
+  rampId: string; // the gradient, or where the class colors are sampled from
+  reversed?: boolean;
+  min?: number; // fixed gradient range in canonical units; the current values' range when unset
+  max?: number;
+  center?: number; // value at the middle color of a diverging ramp (default: middle of the range)
+  method: ClassificationMethod;
+  classCount: number;
+}
+
+export const CLASSIFICATION_METHODS: Record<ClassificationMethod, { label: string }> = {
+  equal_interval: { label: 'Equal interval' },
+  quantile: { label: 'Quantile' },
+  jenks: { label: 'Natural breaks (Jenks)' },
+  std_dev: { label: 'Standard deviation' },
+};
+
+export const MIN_CLASSES = 2;
+export const MAX_CLASSES = 9;
+
+export const DEFAULT_COLOR_STYLING: ColorStyling = {
+  mode: 'rules',
+  rampId: DEFAULT_RAMP_ID,
+  method: 'quantile',
+  classCount: 5
+};
+
+// A styling resolved against the current values
+export type ColorScale =
+  | { mode: 'ramp'; stops: string[]; min: number; max: number; center: number | null }
+  | { mode: 'classes'; breaks: number[]; colors: string[] }; // breaks[i]..breaks[i + 1] is class i
+
+// Whether polygons are colored relative to each other rather than by fixed rules
+export const usesColorScale = (styling: ColorStyling | undefined): styling is ColorStyling => {
+  return !!styling && styling.mode !== 'rules';
+};
+
+export const getRampStops = (styling: ColorStyling): string[] => {
+  const stops = getColorRamp(styling.rampId).stops;
+  return styling.reversed ? [...stops].reverse() : stops;
+};
+
+const equalIntervalBreaks = (sorted: number[], classCount: number): number[] => {
+  const min = sorted[0];
+  const step = (sorted[sorted.length - 1] - min) / classCount;
+  return Array.from({ length: classCount + 1 }, (_, index) => min + step * index);
+};
+
+const quantileBreaks = (sorted: number[], classCount: number): number[] => {
+  return Array.from({ length: classCount + 1 }, (_, index) => percentile(sorted, index / classCount));
+};
+
+// Fisher-Jenks: the split into classes with the least total within-class variance
+const jenksBreaks = (sorted: number[], classCount: number): number[] => {
+  const n = sorted.length;
+  // lowerLimits[i][k] is where the last class starts (1-based) in the best split of the first i values into k classes
+  const lowerLimits = Array.from({ length: n + 1 }, () => new Array<number>(classCount + 1).fill(0));
+  const variances = Array.from({ length: n + 1 }, () => new Array<number>(classCount + 1).fill(Infinity));
+  for (let k = 1; k <= classCount; k++) {
+    lowerLimits[1][k] = 1;
+    variances[1][k] = 0;
+  }
+
+  for (let i = 2; i <= n; i++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+    for (let count = 1; count <= i; count++) {
+      const lower = i - count + 1;
+      const value = sorted[lower - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / count;
+      if (lower > 1) {
+        for (let k = 2; k <= classCount; k++) {
+          const total = variance + variances[lower - 1][k - 1];
+          if (variances[i][k] >= total) {
+            lowerLimits[i][k] = lower;
+            variances[i][k] = total;
+          }
+        }
+      }
+    }
+    lowerLimits[i][1] = 1;
+    variances[i][1] = variance;
+  }
+
+  const breaks = new Array<number>(classCount + 1);
+  breaks[classCount] = sorted[n - 1];
+  breaks[0] = sorted[0];
+  let end = n;
+  for (let k = classCount; k >= 2; k--) {
+    const start = lowerLimits[end][k];
+    breaks[k - 1] = sorted[start - 2];
+    end = start - 1;
+  }
+  return breaks;
+};
+
+// Classes one standard deviation wide, centered on the mean; the outer classes reach the extremes
+const standardDeviationBreaks = (sorted: number[], classCount: number): number[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const deviation = Math.sqrt(sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length);
+  const inner = Array.from({ length: classCount - 1 }, (_, index) => mean + (index + 1 - classCount / 2) * deviation);
+  return [min, ...inner.map(value => Math.min(max, Math.max(min, value))), max];
+};
+
+const BREAKS: Record<ClassificationMethod, (sorted: number[], classCount: number) => number[]> = {
+  equal_interval: equalIntervalBreaks,
+  quantile: quantileBreaks,
+  jenks: jenksBreaks,
+  std_dev: standardDeviationBreaks,
+};
+
+// Resolve a styling against the values being colored; null for rule styling or without values
+export const buildColorScale = (styling: ColorStyling, values: number[]): ColorScale | null => {
+  if (styling.mode === 'rules' || values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const stops = getRampStops(styling);
+
+  if (styling.mode === 'ramp') {
+    const diverging = getColorRamp(styling.rampId).kind === 'diverging';
+    let min = styling.min ?? sorted[0];
+    let max = styling.max ?? sorted[sorted.length - 1];
+    // A fixed center with an automatic range keeps the range symmetric around it
+    if (diverging && styling.center !== undefined && styling.min === undefined && styling.max === undefined) {
+      const extent = Math.max(Math.abs(min - styling.center), Math.abs(max - styling.center));
+      min = styling.center - extent;
+      max = styling.center + extent;
+    }
+    return { mode: 'ramp', stops, min, max, center: diverging ? styling.center ?? (min + max) / 2 : null };
+  }
+
+  // Fewer classes than distinct values would leave classes empty
+  const distinct = sorted.filter((value, index) => index === 0 || value !== sorted[index - 1]).length;
+  const classCount = Math.max(1, Math.min(styling.classCount, MAX_CLASSES, distinct));
+  const breaks = classCount === 1 ? [sorted[0], sorted[sorted.length - 1]] : BREAKS[styling.method](sorted, classCount);
+  return { mode: 'classes', breaks, colors: sampleRamp(stops, classCount) };
+};
+
+// Class a value falls in; values on a break belong to the lower class
+export const getClassIndex = (breaks: number[], value: number): number => {
+  for (let index = 1; index < breaks.length - 1; index++) {
+    if (value <= breaks[index]) {
+      return index - 1;
+    }
+  }
+  return breaks.length - 2;
+};
+
+export const getScaleColor = (scale: ColorScale, value: number): string => {
+  if (scale.mode === 'classes') {
+    return scale.colors[getClassIndex(scale.breaks, value)];
+  }
+  const { min, max, center } = scale;
+  if (max <= min) {
+    return interpolateRamp(scale.stops, 0.5);
+  }
+  if (center === null || center <= min || center >= max) {
+    return interpolateRamp(scale.stops, (value - min) / (max - min));
+  }
+  // Diverging: each side of the center spans half of the ramp
+  const t = value < center
+    ? 0.5 * (value - min) / (center - min)
+    : 0.5 + 0.5 * (value - center) / (max - center);
+  return interpolateRamp(scale.stops, t);
+};
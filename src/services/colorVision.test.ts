@@ -0,0 +1,40 @@
+import { findContrastWarnings, simulateColorVision } from './colorVision';
+import { getColorDifference } from './colorRamps';
+
+describe('simulateColorVision', () => {
+  it('leaves colors alone for normal vision', () => {
+    expect(simulateColorVision('#d73027', 'normal')).toBe('#d73027');
+  });
+
+  it('keeps greys grey', () => {
+    expect(simulateColorVision('#000000', 'deuteranopia')).toBe('#000000');
+    expect(simulateColorVision('#ffffff', 'protanopia')).toBe('#ffffff');
+  });
+
+  it('brings red and green together without green cones', () => {
+    const normal = getColorDifference('#d73027', '#1a9850');
+    const simulated = getColorDifference(simulateColorVision('#d73027', 'deuteranopia'), simulateColorVision('#1a9850', 'deuteranopia'));
+    expect(simulated).toBeLessThan(normal / 4);
+  });
+
+  it('reads short hex colors like their long form', () => {
+    expect(simulateColorVision('#f80', 'tritanopia')).toBe(simulateColorVision('#ff8800', 'tritanopia'));
+  });
+});
+
+describe('findContrastWarnings', () => {
+  it('flags neighbours that look alike, with the visions affected', () => {
+    const warnings = findContrastWarnings(['#777777', '#787878', '#ffffff']);
+    expect(warnings).toEqual([{ index: 0, visions: ['normal', 'protanopia', 'deuteranopia', 'tritanopia'] }]);
+  });
+
+  it('flags pairs that only color blindness merges', () => {
+    const warnings = findContrastWarnings(['#cc6600', '#669900']);
+    expect(warnings).toEqual([{ index: 0, visions: ['deuteranopia'] }]);
+  });
+
+  it('only compares colors next to each other', () => {
+    expect(findContrastWarnings(['#000000', '#ffffff', '#000000'])).toEqual([]);
+    expect(findContrastWarnings(['#440154', '#21918c', '#fde725'])).toEqual([]);
+  });
+});
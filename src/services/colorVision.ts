@@ -0,0 +1,68 @@
+import { getColorDifference, hexToLinearRgb, linearRgbToHex } from './colorRamps';
+import type { LinearRgb } from './colorRamps';
+
+// Color vision deficiency simulation and contrast checks for palettes. Simulation uses the
+// full-severity matrices of Machado, Oliveira & Fernandes (2009) on linear RGB.
+
+export type ColorVision = 'normal' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export const COLOR_VISIONS: Record<ColorVision, { label: string }> = {
+  normal: { label: 'Normal vision' },
+  protanopia: { label: 'Protanopia (no red cones)' },
+  deuteranopia: { label: 'Deuteranopia (no green cones)' },
+  tritanopia: { label: 'Tritanopia (no blue cones)' },
+};
+
+type Matrix = [LinearRgb, LinearRgb, LinearRgb];
+
+const SIMULATIONS: Record<Exclude<ColorVision, 'normal'>, Matrix> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.011820, 0.042940, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.303900],
+  ],
+};
+
+// Adjacent colors closer than this (OKLab distance) are hard to tell apart on a map
+export const MIN_COLOR_DIFFERENCE = 0.06;
+
+// How a color looks with the given color vision
+export const simulateColorVision = (hex: string, vision: ColorVision): string => {
+  if (vision === 'normal') {
+    return hex;
+  }
+  const rgb = hexToLinearRgb(hex);
+  const matrix = SIMULATIONS[vision];
+  return linearRgbToHex(matrix.map(row => row[0] * rgb[0] + row[1] * rgb[1] + row[2] * rgb[2]) as LinearRgb);
+};
+
+export interface ContrastWarning {
+  index: number; // colors[index] and colors[index + 1] are too similar
+  visions: ColorVision[]; // the color visions for which they are
+}
+
+// Neighbouring colors that are indistinguishable for any color vision; colors are given in value order,
+// as they sit next to each other on a legend
+export const findContrastWarnings = (colors: string[]): ContrastWarning[] => {
+  const warnings: ContrastWarning[] = [];
+  colors.slice(1).forEach((color, offset) => {
+    const previous = colors[offset];
+    const visions = (Object.keys(COLOR_VISIONS) as ColorVision[]).filter(vision =>
+      getColorDifference(simulateColorVision(previous, vision), simulateColorVision(color, vision)) < MIN_COLOR_DIFFERENCE
+    );
+    if (visions.length > 0) {
+      warnings.push({ index: offset, visions });
+    }
+  });
+  return warnings;
+};
@@ -0,0 +1,71 @@
+import { store } from '../store';
+import { createColorWorker } from '../workers/createColorWorker';
+import { evaluatePolygons } from './colorWorkerClient';
+import type { PolygonSeriesInput } from './colorEvaluation';
+import type { ColorRule } from '../store/slices/dataSourceSlice';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+const makeSeries = (values: number[]): PolygonSeriesInput => ({
+  values,
+  time: values.map((_, index) => START + index * HOUR_MS),
+  resolution: 'hourly',
+  gridDistance: null
+});
+
+const RULES: ColorRule[] = [{ id: 'hot', operator: '>', value: 20, color: '#ff0000' }];
+
+describe('colorWorkerClient', () => {
+  it('loads with the store and evaluates on the main thread without workers', async () => {
+    expect(store.getState().dataSources.availableDataSources.length).toBeGreaterThan(0);
+
+    const results = await evaluatePolygons(
+      [{ polygonId: 'a', series: makeSeries([25, 26, 27]) }, { polygonId: 'b', series: makeSeries([5, 6, 7]) }],
+      new Date(START),
+      new Date(START + 2 * HOUR_MS),
+      { type: 'mean' },
+      RULES,
+      false,
+      '#0000ff'
+    );
+
+    expect(createColorWorker).toHaveBeenCalled();
+    expect(results.map(result => [result.polygonId, result.value, result.color])).toEqual([
+      ['a', 26, '#ff0000'],
+      ['b', 6, '#0000ff']
+    ]);
+  });
+
+  it('drops worker results superseded by a later evaluation', async () => {
+    const posted: Array<{ id: number }> = [];
+    const fakeWorker = {
+      postMessage: (message: { id: number }) => posted.push(message),
+      terminate: jest.fn(),
+      onmessage: null as ((event: MessageEvent) => void) | null
+    };
+
+    let isolated: typeof import('./colorWorkerClient') | undefined;
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const factory = require('../workers/createColorWorker');
+      factory.createColorWorker.mockReturnValueOnce(fakeWorker);
+      isolated = require('./colorWorkerClient');
+    });
+
+    const series = makeSeries([25]);
+    const range = [new Date(START), new Date(START)] as const;
+    const first = isolated!.evaluatePolygons([{ polygonId: 'a', series }], ...range, { type: 'mean' }, RULES);
+    const second = isolated!.evaluatePolygons([{ polygonId: 'a', series }], ...range, { type: 'mean' }, [{ ...RULES[0], color: '#00ff00' }]);
+
+    // Answer the newer request first, then the stale one
+    const reply = (id: number, color: string) => fakeWorker.onmessage!({
+      data: { type: 'result', id, results: [{ polygonId: 'a', value: 25, color, quality: {}, anomaly: null }] }
+    } as MessageEvent);
+    reply(posted[1].id, '#00ff00');
+    reply(posted[0].id, '#ff0000');
+
+    expect((await second).map(result => result.color)).toEqual(['#00ff00']);
+    expect(await first).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import { evaluateBatch } from './colorEvaluation';
+import type {
+  ColorWorkerRequest,
+  ColorWorkerResponse,
+  EvaluationRequest,
+  PolygonEvaluation,
+  PolygonSeriesInput
+} from './colorEvaluation';
+import type { Aggregation } from './aggregation';
+import type { ColorStyling } from './colorScales';
+import type { ColorRule } from '../store/slices/dataSourceSlice';
+import { createColorWorker } from '../workers/createColorWorker';
+
+// Main-thread side of the color worker. Falls back to evaluating on the main thread where
+// workers are unavailable (tests, old browsers), cannot start or fail.
+
+interface PendingEvaluation {
+  request: EvaluationRequest;
+  series: Map<string, PolygonSeriesInput>;
+  resolve: (results: PolygonEvaluation[]) => void;
+}
+
+let worker: Worker | null | undefined; // undefined until first use, null when unavailable
+let nextRequestId = 1;
+const pending = new Map<number, PendingEvaluation>();
+
+// Series versions, from the identity of every input array, and the version the worker holds per polygon
+let nextArrayId = 1;
+const arrayIds = new WeakMap<unknown[], number>();
+const sentVersions = new Map<string, string>();
+
+// Key of the latest evaluation requested per polygon; results of older ones are dropped
+const latestEvaluations = new Map<string, string>();
+
+const getArrayId = (values: unknown[] | undefined): number => {
+  if (!values) {
+    return 0;
+  }
+  let id = arrayIds.get(values);
+  if (id === undefined) {
+    id = nextArrayId++;
+    arrayIds.set(values, id);
+  }
+  return id;
+};
+
+// A new baseline (e.g. after enabling anomalies) changes the version as much as new values do
+const getSeriesVersion = (series: PolygonSeriesInput): string => {
+  return [series.values, series.time, series.baseline].map(getArrayId).join('.');
+};
+
+const evaluateOnMainThread = (evaluation: PendingEvaluation): PolygonEvaluation[] => {
+  return evaluateBatch(evaluation.request, polygon => evaluation.series.get(polygon.polygonId));
+};
+
+const handleMessage = (event: MessageEvent<ColorWorkerResponse>): void => {
+  const response = event.data;
+  const evaluation = pending.get(response.id);
+  if (!evaluation) {
+    return;
+  }
+  pending.delete(response.id);
+
+  if (response.type === 'result') {
+    evaluation.resolve(response.results);
+    return;
+  }
+
+  if (response.type === 'missing') {
+    // The worker lost these series; send them in full next time
+    response.polygonIds.forEach(id => sentVersions.delete(id));
+  } else {
+    console.warn('Color worker failed, evaluating on the main thread:', response.message);
+  }
+  evaluation.resolve(evaluateOnMainThread(evaluation));
+};
+
+// Give up on the worker for good and finish whatever it still owed on the main thread
+const handleWorkerFailure = (event: ErrorEvent | MessageEvent): void => {
+  console.warn('Color worker unavailable, evaluating on the main thread:', (event as ErrorEvent).message || event.type);
+  worker?.terminate();
+  worker = null;
+  sentVersions.clear();
+  pending.forEach(evaluation => evaluation.resolve(evaluateOnMainThread(evaluation)));
+  pending.clear();
+};
+
+const getWorker = (): Worker | null => {
+  if (worker === undefined) {
+    try {
+      worker = createColorWorker() ?? null;
+    } catch (error) {
+      console.warn('Could not start color worker, evaluating on the main thread:', error);
+      worker = null;
+    }
+    if (worker) {
+      worker.onmessage = handleMessage;
+      worker.onerror = handleWorkerFailure;
+      worker.onmessageerror = handleWorkerFailure;
+    }
+  }
+  return worker;
+};
+
+// Values, colors and quality for all polygons in one batch
+export const evaluatePolygons = (
+  polygons: Array<{ polygonId: string; series: PolygonSeriesInput }>,
+  startTime: Date,
+  endTime: Date,
+  aggregation: Aggregation,
+  colorRules: ColorRule[],
+  anomaly = false,
+  fallbackColor?: string,
+  styling?: ColorStyling,
+  circular = false
+): Promise<PolygonEvaluation[]> => {
+  const series = new Map(polygons.map(polygon => [polygon.polygonId, polygon.series] as [string, PolygonSeriesInput]));
+  const target = getWorker();
+
+  const parameters = JSON.stringify([startTime.getTime(), endTime.getTime(), aggregation, colorRules, anomaly, fallbackColor, styling, circular]);
+  const request: EvaluationRequest = {
+    type: 'evaluate',
+    id: nextRequestId++,
+    startTime: startTime.getTime(),
+    endTime: endTime.getTime(),
+    aggregation,
+    colorRules,
+    anomaly,
+    fallbackColor,
+    styling,
+    circular,
+    polygons: polygons.map(polygon => {
+      const version = getSeriesVersion(polygon.series);
+      const known = target !== null && sentVersions.get(polygon.polygonId) === version;
+      return { polygonId: polygon.polygonId, version, series: known ? undefined : polygon.series };
+    })
+  };
+
+  // Evaluations can finish out of order (worker, fallback); only the latest per polygon counts
+  const keys = new Map(request.polygons.map(polygon => [polygon.polygonId, `${polygon.version}|${parameters}`] as [string, string]));
+  keys.forEach((key, polygonId) => latestEvaluations.set(polygonId, key));
+  const keepLatest = (results: PolygonEvaluation[]): PolygonEvaluation[] => {
+    return results.filter(result => latestEvaluations.get(result.polygonId) === keys.get(result.polygonId));
+  };
+
+  if (!target) {
+    return Promise.resolve(keepLatest(evaluateBatch(request, polygon => series.get(polygon.polygonId))));
+  }
+
+  request.polygons.forEach(polygon => sentVersions.set(polygon.polygonId, polygon.version));
+  return new Promise<PolygonEvaluation[]>(resolve => {
+    pending.set(request.id, { request, series, resolve });
+    target.postMessage(request as ColorWorkerRequest);
+  }).then(keepLatest);
+};
+
+// Drop series of removed polygons from the worker
+export const forgetPolygons = (polygonIds: string[]): void => {
+  if (polygonIds.length === 0) {
+    return;
+  }
+  polygonIds.forEach(id => {
+    sentVersions.delete(id);
+    latestEvaluations.delete(id);
+  });
+  worker?.postMessage({ type: 'forget', polygonIds } as ColorWorkerRequest);
+};
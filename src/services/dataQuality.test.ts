@@ -0,0 +1,85 @@
+import { buildQualityReport, formatCoverage, MIN_COVERAGE, summarizeGridDistance } from './dataQuality';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = Date.UTC(2024, 0, 1);
+
+const hours = (count: number, from = START): number[] => Array.from({ length: count }, (_, index) => from + index * HOUR_MS);
+
+describe('buildQualityReport', () => {
+  it('reports full coverage for a complete hourly range', () => {
+    const report = buildQualityReport([1, 2, 3, 4], hours(4), new Date(START), new Date(START + 3 * HOUR_MS), 'hourly', 2.5, null);
+    expect(report).toMatchObject({
+      expectedSteps: 4,
+      presentSteps: 4,
+      coverage: 1,
+      gapCount: 0,
+      longestGapHours: 0,
+      usedFallback: false,
+      sufficient: true
+    });
+  });
+
+  it('counts gaps as runs of missing steps', () => {
+    const values = [1, null, null, 4, NaN, 6, 7, null];
+    const report = buildQualityReport(values, hours(8), new Date(START), new Date(START + 7 * HOUR_MS), 'hourly', 4, null);
+    expect(report.presentSteps).toBe(4);
+    expect(report.gapCount).toBe(3);
+    expect(report.longestGapHours).toBe(2);
+    expect(report.coverage).toBe(0.5);
+    expect(report.sufficient).toBe(true);
+  });
+
+  it('treats hours absent from the series as missing', () => {
+    const report = buildQualityReport([1, 2], hours(2), new Date(START), new Date(START + 9 * HOUR_MS), 'hourly', 1.5, null);
+    expect(report.expectedSteps).toBe(10);
+    expect(report.coverage).toBeLessThan(MIN_COVERAGE);
+    expect(report.sufficient).toBe(false);
+    expect(report.longestGapHours).toBe(8);
+  });
+
+  it('matches daily steps at local midnight to their UTC day', () => {
+    // Steps at local midnight in UTC+2, i.e. 22:00 UTC the day before
+    const time = [0, 1, 2].map(day => START + day * DAY_MS - 2 * HOUR_MS);
+    const report = buildQualityReport([5, null, 7], time, new Date(START), new Date(START + 2 * DAY_MS + 12 * HOUR_MS), 'daily', 6, null);
+    expect(report.expectedSteps).toBe(3);
+    expect(report.presentSteps).toBe(2);
+    expect(report.longestGapHours).toBe(24);
+    expect(formatCoverage(report)).toBe('67% of 3 d');
+  });
+
+  it('flags a value taken from outside a range with no data', () => {
+    const report = buildQualityReport([null, null], hours(2), new Date(START), new Date(START + HOUR_MS), 'hourly', 3, null);
+    expect(report.usedFallback).toBe(true);
+    expect(report.sufficient).toBe(false);
+  });
+
+  it('has nothing to cover between two steps', () => {
+    const report = buildQualityReport([1, 2], hours(2), new Date(START + 10 * 60 * 1000), new Date(START + 50 * 60 * 1000), 'hourly', 1, null);
+    expect(report.expectedSteps).toBe(0);
+    expect(report.coverage).toBe(1);
+    expect(report.usedFallback).toBe(false);
+    expect(report.sufficient).toBe(true);
+    expect(formatCoverage(report)).toBe('100% of 0 h');
+  });
+
+  it('is never sufficient without a value', () => {
+    const report = buildQualityReport([1], hours(1), new Date(START), new Date(START), 'hourly', null, null);
+    expect(report.sufficient).toBe(false);
+  });
+});
+
+describe('summarizeGridDistance', () => {
+  it('averages the distances and keeps the largest', () => {
+    expect(summarizeGridDistance([1, 4, 2.5])).toEqual({ meanKm: 2.5, maxKm: 4 });
+  });
+
+  it('handles many samples', () => {
+    const distances = Array.from({ length: 200000 }, (_, index) => index % 10);
+    expect(summarizeGridDistance(distances)).toEqual({ meanKm: 4.5, maxKm: 9 });
+  });
+
+  it('is null without samples', () => {
+    expect(summarizeGridDistance([])).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import type { SeriesResolution } from './providers';
+
+// Coverage of a polygon's series over the selected range, so missing data is reported
+// (and drawn as "no data") instead of being colored like a measured value.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Share of expected steps that must be present for a value to be colored by the rules
+export const MIN_COVERAGE = 0.5;
+
+// Fill used for polygons without enough data
+export const NO_DATA_COLOR = '#9e9e9e';
+
+export interface GridDistance {
+  meanKm: number; // between requested sample points and the grid cells the provider answered with
+  maxKm: number;
+}
+
+export interface QualityReport {
+  resolution: SeriesResolution;
+  expectedSteps: number; // hourly or daily steps the range covers
+  presentSteps: number; // of those, steps with a value
+  coverage: number; // presentSteps / expectedSteps, 1 when the range holds no step
+  gapCount: number; // runs of consecutive missing steps
+  longestGapHours: number;
+  usedFallback: boolean; // value taken from the nearest step outside the range
+  gridDistance: GridDistance | null;
+  sufficient: boolean; // whether the value is colored by the rules
+}
+
+// Mean and max distance over samples; null when nothing was sampled
+export const summarizeGridDistance = (distancesKm: number[]): GridDistance | null => {
+  if (distancesKm.length === 0) {
+    return null;
+  }
+  return {
+    meanKm: distancesKm.reduce((sum, distance) => sum + distance, 0) / distancesKm.length,
+    maxKm: distancesKm.reduce((max, distance) => Math.max(max, distance), 0)
+  };
+};
+
+// Step starts the range should contain: every hour inside it, or every day overlapping it
+const getExpectedSteps = (startTime: number, endTime: number, resolution: SeriesResolution): number[] => {
+  const steps: number[] = [];
+  if (resolution === 'daily') {
+    for (let day = Math.floor(startTime / DAY_MS) * DAY_MS; day <= endTime; day += DAY_MS) {
+      steps.push(day);
+    }
+  } else {
+    for (let hour = Math.ceil(startTime / HOUR_MS) * HOUR_MS; hour <= endTime; hour += HOUR_MS) {
+      steps.push(hour);
+    }
+  }
+  return steps;
+};
+
+// Compare the steps the range should have with the values actually present
+export const buildQualityReport = (
+  values: Array<number | null>,
+  timeArray: number[], // UTC epoch milliseconds
+  startTime: Date,
+  endTime: Date,
+  resolution: SeriesResolution,
+  value: number | null,
+  gridDistance: GridDistance | null
+): QualityReport => {
+  const stepHours = resolution === 'daily' ? 24 : 1;
+
+  // Provider daily steps start at local midnight; key them by the nearest UTC midnight
+  const toStepKey = (time: number): number => {
+    return resolution === 'daily' ? Math.floor((time + DAY_MS / 2) / DAY_MS) * DAY_MS : time;
+  };
+  const valuesByStep = new Map<number, number | null>();
+  timeArray.forEach((time, index) => valuesByStep.set(toStepKey(time), values[index]));
+
+  const expected = getExpectedSteps(startTime.getTime(), endTime.getTime(), resolution);
+  let presentSteps = 0;
+  let gapCount = 0;
+  let currentGap = 0;
+  let longestGap = 0;
+
+  expected.forEach(step => {
+    const stepValue = valuesByStep.get(step);
+    if (stepValue !== null && stepValue !== undefined && !isNaN(stepValue)) {
+      presentSteps++;
+      currentGap = 0;
+    } else {
+      if (currentGap === 0) {
+        gapCount++;
+      }
+      currentGap++;
+      longestGap = Math.max(longestGap, currentGap);
+    }
+  });
+
+  const coverage = expected.length > 0 ? presentSteps / expected.length : 1;
+
+  return {
+    resolution,
+    expectedSteps: expected.length,
+    presentSteps,
+    coverage,
+    gapCount,
+    longestGapHours: longestGap * stepHours,
+    // A range between two steps legitimately uses the nearest one; only a range with missing steps falls back
+    usedFallback: value !== null && expected.length > 0 && presentSteps === 0,
+    gridDistance,
+    sufficient: value !== null && coverage >= MIN_COVERAGE
+  };
+};
+
+// Short description such as "92% of 168 h" for tags and tooltips
+export const formatCoverage = (report: QualityReport): string => {
+  const unit = report.resolution === 'daily' ? 'd' : 'h';
+  return `${Math.round(report.coverage * 100)}% of ${report.expectedSteps} ${unit}`;
+};
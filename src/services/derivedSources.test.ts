@@ -0,0 +1,91 @@
+import type { DataSource } from '../store/slices/dataSourceSlice';
+import {
+  deriveSeries,
+  getRequiredFields,
+  getUnknownExpressionFields,
+  supportsDailyResolution
+} from './derivedSources';
+import type { Derivation } from './derivedSources';
+
+const source = (derivation?: Derivation): DataSource => ({
+  id: 'source',
+  name: 'Source',
+  field: derivation ? 'source' : 'temperature_2m',
+  dailyField: derivation ? undefined : 'temperature_2m_mean',
+  derivation,
+  quantity: 'temperature',
+  icon: '',
+  providerId: 'open-meteo',
+  colorRules: [],
+  aggregation: { type: 'mean' },
+  isActive: true
+});
+
+describe('getRequiredFields', () => {
+  it('requests the raw field of a plain source at either resolution', () => {
+    expect(getRequiredFields(source(), 'hourly')).toEqual(['temperature_2m']);
+    expect(getRequiredFields(source(), 'daily')).toEqual(['temperature_2m_mean']);
+  });
+
+  it('requests the inputs of a built-in derivation', () => {
+    expect(getRequiredFields(source({ type: 'heat_index' }), 'daily')).toEqual(['temperature_2m_mean', 'relative_humidity_2m_mean']);
+  });
+
+  it('requests the fields an expression uses, hourly only', () => {
+    const expression = source({ type: 'expression', expression: 'temperature_2m - dew_point_2m + temperature_2m' });
+    expect(getRequiredFields(expression, 'hourly')).toEqual(['temperature_2m', 'dew_point_2m']);
+    expect(supportsDailyResolution(expression)).toBe(false);
+    expect(() => getRequiredFields(expression, 'daily')).toThrow('Source cannot be computed from daily data');
+  });
+
+  it('refuses expression fields the provider does not serve', () => {
+    const expression = source({ type: 'expression', expression: 'temperature_2m - api_key' });
+    expect(() => getRequiredFields(expression, 'hourly')).toThrow('Source uses unknown field: api_key');
+  });
+});
+
+describe('getUnknownExpressionFields', () => {
+  it('checks variables against the provider\'s hourly fields', () => {
+    expect(getUnknownExpressionFields('wind_gusts_10m - wind_speed_10m', 'open-meteo')).toEqual([]);
+    expect(getUnknownExpressionFields('wind_gusts_10m - wind_speed_10m', 'synthetic')).toEqual(['wind_gusts_10m']);
+    expect(getUnknownExpressionFields('toString + constructor', 'open-meteo')).toEqual(['toString', 'constructor']);
+  });
+});
+
+describe('deriveSeries', () => {
+  it('passes a plain source\'s series through', () => {
+    const series = { temperature_2m: [1, null, 3] };
+    expect(deriveSeries(source(), 'hourly', series)).toBe(series.temperature_2m);
+  });
+
+  it('computes per step and leaves steps with a missing input null', () => {
+    const series = { temperature_2m: [20, 15, null, 8], dew_point_2m: [12, NaN, 5, 8] };
+    expect(deriveSeries(source({ type: 'dew_point_depression' }), 'hourly', series)).toEqual([8, null, null, 0]);
+  });
+
+  it('accrues growing degree days per hour above the base temperature', () => {
+    const series = { temperature_2m: [4, 10, 34] };
+    expect(deriveSeries(source({ type: 'growing_degree_days' }), 'hourly', series)).toEqual([0, 0, 1]);
+    expect(deriveSeries(source({ type: 'growing_degree_days', baseTemperature: 4 }), 'hourly', series)).toEqual([0, 0.25, 1.25]);
+  });
+
+  it('uses the air temperature outside the wind chill formula\'s range', () => {
+    const series = { temperature_2m: [15, -10], wind_speed_10m: [30, 20] };
+    const [warm, cold] = deriveSeries(source({ type: 'wind_chill' }), 'hourly', series);
+    expect(warm).toBe(15);
+    expect(cold).toBeCloseTo(-17.9, 1);
+  });
+
+  it('matches the NWS heat index table', () => {
+    // 90°F at 60% relative humidity reads 100°F
+    const series = { temperature_2m: [(90 - 32) * 5 / 9], relative_humidity_2m: [60] };
+    const [index] = deriveSeries(source({ type: 'heat_index' }), 'hourly', series);
+    expect(index! * 9 / 5 + 32).toBeCloseTo(100, 0);
+  });
+
+  it('evaluates expressions over the raw fields', () => {
+    const series = { temperature_2m: [10, 20], relative_humidity_2m: [50, null] };
+    const expression = source({ type: 'expression', expression: 'temperature_2m * relative_humidity_2m / 100' });
+    expect(deriveSeries(expression, 'hourly', series)).toEqual([5, null]);
+  });
+});
@@ -0,0 +1,201 @@
+import { compileExpression } from './expression';
+import type { CompiledExpression } from './expression';
+import { getDataProvider } from './providers';
+import type { DataProviderId, SeriesResolution } from './providers';
+import type { DataSource } from '../store/slices/dataSourceSlice';
+
+// Data sources computed from raw provider fields. A derived source declares the fields it
+// needs per resolution; the weather service fetches those and computes the source's series
+// for every sample point before area weighting, so non-linear indices stay correct.
+
+export type DerivationType = 'heat_index' | 'wind_chill' | 'growing_degree_days' | 'dew_point_depression' | 'expression';
+
+export interface Derivation {
+  type: DerivationType;
+  baseTemperature?: number; // 'growing_degree_days' only, °C
+  expression?: string; // 'expression' only, over raw hourly field names
+}
+
+interface DerivationInfo {
+  label: string;
+  // Provider field bound to each named input, per supported resolution
+  inputs: Partial<Record<SeriesResolution, Record<string, string>>>;
+  compute: (inputs: Record<string, number>, derivation: Derivation) => number | null;
+}
+
+const DEFAULT_GDD_BASE_TEMPERATURE = 10;
+
+// NWS heat index (Rothfusz regression with Steadman's simple formula below 80°F), °C in and out
+const computeHeatIndex = (temperature: number, humidity: number): number => {
+  const t = temperature * 9 / 5 + 32;
+  const rh = humidity;
+  const simple = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+  let index = simple;
+
+  if ((simple + t) / 2 >= 80) {
+    index = -42.379 + 2.04901523 * t + 10.14333127 * rh
+      - 0.22475541 * t * rh - 0.00683783 * t * t - 0.05481717 * rh * rh
+      + 0.00122874 * t * t * rh + 0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+    if (rh < 13 && t >= 80 && t <= 112) {
+      index -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+    } else if (rh > 85 && t >= 80 && t <= 87) {
+      index += ((rh - 85) / 10) * ((87 - t) / 5);
+    }
+  }
+
+  return (index - 32) * 5 / 9;
+};
+
+// Environment Canada wind chill; outside its validity (above 10°C or below 4.8 km/h) it is the air temperature
+const computeWindChill = (temperature: number, windSpeed: number): number => {
+  if (temperature > 10 || windSpeed < 4.8) {
+    return temperature;
+  }
+  const v = Math.pow(windSpeed, 0.16);
+  return 13.12 + 0.6215 * temperature - 11.37 * v + 0.3965 * temperature * v;
+};
+
+export const DERIVATIONS: Record<DerivationType, DerivationInfo> = {
+  heat_index: {
+    label: 'Heat index',
+    inputs: {
+      hourly: { temperature: 'temperature_2m', humidity: 'relative_humidity_2m' },
+      daily: { temperature: 'temperature_2m_mean', humidity: 'relative_humidity_2m_mean' },
+    },
+    compute: ({ temperature, humidity }) => computeHeatIndex(temperature, humidity),
+  },
+  wind_chill: {
+    label: 'Wind chill',
+    inputs: {
+      hourly: { temperature: 'temperature_2m', windSpeed: 'wind_speed_10m' },
+      daily: { temperature: 'temperature_2m_mean', windSpeed: 'wind_speed_10m_mean' },
+    },
+    compute: ({ temperature, windSpeed }) => computeWindChill(temperature, windSpeed),
+  },
+  growing_degree_days: {
+    label: 'Growing degree days',
+    inputs: {
+      hourly: { temperature: 'temperature_2m' },
+      daily: { temperature: 'temperature_2m_mean' },
+    },
+    // Degree-days accrued per hour, so a 'sum' over any range gives GDD at either resolution
+    compute: ({ temperature }, derivation) => {
+      return Math.max(0, temperature - (derivation.baseTemperature ?? DEFAULT_GDD_BASE_TEMPERATURE)) / 24;
+    },
+  },
+  dew_point_depression: {
+    label: 'Dew point depression',
+    inputs: {
+      hourly: { temperature: 'temperature_2m', dewPoint: 'dew_point_2m' },
+      daily: { temperature: 'temperature_2m_mean', dewPoint: 'dew_point_2m_mean' },
+    },
+    compute: ({ temperature, dewPoint }) => temperature - dewPoint,
+  },
+  expression: {
+    label: 'Custom expression',
+    inputs: {}, // taken from the expression's variables
+    compute: (inputs, derivation) => getCompiledExpression(derivation.expression || '').evaluate(inputs),
+  },
+};
+
+// Parsed expressions, reused across samples and fetches
+const compiledExpressions = new Map<string, CompiledExpression>();
+
+const getCompiledExpression = (source: string): CompiledExpression => {
+  let compiled = compiledExpressions.get(source);
+  if (!compiled) {
+    compiled = compileExpression(source);
+    compiledExpressions.set(source, compiled);
+  }
+  return compiled;
+};
+
+// Inputs a derivation binds at a resolution, or null when it cannot be computed there.
+// Expressions refer to hourly field names directly, so they are hourly only.
+export const getDerivationInputs = (
+  derivation: Derivation,
+  resolution: SeriesResolution
+): Record<string, string> | null => {
+  if (derivation.type === 'expression') {
+    if (resolution !== 'hourly') {
+      return null;
+    }
+    const inputs: Record<string, string> = {};
+    getCompiledExpression(derivation.expression || '').variables.forEach(name => {
+      inputs[name] = name;
+    });
+    return inputs;
+  }
+  return DERIVATIONS[derivation.type].inputs[resolution] || null;
+};
+
+// Expression fields the provider does not serve hourly; anything else would reach it as a request parameter
+export const getUnknownExpressionFields = (expression: string, providerId?: DataProviderId): string[] => {
+  const known = getDataProvider(providerId).hourlyFields;
+  return getCompiledExpression(expression).variables.filter(name => !known.includes(name));
+};
+
+// Whether a source can be fetched as daily aggregates; counting hours above a threshold needs hourly values
+export const supportsDailyResolution = (dataSource: DataSource): boolean => {
+  if (dataSource.aggregation.type === 'hours_above') {
+    return false;
+  }
+  return dataSource.derivation
+    ? getDerivationInputs(dataSource.derivation, 'daily') !== null
+    : !!dataSource.dailyField;
+};
+
+// Provider fields to request for a source at a resolution
+export const getRequiredFields = (dataSource: DataSource, resolution: SeriesResolution): string[] => {
+  if (!dataSource.derivation) {
+    return [resolution === 'daily' && dataSource.dailyField ? dataSource.dailyField : dataSource.field];
+  }
+  const inputs = getDerivationInputs(dataSource.derivation, resolution);
+  if (!inputs) {
+    throw new Error(`${dataSource.name} cannot be computed from ${resolution} data`);
+  }
+  if (dataSource.derivation.type === 'expression') {
+    const unknown = getUnknownExpressionFields(dataSource.derivation.expression || '', dataSource.providerId);
+    if (unknown.length > 0) {
+      throw new Error(`${dataSource.name} uses unknown field${unknown.length !== 1 ? 's' : ''}: ${unknown.join(', ')}`);
+    }
+  }
+  return Object.keys(inputs)
+    .map(name => inputs[name])
+    .filter((field, index, fields) => fields.indexOf(field) === index);
+};
+
+// The source's series from one location's raw fields; steps with a missing input are null
+export const deriveSeries = (
+  dataSource: DataSource,
+  resolution: SeriesResolution,
+  series: Record<string, Array<number | null>>
+): Array<number | null> => {
+  const [field] = getRequiredFields(dataSource, resolution);
+  if (!dataSource.derivation) {
+    return series[field];
+  }
+
+  const derivation = dataSource.derivation;
+  const info = DERIVATIONS[derivation.type];
+  const inputs = getDerivationInputs(derivation, resolution)!;
+  const names = Object.keys(inputs);
+  const length = Math.max(0, ...names.map(name => series[inputs[name]].length));
+  const values: Array<number | null> = [];
+
+  for (let index = 0; index < length; index++) {
+    const stepInputs: Record<string, number> = {};
+    let complete = true;
+    names.forEach(name => {
+      const value = series[inputs[name]][index];
+      if (value === null || value === undefined || isNaN(value)) {
+        complete = false;
+      } else {
+        stepInputs[name] = value;
+      }
+    });
+    values.push(complete ? info.compute(stepInputs, derivation) : null);
+  }
+
+  return values;
+};
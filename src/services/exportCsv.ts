@@ -0,0 +1,98 @@
+import type { Polygon } from '../store/slices/polygonSlice';
+import type { DataSource, WeatherData } from '../store/slices/dataSourceSlice';
+import { formatAggregation, toDisplayAggregate, getAggregatedUnit } from './aggregation';
+import { getDisplayUnit, toDisplayValue } from './units';
+import type { UnitPreferences } from './units';
+import { isAnomalyEnabled, toDisplayAnomaly } from './baseline';
+
+// Quote a CSV cell when it contains separators, quotes or line breaks
+const escapeCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: Array<Array<string | number>>): string => {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\n');
+};
+
+// One row per polygon and time step, values in the user's display unit
+export const buildSeriesCsv = (
+  polygons: Polygon[],
+  weatherData: Record<string, WeatherData>,
+  dataSource: DataSource,
+  preferences: UnitPreferences
+): string => {
+  const unit = getDisplayUnit(dataSource.quantity, preferences);
+  const rows: Array<Array<string | number>> = [
+    ['polygon', 'time_utc', `${dataSource.field} (${unit.symbol})`, 'forecast']
+  ];
+
+  polygons.forEach(polygon => {
+    const data = weatherData[polygon.id];
+    const values = data?.series[dataSource.field];
+    if (!data || !values) {
+      return;
+    }
+    data.time.forEach((time, index) => {
+      const value = values[index];
+      rows.push([
+        polygon.name,
+        new Date(time).toISOString(),
+        value === null || value === undefined ? '' : Math.round(toDisplayValue(value, dataSource.quantity, preferences) * 100) / 100,
+        data.forecastStartIndex !== null && index >= data.forecastStartIndex ? 'yes' : 'no'
+      ]);
+    });
+  });
+
+  return toCsv(rows);
+};
+
+// One row per polygon with its aggregated value and color, plus baseline and anomaly in the anomaly view
+export const buildSummaryCsv = (
+  polygons: Polygon[],
+  dataSource: DataSource,
+  preferences: UnitPreferences
+): string => {
+  const unit = getAggregatedUnit(dataSource.aggregation, dataSource.quantity, preferences);
+  const label = formatAggregation(dataSource.aggregation, dataSource.quantity, preferences);
+  const anomalyView = isAnomalyEnabled(dataSource);
+  const round = (value: number | null | undefined, toDisplay: typeof toDisplayAggregate): string | number => {
+    return value === null || value === undefined
+      ? ''
+      : Math.round(toDisplay(value, dataSource.aggregation, dataSource.quantity, preferences) * 100) / 100;
+  };
+  const rows: Array<Array<string | number>> = [
+    ['polygon', `${dataSource.field} ${label} (${unit})`, 'color', 'samples', 'coverage', 'sufficient']
+      .concat(anomalyView ? [`baseline (${unit})`, `anomaly (${unit})`] : [])
+  ];
+
+  polygons.forEach(polygon => {
+    const anomalyColumns = anomalyView
+      ? [round(polygon.anomaly?.baselineValue, toDisplayAggregate), round(polygon.anomaly?.anomaly, toDisplayAnomaly)]
+      : [];
+    rows.push([
+      polygon.name,
+      round(polygon.value, toDisplayAggregate),
+      polygon.color,
+      polygon.sampleCount ?? '',
+      polygon.quality ? Math.round(polygon.quality.coverage * 1000) / 1000 : '',
+      polygon.quality ? (polygon.quality.sufficient ? 'yes' : 'no') : '',
+      ...anomalyColumns
+    ]);
+  });
+
+  return toCsv(rows);
+};
+
+// Trigger a browser download of CSV content
+export const downloadCsv = (filename: string, content: string): void => {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
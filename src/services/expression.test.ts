@@ -0,0 +1,80 @@
+import { compileExpression, parseExpression, validateExpression } from './expression';
+
+describe('compileExpression', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['2 ^ 3 ^ 2', 512],
+    ['-2 ^ 2', -4],
+    ['10 / 4 - +1', 1.5],
+    ['max(1, 5, 3) - min(4, 2)', 3],
+    ['pow(2, 10) + abs(-1) + sqrt(9)', 1028],
+    ['1.5e2 + .5', 150.5]
+  ])('evaluates %s', (source, expected) => {
+    expect(compileExpression(source).evaluate({})).toBeCloseTo(expected, 10);
+  });
+
+  it('lists variables in order of first use', () => {
+    const compiled = compileExpression('max(0, temperature_2m - dew_point_2m) + temperature_2m / 24');
+    expect(compiled.variables).toEqual(['temperature_2m', 'dew_point_2m']);
+    expect(compiled.evaluate({ temperature_2m: 24, dew_point_2m: 20 })).toBe(5);
+  });
+
+  it('is null for missing inputs and non-finite results', () => {
+    const compiled = compileExpression('a / b');
+    expect(compiled.evaluate({ a: 1 })).toBeNull();
+    expect(compiled.evaluate({ a: 1, b: NaN })).toBeNull();
+    expect(compiled.evaluate({ a: 1, b: 0 })).toBeNull();
+    expect(compileExpression('log(a)').evaluate({ a: -1 })).toBeNull();
+  });
+
+  it('does not read inherited properties as inputs', () => {
+    expect(compileExpression('constructor + 1').evaluate({})).toBeNull();
+  });
+});
+
+describe('parseExpression', () => {
+  it('builds a tree with the usual precedence', () => {
+    expect(parseExpression('a - b * 2')).toEqual({
+      kind: 'binary',
+      operator: '-',
+      left: { kind: 'variable', name: 'a' },
+      right: {
+        kind: 'binary',
+        operator: '*',
+        left: { kind: 'variable', name: 'b' },
+        right: { kind: 'number', value: 2 }
+      }
+    });
+  });
+});
+
+describe('validateExpression', () => {
+  it('accepts valid expressions', () => {
+    expect(validateExpression('temperature_2m - dew_point_2m')).toBeNull();
+  });
+
+  it.each([
+    ['', 'Expression is empty'],
+    ['1 +', 'Unexpected end of expression'],
+    ['(1 + 2', 'Expected ")" but found end of expression'],
+    ['1 2', 'Unexpected "2" at position 3'],
+    ['a $ b', 'Unexpected character "$" at position 3'],
+    ['foo(1)', 'Unknown function "foo"'],
+    ['pow(1)', 'Function "pow" called with 1 argument(s)'],
+    ['min()', 'Function "min" called with 0 argument(s)']
+  ])('rejects %j', (source, message) => {
+    expect(validateExpression(source)).toBe(message);
+  });
+
+  it.each(['toString(1)', 'constructor(2)', 'hasOwnProperty(1, 2)', 'valueOf()', '__proto__(1)'])(
+    'does not treat the object property %s as a function',
+    source => {
+      expect(validateExpression(source)).toMatch(/^Unknown function/);
+    }
+  );
+
+  it('rejects overly long expressions', () => {
+    expect(validateExpression('1+'.repeat(300) + '1')).toBe('Expression is longer than 500 characters');
+  });
+});
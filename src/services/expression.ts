@@ -0,0 +1,271 @@
+// Small arithmetic expression language for computed data sources, e.g.
+// "temperature_2m - dew_point_2m" or "max(0, temperature_2m - 10) / 24".
+// Expressions are parsed into a tree and evaluated directly; nothing is ever passed to eval.
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; operator: '-'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+export interface CompiledExpression {
+  source: string;
+  variables: string[]; // field names referenced, in order of first use
+  evaluate: (values: Record<string, number>) => number | null;
+}
+
+// Functions callable from expressions, with their accepted argument counts
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; apply: (...args: number[]) => number }> = {
+  abs: { minArgs: 1, maxArgs: 1, apply: Math.abs },
+  sqrt: { minArgs: 1, maxArgs: 1, apply: Math.sqrt },
+  exp: { minArgs: 1, maxArgs: 1, apply: Math.exp },
+  log: { minArgs: 1, maxArgs: 1, apply: Math.log },
+  pow: { minArgs: 2, maxArgs: 2, apply: Math.pow },
+  min: { minArgs: 1, maxArgs: Infinity, apply: Math.min },
+  max: { minArgs: 1, maxArgs: Infinity, apply: Math.max },
+};
+
+// Own entries only, so names like "toString" or "__proto__" are not treated as functions
+const isFunctionName = (name: string): boolean => Object.prototype.hasOwnProperty.call(FUNCTIONS, name);
+
+// Longest accepted source, keeping parsing cheap for anything typed into the UI
+const MAX_EXPRESSION_LENGTH = 500;
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'paren' | 'comma';
+  text: string;
+  position: number;
+}
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const whitespace = rest.match(/^\s+/);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+    const identifier = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position });
+      position += number[0].length;
+    } else if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], position });
+      position += identifier[0].length;
+    } else if ('+-*/^'.includes(rest[0])) {
+      tokens.push({ type: 'operator', text: rest[0], position });
+      position++;
+    } else if (rest[0] === '(' || rest[0] === ')') {
+      tokens.push({ type: 'paren', text: rest[0], position });
+      position++;
+    } else if (rest[0] === ',') {
+      tokens.push({ type: 'comma', text: rest[0], position });
+      position++;
+    } else {
+      throw new Error(`Unexpected character "${rest[0]}" at position ${position + 1}`);
+    }
+  }
+
+  return tokens;
+};
+
+// Recursive descent over: sum := product (('+'|'-') product)*
+//                         product := unary (('*'|'/') unary)*
+//                         unary := '-' unary | power
+//                         power := primary ('^' unary)?
+export const parseExpression = (source: string): ExpressionNode => {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const describe = (token?: Token): string => token ? `"${token.text}" at position ${token.position + 1}` : 'end of expression';
+  const expect = (text: string): void => {
+    const token = tokens[index];
+    if (!token || token.text !== text) {
+      throw new Error(`Expected "${text}" but found ${describe(token)}`);
+    }
+    index++;
+  };
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    while (peek()?.text === '+' || peek()?.text === '-') {
+      const operator = tokens[index++].text as '+' | '-';
+      node = { kind: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseUnary();
+    while (peek()?.text === '*' || peek()?.text === '/') {
+      const operator = tokens[index++].text as '*' | '/';
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (peek()?.text === '-') {
+      index++;
+      return { kind: 'unary', operator: '-', operand: parseUnary() };
+    }
+    if (peek()?.text === '+') {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary();
+    if (peek()?.text === '^') {
+      index++;
+      // Right-associative: 2^3^2 is 2^(3^2)
+      return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[index];
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+
+    if (token.type === 'number') {
+      index++;
+      return { kind: 'number', value: parseFloat(token.text) };
+    }
+
+    if (token.type === 'identifier') {
+      index++;
+      if (peek()?.text !== '(') {
+        return { kind: 'variable', name: token.text };
+      }
+
+      if (!isFunctionName(token.text)) {
+        throw new Error(`Unknown function "${token.text}"`);
+      }
+      const fn = FUNCTIONS[token.text];
+      index++;
+      const args: ExpressionNode[] = [];
+      if (peek()?.text !== ')') {
+        args.push(parseSum());
+        while (peek()?.type === 'comma') {
+          index++;
+          args.push(parseSum());
+        }
+      }
+      expect(')');
+      if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        throw new Error(`Function "${token.text}" called with ${args.length} argument(s)`);
+      }
+      return { kind: 'call', name: token.text, args };
+    }
+
+    if (token.text === '(') {
+      index++;
+      const node = parseSum();
+      expect(')');
+      return node;
+    }
+
+    throw new Error(`Unexpected ${describe(token)}`);
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('Expression is empty');
+  }
+
+  const tree = parseSum();
+  if (index < tokens.length) {
+    throw new Error(`Unexpected ${describe(tokens[index])}`);
+  }
+  return tree;
+};
+
+// Variable names in order of first use
+const collectVariables = (node: ExpressionNode, names: string[]): string[] => {
+  switch (node.kind) {
+    case 'variable':
+      if (!names.includes(node.name)) {
+        names.push(node.name);
+      }
+      break;
+    case 'unary':
+      collectVariables(node.operand, names);
+      break;
+    case 'binary':
+      collectVariables(node.left, names);
+      collectVariables(node.right, names);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectVariables(arg, names));
+      break;
+  }
+  return names;
+};
+
+const evaluateNode = (node: ExpressionNode, values: Record<string, number>): number => {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return values[node.name];
+    case 'unary':
+      return -evaluateNode(node.operand, values);
+    case 'binary': {
+      const left = evaluateNode(node.left, values);
+      const right = evaluateNode(node.right, values);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        default: return Math.pow(left, right);
+      }
+    }
+    case 'call':
+      return FUNCTIONS[node.name].apply(...node.args.map(arg => evaluateNode(arg, values)));
+  }
+};
+
+// Parse once and return an evaluator; throws with a readable message on syntax errors.
+// Missing inputs, division by zero and other non-finite results evaluate to null.
+export const compileExpression = (source: string): CompiledExpression => {
+  const tree = parseExpression(source);
+  const variables = collectVariables(tree, []);
+
+  return {
+    source,
+    variables,
+    evaluate: values => {
+      if (variables.some(name => typeof values[name] !== 'number' || isNaN(values[name]))) {
+        return null;
+      }
+      const result = evaluateNode(tree, values);
+      return isFinite(result) ? result : null;
+    }
+  };
+};
+
+// Syntax check for forms: null when valid, otherwise the error message
+export const validateExpression = (source: string): string | null => {
+  try {
+    compileExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
@@ -0,0 +1,107 @@
+import { store } from '../store';
+import { setWeatherData } from '../store/slices/dataSourceSlice';
+import type { DataSource, WeatherData } from '../store/slices/dataSourceSlice';
+import type { Polygon } from '../store/slices/polygonSlice';
+import { getNow } from './clock';
+import { configureFixtures, exportFixtures, getFixtureKey, loadFixtures } from './fixtures';
+import type { FixtureFile } from './fixtures';
+import { openMeteoArchiveProvider } from './providers/openMeteoArchiveProvider';
+import { openMeteoForecastProvider } from './providers/openMeteoForecastProvider';
+import { syntheticProvider } from './providers/syntheticProvider';
+import { clearWeatherDataCache, fetchWeatherDataForPolygons } from './weatherService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECORDED_AT = Date.parse('2024-06-15T12:00:00Z');
+
+const POLYGON: Polygon = {
+  id: 'p1',
+  name: 'Small field',
+  points: [{ lat: 51.5, lng: -0.1 }, { lat: 51.5, lng: -0.099 }, { lat: 51.501, lng: -0.099 }],
+  dataSourceId: 'temperature',
+  color: '#3388ff'
+};
+
+// Archive and forecast segments of the default Open-Meteo provider
+const temperature = (): DataSource => store.getState().dataSources.availableDataSources.find(ds => ds.id === 'temperature')!;
+
+const fetchRange = async (): Promise<WeatherData> => {
+  const dispatch = jest.fn();
+  const [result] = await fetchWeatherDataForPolygons(
+    [POLYGON], dispatch, new Date('2024-06-09T00:00:00Z'), new Date('2024-06-12T00:00:00Z'), temperature(), undefined, 'hourly'
+  );
+  expect(result.error).toBeNull();
+  return dispatch.mock.calls.map(([action]) => action).find(action => action.type === setWeatherData.type).payload.data;
+};
+
+describe('fixtures', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    clearWeatherDataCache();
+  });
+
+  afterEach(() => {
+    configureFixtures({ mode: 'off' });
+    jest.restoreAllMocks();
+  });
+
+  it('keys requests by provider, resolution, dates, fields and rounded locations', () => {
+    expect(getFixtureKey('synthetic', {
+      locations: [{ latitude: 51.50001, longitude: -0.1 }, { latitude: 1, longitude: 2 }],
+      variables: ['temperature_2m', 'dew_point_2m'],
+      startDate: '2024-06-08',
+      endDate: '2024-06-13'
+    })).toBe('synthetic|hourly|2024-06-08|2024-06-13|temperature_2m+dew_point_2m|51.5000,-0.1000;1.0000,2.0000');
+  });
+
+  it('replays a recording on a later day with the same requests', async () => {
+    const archive = jest.spyOn(openMeteoArchiveProvider, 'fetchSeriesBatch').mockImplementation(request => syntheticProvider.fetchSeriesBatch(request));
+    const forecast = jest.spyOn(openMeteoForecastProvider, 'fetchSeriesBatch').mockImplementation(request => syntheticProvider.fetchSeriesBatch(request));
+
+    configureFixtures({ mode: 'record', now: RECORDED_AT });
+    const recorded = await fetchRange();
+    const file = exportFixtures();
+
+    // Padded by a day, split where the archive ends five days before the recording
+    expect(file.recordedAt).toBe('2024-06-15T12:00:00.000Z');
+    expect(Object.keys(file.entries).map(key => key.split('|').slice(0, 4).join('|'))).toEqual([
+      'open-meteo-archive|hourly|2024-06-08|2024-06-10',
+      'open-meteo-forecast|hourly|2024-06-11|2024-06-13'
+    ]);
+
+    // By now the archive covers the whole range; the restored clock keeps the recorded split
+    configureFixtures({ mode: 'off' });
+    expect(getNow()).toBeGreaterThan(RECORDED_AT + 7 * DAY_MS);
+    clearWeatherDataCache();
+    configureFixtures({ mode: 'replay', fixtures: JSON.parse(JSON.stringify(file)) });
+    expect(getNow()).toBe(RECORDED_AT);
+    const replayed = await fetchRange();
+
+    expect(archive).toHaveBeenCalledTimes(1);
+    expect(forecast).toHaveBeenCalledTimes(1);
+    expect(replayed.time).toEqual(recorded.time);
+    expect(replayed.series).toEqual(recorded.series);
+  });
+
+  it('fails requests the recording does not contain', async () => {
+    const file: FixtureFile = { version: 1, recordedAt: new Date(RECORDED_AT).toISOString(), entries: {} };
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    configureFixtures({ mode: 'replay', fixtures: file });
+
+    const [result] = await fetchWeatherDataForPolygons(
+      [POLYGON], jest.fn(), new Date('2024-06-09T00:00:00Z'), new Date('2024-06-12T00:00:00Z'), temperature(), undefined, 'hourly'
+    );
+
+    expect(result.error).toMatch(/^No recorded fixture for request open-meteo-archive\|hourly\|2024-06-08\|2024-06-10\|/);
+  });
+
+  it('follows real time again when fixtures are turned off', () => {
+    configureFixtures({ mode: 'record', now: RECORDED_AT });
+    expect(getNow()).toBe(RECORDED_AT);
+    configureFixtures({ mode: 'off' });
+    expect(getNow()).not.toBe(RECORDED_AT);
+  });
+
+  it('rejects files without a recording time', () => {
+    expect(() => loadFixtures({ version: 1, recordedAt: 'yesterday', entries: {} })).toThrow('Fixture file has no valid recordedAt time');
+  });
+});
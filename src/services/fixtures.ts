@@ -0,0 +1,160 @@
+import axios from 'axios';
+import { getNow, setClock } from './clock';
+import type { DataProviderId, ProviderBatchRequest, ProviderSeries } from './providers';
+
+// Record-and-replay of provider responses. Recording keeps every response keyed by its request
+// parameters so it can be saved as a fixture file; replay serves only from such a file and
+// fails loudly on any request it does not contain, so a session can be reproduced exactly.
+// Request dates depend on the current time (range padding, the archive/forecast boundary), so
+// recording pins the clock and replay restores it from the file before any request is built.
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export interface FixtureFile {
+  version: 1;
+  recordedAt: string; // ISO time the recorded requests were built at; replay pins the clock to it
+  entries: Record<string, ProviderSeries[]>; // request key -> one series per location
+}
+
+// Error thrown in replay mode for a request the fixture file does not contain
+export const createFixtureNotFoundError = (key: string): Error => {
+  const error = new Error(`No recorded fixture for request ${key}`);
+  error.name = 'FixtureNotFoundError';
+  return error;
+};
+
+const parseMode = (value: string | undefined): FixtureMode => {
+  return value === 'record' || value === 'replay' ? value : 'off';
+};
+
+let mode: FixtureMode = parseMode(process.env.REACT_APP_WEATHER_FIXTURE_MODE);
+let entries = new Map<string, ProviderSeries[]>();
+
+if (mode === 'record') {
+  setClock(Date.now());
+}
+
+// Fixture file fetched on the first replayed request unless fixtures were loaded directly
+let fixturesUrl: string | null = process.env.REACT_APP_WEATHER_FIXTURES_URL || null;
+let loading: Promise<void> | null = null;
+
+// Everything that determines a provider response; coordinates rounded like cache keys
+export const getFixtureKey = (providerId: DataProviderId, request: ProviderBatchRequest): string => {
+  const locations = request.locations
+    .map(location => `${location.latitude.toFixed(4)},${location.longitude.toFixed(4)}`)
+    .join(';');
+  return [
+    providerId,
+    request.resolution ?? 'hourly',
+    request.startDate,
+    request.endDate,
+    request.variables.join('+'),
+    locations
+  ].join('|');
+};
+
+// Switch modes, e.g. from tests; fixtures given here replace any loaded or recorded ones.
+// Recording pins the clock to `now` (default: the current time); turning fixtures off releases it.
+export const configureFixtures = (options: { mode: FixtureMode; fixtures?: FixtureFile; url?: string | null; now?: number }): void => {
+  mode = options.mode;
+  if (options.url !== undefined) {
+    fixturesUrl = options.url;
+    loading = null;
+  }
+  if (options.fixtures) {
+    loadFixtures(options.fixtures);
+  } else if (options.mode === 'record') {
+    entries = new Map();
+  }
+  if (options.mode === 'record') {
+    setClock(options.now ?? Date.now());
+  } else if (options.mode === 'off') {
+    setClock(null);
+  }
+};
+
+export const getFixtureMode = (): FixtureMode => mode;
+
+export const loadFixtures = (file: FixtureFile): void => {
+  if (file?.version !== 1 || typeof file.entries !== 'object') {
+    throw new Error('Unsupported fixture file');
+  }
+  const recordedAt = Date.parse(file.recordedAt);
+  if (isNaN(recordedAt)) {
+    throw new Error('Fixture file has no valid recordedAt time');
+  }
+  entries = new Map(Object.keys(file.entries).map(key => [key, file.entries[key]] as [string, ProviderSeries[]]));
+  loading = Promise.resolve();
+  setClock(recordedAt);
+  console.log(`🎞️ Loaded ${entries.size} weather fixture(s)`);
+};
+
+// Everything recorded so far, as a fixture file
+export const exportFixtures = (): FixtureFile => {
+  const file: FixtureFile = { version: 1, recordedAt: new Date(getNow()).toISOString(), entries: {} };
+  entries.forEach((series, key) => {
+    file.entries[key] = series;
+  });
+  return file;
+};
+
+export const getFixtureCount = (): number => entries.size;
+
+// Trigger a browser download of the recorded fixtures
+export const downloadFixtures = (filename = 'weather-fixtures.json'): void => {
+  const blob = new Blob([JSON.stringify(exportFixtures())], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const ensureFixturesLoaded = (): Promise<void> => {
+  if (!loading) {
+    loading = fixturesUrl
+      ? axios.get<FixtureFile>(fixturesUrl).then(response => loadFixtures(response.data))
+      : Promise.reject(new Error('Replay mode needs fixtures: set REACT_APP_WEATHER_FIXTURES_URL or load a fixture file'));
+    // Let a later request try again after a failed download
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+};
+
+// In replay mode, wait for the fixture file so the clock is set before request dates are derived
+export const prepareFixtures = (): Promise<void> => {
+  return mode === 'replay' ? ensureFixturesLoaded() : Promise.resolve();
+};
+
+// Run a provider request through the current mode: pass through, record its response,
+// or answer it from the fixtures without touching the network
+export const withFixtures = async (
+  providerId: DataProviderId,
+  request: ProviderBatchRequest,
+  fetch: () => Promise<ProviderSeries[]>
+): Promise<ProviderSeries[]> => {
+  if (mode === 'off') {
+    return fetch();
+  }
+
+  const key = getFixtureKey(providerId, request);
+
+  if (mode === 'replay') {
+    await ensureFixturesLoaded();
+    const recorded = entries.get(key);
+    if (!recorded) {
+      console.error('🎞️ Unmatched request in replay mode:', key);
+      throw createFixtureNotFoundError(key);
+    }
+    return recorded;
+  }
+
+  const series = await fetch();
+  entries.set(key, series);
+  return series;
+};
@@ -0,0 +1,110 @@
+import {
+  combineWeightedSeries,
+  generateSamplePoints,
+  getDistanceKm,
+  getPolygonAreaKm2,
+  getSamplesCenter,
+  isPointInPolygon
+} from './polygonSampling';
+
+// About 22 km × 22 km at the equator
+const SQUARE = [
+  { lat: 0, lng: 0 },
+  { lat: 0, lng: 0.2 },
+  { lat: 0.2, lng: 0.2 },
+  { lat: 0.2, lng: 0 }
+];
+
+// A "C" whose vertex average lies in the notch, outside the shape
+const C_SHAPE = [
+  { lat: 0, lng: 0 },
+  { lat: 0, lng: 0.3 },
+  { lat: 0.1, lng: 0.3 },
+  { lat: 0.1, lng: 0.1 },
+  { lat: 0.2, lng: 0.1 },
+  { lat: 0.2, lng: 0.3 },
+  { lat: 0.3, lng: 0.3 },
+  { lat: 0.3, lng: 0 }
+];
+
+describe('isPointInPolygon', () => {
+  it('handles concave polygons', () => {
+    expect(isPointInPolygon({ lat: 0.05, lng: 0.2 }, C_SHAPE)).toBe(true);
+    expect(isPointInPolygon({ lat: 0.15, lng: 0.2 }, C_SHAPE)).toBe(false);
+    expect(isPointInPolygon({ lat: 0.5, lng: 0.5 }, C_SHAPE)).toBe(false);
+  });
+});
+
+describe('getPolygonAreaKm2', () => {
+  it('measures a square of 0.2° at the equator', () => {
+    expect(getPolygonAreaKm2(SQUARE)).toBeCloseTo(22.264 * 22.264, 0);
+  });
+
+  it('is zero for fewer than three points', () => {
+    expect(getPolygonAreaKm2(SQUARE.slice(0, 2))).toBe(0);
+  });
+});
+
+describe('getDistanceKm', () => {
+  it('measures one degree of latitude', () => {
+    expect(getDistanceKm({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(111.2, 0);
+  });
+});
+
+describe('generateSamplePoints', () => {
+  it('keeps every sample inside the polygon and within the budget', () => {
+    const samples = generateSamplePoints(C_SHAPE, { maxSamples: 12 });
+    expect(samples.length).toBeGreaterThan(1);
+    expect(samples.length).toBeLessThanOrEqual(12);
+    samples.forEach(sample => expect(isPointInPolygon(sample, C_SHAPE)).toBe(true));
+  });
+
+  it('weights samples by the area they cover', () => {
+    const samples = generateSamplePoints(SQUARE);
+    const totalWeight = samples.reduce((sum, sample) => sum + sample.weight, 0);
+    expect(totalWeight).toBeCloseTo(getPolygonAreaKm2(SQUARE), -1);
+  });
+
+  it('uses one interior point for tiny polygons', () => {
+    const tiny = SQUARE.map(point => ({ lat: point.lat / 100, lng: point.lng / 100 }));
+    const samples = generateSamplePoints(tiny);
+    expect(samples).toHaveLength(1);
+    expect(isPointInPolygon(samples[0], tiny)).toBe(true);
+  });
+});
+
+describe('combineWeightedSeries', () => {
+  it('weights each step by sample area and skips missing values', () => {
+    const combined = combineWeightedSeries([
+      { values: [10, null, 4], weight: 3 },
+      { values: [20, 8, null], weight: 1 }
+    ]);
+    expect(combined).toEqual([12.5, 8, 4]);
+  });
+
+  it('keeps steps without any value as null', () => {
+    expect(combineWeightedSeries([{ values: [null, 1], weight: 1 }, { values: [null], weight: 2 }])).toEqual([null, 1]);
+  });
+
+  it('averages directions as vectors', () => {
+    const [northish, east] = combineWeightedSeries([
+      { values: [350, 80], weight: 1 },
+      { values: [10, 100], weight: 1 }
+    ], true);
+    expect(northish).toBeCloseTo(0, 6);
+    expect(east).toBeCloseTo(90, 6);
+  });
+
+  it('leaves opposite directions undefined', () => {
+    expect(combineWeightedSeries([{ values: [0], weight: 1 }, { values: [180], weight: 1 }], true)).toEqual([null]);
+  });
+});
+
+describe('getSamplesCenter', () => {
+  it('is the weighted centre', () => {
+    expect(getSamplesCenter([
+      { lat: 0, lng: 0, weight: 3 },
+      { lat: 4, lng: 8, weight: 1 }
+    ])).toEqual({ lat: 1, lng: 2 });
+  });
+});
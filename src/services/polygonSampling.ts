@@ -0,0 +1,247 @@
+import { circularMean } from './aggregation';
+import type { PolygonPoint } from '../store/slices/polygonSlice';
+
+export interface SamplePoint {
+  lat: number;
+  lng: number;
+  weight: number; // area represented by this sample in km²
+}
+
+export interface SamplingOptions {
+  maxSamples: number;
+  minCellAreaKm2: number;
+  subdivisions: number; // sub-points per cell side used to estimate coverage
+}
+
+const DEFAULT_SAMPLING_OPTIONS: SamplingOptions = {
+  maxSamples: 16,
+  minCellAreaKm2: 1,
+  subdivisions: 3,
+};
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+// Kilometres per degree of longitude at a given latitude
+const kmPerDegreeLng = (lat: number): number => {
+  return Math.max(KM_PER_DEGREE_LAT * Math.cos(lat * Math.PI / 180), 1e-6);
+};
+
+// Ray-casting point-in-polygon test (works for concave polygons)
+export const isPointInPolygon = (point: PolygonPoint, polygon: PolygonPoint[]): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat);
+
+    if (crosses) {
+      const lngAtLat = a.lng + (point.lat - a.lat) * (b.lng - a.lng) / (b.lat - a.lat);
+      if (point.lng < lngAtLat) {
+        inside = !inside;
+      }
+    }
+  }
+
+  return inside;
+};
+
+// Polygon area in km² using a local equirectangular projection and the shoelace formula
+export const getPolygonAreaKm2 = (points: PolygonPoint[]): number => {
+  if (points.length < 3) {
+    return 0;
+  }
+
+  const meanLat = points.reduce((sum, p) => sum + p.lat, 0) / points.length;
+  const lngScale = kmPerDegreeLng(meanLat);
+  let area = 0;
+
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const xi = points[i].lng * lngScale;
+    const yi = points[i].lat * KM_PER_DEGREE_LAT;
+    const xj = points[j].lng * lngScale;
+    const yj = points[j].lat * KM_PER_DEGREE_LAT;
+    area += xj * yi - xi * yj;
+  }
+
+  return Math.abs(area) / 2;
+};
+
+// Distance in km between two nearby points (equirectangular approximation)
+export const getDistanceKm = (a: PolygonPoint, b: PolygonPoint): number => {
+  const x = (b.lng - a.lng) * kmPerDegreeLng((a.lat + b.lat) / 2);
+  const y = (b.lat - a.lat) * KM_PER_DEGREE_LAT;
+  return Math.sqrt(x * x + y * y);
+};
+
+// Find a point guaranteed to lie inside the polygon (area centroid when possible)
+const getInteriorPoint = (points: PolygonPoint[]): PolygonPoint => {
+  let twiceArea = 0;
+  let lat = 0;
+  let lng = 0;
+
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const cross = points[j].lng * points[i].lat - points[i].lng * points[j].lat;
+    twiceArea += cross;
+    lng += (points[j].lng + points[i].lng) * cross;
+    lat += (points[j].lat + points[i].lat) * cross;
+  }
+
+  if (twiceArea !== 0) {
+    const centroid = { lat: lat / (3 * twiceArea), lng: lng / (3 * twiceArea) };
+    if (isPointInPolygon(centroid, points)) {
+      return centroid;
+    }
+  }
+
+  // Fall back to a point pulled from each vertex towards its neighbours
+  for (let i = 0; i < points.length; i++) {
+    const prev = points[(i + points.length - 1) % points.length];
+    const next = points[(i + 1) % points.length];
+    const candidate = {
+      lat: (points[i].lat + (prev.lat + next.lat) / 2) / 2,
+      lng: (points[i].lng + (prev.lng + next.lng) / 2) / 2,
+    };
+    if (isPointInPolygon(candidate, points)) {
+      return candidate;
+    }
+  }
+
+  return points[0];
+};
+
+// Lay a grid of square cells over the polygon bounds and keep one weighted sample per covered cell
+const sampleGrid = (points: PolygonPoint[], cellSizeKm: number, subdivisions: number): SamplePoint[] => {
+  const minLat = Math.min(...points.map(p => p.lat));
+  const maxLat = Math.max(...points.map(p => p.lat));
+  const minLng = Math.min(...points.map(p => p.lng));
+  const maxLng = Math.max(...points.map(p => p.lng));
+  const meanLat = (minLat + maxLat) / 2;
+
+  const cellLat = cellSizeKm / KM_PER_DEGREE_LAT;
+  const cellLng = cellSizeKm / kmPerDegreeLng(meanLat);
+  const rows = Math.max(1, Math.ceil((maxLat - minLat) / cellLat));
+  const cols = Math.max(1, Math.ceil((maxLng - minLng) / cellLng));
+  const subCount = subdivisions * subdivisions;
+
+  const samples: SamplePoint[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cellSouth = minLat + row * cellLat;
+      const cellWest = minLng + col * cellLng;
+      let insideCount = 0;
+      let sumLat = 0;
+      let sumLng = 0;
+
+      // Estimate the fraction of the cell covered by the polygon
+      for (let i = 0; i < subdivisions; i++) {
+        for (let j = 0; j < subdivisions; j++) {
+          const sub = {
+            lat: cellSouth + (i + 0.5) * cellLat / subdivisions,
+            lng: cellWest + (j + 0.5) * cellLng / subdivisions,
+          };
+          if (isPointInPolygon(sub, points)) {
+            insideCount++;
+            sumLat += sub.lat;
+            sumLng += sub.lng;
+          }
+        }
+      }
+
+      if (insideCount === 0) {
+        continue;
+      }
+
+      // Use the cell centre when inside, otherwise the centre of the covered part
+      const center = { lat: cellSouth + cellLat / 2, lng: cellWest + cellLng / 2 };
+      const location = isPointInPolygon(center, points)
+        ? center
+        : { lat: sumLat / insideCount, lng: sumLng / insideCount };
+
+      samples.push({
+        lat: location.lat,
+        lng: location.lng,
+        weight: (insideCount / subCount) * cellSizeKm * cellSizeKm,
+      });
+    }
+  }
+
+  return samples;
+};
+
+// Generate an area-weighted grid of sample points inside a polygon.
+// Cell size adapts to polygon area so large polygons are covered without exceeding maxSamples.
+export const generateSamplePoints = (
+  points: PolygonPoint[],
+  options: Partial<SamplingOptions> = {}
+): SamplePoint[] => {
+  const { maxSamples, minCellAreaKm2, subdivisions } = { ...DEFAULT_SAMPLING_OPTIONS, ...options };
+  const area = getPolygonAreaKm2(points);
+
+  // Polygons smaller than one cell are represented by a single interior point
+  if (points.length < 3 || area < minCellAreaKm2) {
+    const interior = points.length > 0 ? getInteriorPoint(points) : { lat: 0, lng: 0 };
+    return [{ ...interior, weight: area || 1 }];
+  }
+
+  const targetSamples = Math.max(1, Math.min(maxSamples, Math.ceil(area / minCellAreaKm2)));
+  let cellSizeKm = Math.sqrt(area / targetSamples);
+  let samples = sampleGrid(points, cellSizeKm, subdivisions);
+
+  // Cells that only partially overlap the polygon add samples; coarsen until within budget
+  while (samples.length > maxSamples) {
+    cellSizeKm *= 1.15;
+    samples = sampleGrid(points, cellSizeKm, subdivisions);
+  }
+
+  if (samples.length === 0) {
+    const interior = getInteriorPoint(points);
+    return [{ lat: interior.lat, lng: interior.lng, weight: area }];
+  }
+
+  return samples;
+};
+
+// Combine per-sample series into one area-weighted series, skipping missing values per timestep.
+// Directions (circular) are averaged as vectors. Steps without any value stay null.
+export const combineWeightedSeries = (
+  sampleSeries: Array<{ values: Array<number | null>; weight: number }>,
+  circular = false
+): Array<number | null> => {
+  const length = sampleSeries.reduce((max, s) => Math.max(max, s.values.length), 0);
+  const combined: Array<number | null> = [];
+
+  for (let t = 0; t < length; t++) {
+    const values: number[] = [];
+    const weights: number[] = [];
+
+    sampleSeries.forEach(({ values: sample, weight }) => {
+      const value = sample[t];
+      if (value !== null && value !== undefined && !isNaN(value)) {
+        values.push(value);
+        weights.push(weight);
+      }
+    });
+
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight === 0) {
+      combined.push(null);
+    } else if (circular) {
+      combined.push(circularMean(values, weights));
+    } else {
+      combined.push(values.reduce((sum, value, index) => sum + value * weights[index], 0) / totalWeight);
+    }
+  }
+
+  return combined;
+};
+
+// Area-weighted centre of a set of samples
+export const getSamplesCenter = (samples: SamplePoint[]): { lat: number; lng: number } => {
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0) || 1;
+  return {
+    lat: samples.reduce((sum, s) => sum + s.lat * s.weight, 0) / totalWeight,
+    lng: samples.reduce((sum, s) => sum + s.lng * s.weight, 0) / totalWeight,
+  };
+};
@@ -0,0 +1,40 @@
+import { getColoringSource, getPolygonDataSource, groupPolygonsBySource } from './polygonSources';
+import dataSourceReducer from '../store/slices/dataSourceSlice';
+import type { ColorRule } from '../store/slices/dataSourceSlice';
+import { DEFAULT_COLOR_STYLING } from './colorScales';
+
+const { availableDataSources } = dataSourceReducer(undefined, { type: 'init' });
+const source = (id: string) => availableDataSources.find(ds => ds.id === id)!;
+
+const polygon = (id: string, dataSourceId: string) => ({ id, dataSourceId });
+
+describe('getPolygonDataSource', () => {
+  it('uses the polygon\'s own source, or the selected one when that was removed', () => {
+    expect(getPolygonDataSource(polygon('a', 'precipitation'), availableDataSources, 'temperature')).toBe(source('precipitation'));
+    expect(getPolygonDataSource(polygon('a', 'removed'), availableDataSources, 'temperature')).toBe(source('temperature'));
+    expect(getPolygonDataSource(polygon('a', 'removed'), availableDataSources, 'also_removed')).toBeUndefined();
+  });
+});
+
+describe('getColoringSource', () => {
+  it('lets a polygon\'s own rules take precedence over its source\'s rules and styling', () => {
+    const styled = { ...source('temperature'), styling: { ...DEFAULT_COLOR_STYLING, mode: 'ramp' as const } };
+    const ownRules: ColorRule[] = [{ id: 'own', operator: '>', value: 0, color: '#123456' }];
+
+    expect(getColoringSource({}, styled)).toBe(styled);
+    expect(getColoringSource({ colorRules: ownRules }, styled)).toEqual({ ...styled, colorRules: ownRules, styling: undefined });
+  });
+});
+
+describe('groupPolygonsBySource', () => {
+  it('groups polygons by their source in the order of the available sources', () => {
+    const polygons = [polygon('a', 'precipitation'), polygon('b', 'temperature'), polygon('c', 'precipitation'), polygon('d', 'removed')];
+
+    const groups = groupPolygonsBySource(polygons, availableDataSources, 'temperature');
+
+    expect(groups.map(group => [group.dataSource.id, group.polygons.map(p => p.id)])).toEqual([
+      ['temperature', ['b', 'd']],
+      ['precipitation', ['a', 'c']]
+    ]);
+  });
+});
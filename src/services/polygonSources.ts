@@ -0,0 +1,40 @@
+import type { DataSource } from '../store/slices/dataSourceSlice';
+import type { Polygon } from '../store/slices/polygonSlice';
+
+// Each polygon is fetched with its own data source and colored by that source's rules,
+// or by its own rules when it has them.
+
+// A polygon's source; polygons whose source was removed use the selected one
+export const getPolygonDataSource = (
+  polygon: Pick<Polygon, 'dataSourceId'>,
+  dataSources: DataSource[],
+  selectedDataSourceId: string
+): DataSource | undefined => {
+  return dataSources.find(ds => ds.id === polygon.dataSourceId)
+    ?? dataSources.find(ds => ds.id === selectedDataSourceId);
+};
+
+// The source as a polygon is colored by it: own rules replace the source's rules, ramp or classes
+export const getColoringSource = (polygon: Pick<Polygon, 'colorRules'>, dataSource: DataSource): DataSource => {
+  return polygon.colorRules
+    ? { ...dataSource, colorRules: polygon.colorRules, styling: undefined }
+    : dataSource;
+};
+
+// Polygons by the source they are drawn with, in the order of the available sources
+export const groupPolygonsBySource = <T extends Pick<Polygon, 'dataSourceId'>>(
+  polygons: T[],
+  dataSources: DataSource[],
+  selectedDataSourceId: string
+): Array<{ dataSource: DataSource; polygons: T[] }> => {
+  const groups = new Map<string, T[]>();
+  polygons.forEach(polygon => {
+    const dataSource = getPolygonDataSource(polygon, dataSources, selectedDataSourceId);
+    if (dataSource) {
+      groups.set(dataSource.id, (groups.get(dataSource.id) || []).concat(polygon));
+    }
+  });
+  return dataSources
+    .filter(ds => groups.has(ds.id))
+    .map(ds => ({ dataSource: ds, polygons: groups.get(ds.id)! }));
+};
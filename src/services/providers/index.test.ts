@@ -0,0 +1,16 @@
+import { DEFAULT_PROVIDER_ID, getDataProvider, listDataProviders } from './index';
+import type { DataProviderId } from './types';
+
+describe('getDataProvider', () => {
+  it('looks providers up by id and falls back to the default', () => {
+    expect(getDataProvider('synthetic').id).toBe('synthetic');
+    expect(getDataProvider().id).toBe(DEFAULT_PROVIDER_ID);
+    expect(getDataProvider('retired' as DataProviderId).id).toBe(DEFAULT_PROVIDER_ID);
+  });
+
+  it('splits ranges only for composite providers', () => {
+    const composite = listDataProviders().filter(provider => provider.getSegments).map(provider => provider.id);
+    expect(composite).toEqual(['open-meteo']);
+    expect(getDataProvider('open-meteo-archive').supportsForecast).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { openMeteoProvider } from './openMeteoProvider';
+import { openMeteoArchiveProvider } from './openMeteoArchiveProvider';
+import { openMeteoForecastProvider } from './openMeteoForecastProvider';
+import { syntheticProvider } from './syntheticProvider';
+import type { DataProvider, DataProviderId } from './types';
+
+export { ARCHIVE_DELAY_DAYS } from './openMeteoProvider';
+export { MAX_FORECAST_DAYS } from './openMeteoForecastProvider';
+export { stitchSeries } from './stitchSeries';
+export type {
+  DataProvider,
+  DataProviderId,
+  ProviderBatchRequest,
+  ProviderSegment,
+  ProviderSeries,
+  SeriesResolution
+} from './types';
+
+const providers: Record<DataProviderId, DataProvider> = {
+  'open-meteo': openMeteoProvider,
+  'open-meteo-archive': openMeteoArchiveProvider,
+  'open-meteo-forecast': openMeteoForecastProvider,
+  synthetic: syntheticProvider,
+};
+
+export const DEFAULT_PROVIDER_ID: DataProviderId = 'open-meteo';
+
+// Look up a provider, falling back to the default for unknown ids
+export const getDataProvider = (id?: DataProviderId): DataProvider => {
+  return (id && providers[id]) || providers[DEFAULT_PROVIDER_ID];
+};
+
+// All registered providers, for selectors in the UI
+export const listDataProviders = (): DataProvider[] => Object.values(providers);
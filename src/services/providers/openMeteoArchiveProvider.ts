@@ -0,0 +1,20 @@
+import { fetchOpenMeteoBatch, OPEN_METEO_HOURLY_FIELDS } from './openMeteoCommon';
+import type { DataProvider, ProviderBatchRequest, ProviderSeries } from './types';
+
+// Overridable so the dashboard can be pointed at a local stub server
+const OPEN_METEO_BASE_URL = process.env.REACT_APP_OPEN_METEO_ARCHIVE_URL || 'https://archive-api.open-meteo.com/v1/archive';
+
+const fetchSeriesBatch = (request: ProviderBatchRequest): Promise<ProviderSeries[]> => {
+  return fetchOpenMeteoBatch(OPEN_METEO_BASE_URL, request);
+};
+
+// Historical hourly data from the Open-Meteo archive API
+export const openMeteoArchiveProvider: DataProvider = {
+  id: 'open-meteo-archive',
+  name: 'Open-Meteo Archive',
+  maxLocationsPerRequest: 50,
+  supportsForecast: false,
+  hourlyFields: OPEN_METEO_HOURLY_FIELDS,
+
+  fetchSeriesBatch
+};
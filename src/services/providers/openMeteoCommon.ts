@@ -0,0 +1,107 @@
+import axios from 'axios';
+import type { ProviderBatchRequest, ProviderSeries, SeriesResolution } from './types';
+
+export interface OpenMeteoResponse {
+  latitude: number;
+  longitude: number;
+  utc_offset_seconds?: number;
+  timezone?: string;
+  hourly?: OpenMeteoBlock;
+  daily?: OpenMeteoBlock;
+}
+
+interface OpenMeteoBlock {
+  time: number[]; // unix seconds (timeformat=unixtime)
+  [field: string]: Array<number | null>;
+}
+
+// Hourly fields served by both the archive and the forecast API (through aliases where named differently)
+export const OPEN_METEO_HOURLY_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'dew_point_2m',
+  'apparent_temperature',
+  'precipitation',
+  'rain',
+  'snowfall',
+  'pressure_msl',
+  'surface_pressure',
+  'cloud_cover',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'wind_gusts_10m',
+  'shortwave_radiation',
+  'et0_fao_evapotranspiration',
+  'vapour_pressure_deficit',
+  'soil_temperature_0_to_7cm',
+];
+
+// Convert one location's response into a provider series.
+// Aliases map a requested variable to the name this endpoint serves it under.
+const toProviderSeries = (
+  data: OpenMeteoResponse,
+  variables: string[],
+  aliases: Record<string, string>,
+  resolution: SeriesResolution
+): ProviderSeries => {
+  const block = data[resolution];
+
+  if (!block || !Array.isArray(block.time)) {
+    throw new Error('Invalid response format from Open-Meteo API');
+  }
+
+  const series: Record<string, Array<number | null>> = {};
+  variables.forEach(variable => {
+    const values = block[aliases[variable] || variable];
+    if (!Array.isArray(values)) {
+      throw new Error(`Invalid response format from Open-Meteo API (missing ${variable})`);
+    }
+    series[variable] = values;
+  });
+
+  return {
+    latitude: data.latitude,
+    longitude: data.longitude,
+    utcOffsetSeconds: data.utc_offset_seconds ?? 0,
+    timezone: data.timezone || 'GMT',
+    time: block.time.map(seconds => seconds * 1000),
+    series,
+    resolution,
+    forecastStartIndex: null
+  };
+};
+
+// Fetch several locations in one call using comma-separated coordinate lists
+export const fetchOpenMeteoBatch = async (
+  baseUrl: string,
+  request: ProviderBatchRequest,
+  aliases: Record<string, string> = {}
+): Promise<ProviderSeries[]> => {
+  const resolution = request.resolution || 'hourly';
+  const params = {
+    latitude: request.locations.map(l => l.latitude.toFixed(4)).join(','),
+    longitude: request.locations.map(l => l.longitude.toFixed(4)).join(','),
+    start_date: request.startDate,
+    end_date: request.endDate,
+    [resolution]: request.variables.map(variable => aliases[variable] || variable).join(','),
+    // Local days for daily aggregates, but unambiguous unix timestamps for every step
+    timezone: 'auto',
+    timeformat: 'unixtime'
+  };
+
+  console.log(`Fetching weather data from ${baseUrl} for ${request.locations.length} location(s):`, params);
+
+  const response = await axios.get<OpenMeteoResponse | OpenMeteoResponse[]>(baseUrl, {
+    params,
+    signal: request.signal,
+    timeout: 10000 // 10 second timeout
+  });
+
+  // A single location returns an object, several return an array in request order
+  const results = Array.isArray(response.data) ? response.data : [response.data];
+  if (results.length !== request.locations.length) {
+    throw new Error(`Open-Meteo returned ${results.length} locations, expected ${request.locations.length}`);
+  }
+
+  return results.map(result => toProviderSeries(result, request.variables, aliases, resolution));
+};
@@ -0,0 +1,36 @@
+import { fetchOpenMeteoBatch, OPEN_METEO_HOURLY_FIELDS } from './openMeteoCommon';
+import { getNow } from '../clock';
+import type { DataProvider, ProviderBatchRequest, ProviderSeries } from './types';
+
+// Overridable so the dashboard can be pointed at a local stub server
+const OPEN_METEO_FORECAST_URL = process.env.REACT_APP_OPEN_METEO_FORECAST_URL || 'https://api.open-meteo.com/v1/forecast';
+
+export const MAX_FORECAST_DAYS = 16;
+
+// Forecast endpoint names for variables it serves under a different layer
+const FORECAST_ALIASES: Record<string, string> = {
+  soil_temperature_0_to_7cm: 'soil_temperature_6cm',
+};
+
+// Index of the first step after now
+const findForecastStartIndex = (series: ProviderSeries, now: number): number | null => {
+  const index = series.time.findIndex(time => time > now);
+  return index === -1 ? null : index;
+};
+
+const fetchSeriesBatch = async (request: ProviderBatchRequest): Promise<ProviderSeries[]> => {
+  const results = await fetchOpenMeteoBatch(OPEN_METEO_FORECAST_URL, request, FORECAST_ALIASES);
+  const now = getNow();
+  return results.map(result => ({ ...result, forecastStartIndex: findForecastStartIndex(result, now) }));
+};
+
+// Recent and upcoming hourly data from the Open-Meteo forecast API
+export const openMeteoForecastProvider: DataProvider = {
+  id: 'open-meteo-forecast',
+  name: 'Open-Meteo Forecast',
+  maxLocationsPerRequest: 50,
+  supportsForecast: true,
+  hourlyFields: OPEN_METEO_HOURLY_FIELDS,
+
+  fetchSeriesBatch
+};
@@ -0,0 +1,77 @@
+import { openMeteoProvider } from './openMeteoProvider';
+import { openMeteoArchiveProvider } from './openMeteoArchiveProvider';
+import { openMeteoForecastProvider } from './openMeteoForecastProvider';
+import { setClock } from '../clock';
+import type { ProviderBatchRequest, ProviderSeries } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Archive up to 2024-06-15, forecast API from 2024-06-16
+const NOW = Date.parse('2024-06-20T12:00:00Z');
+
+// Hourly series over the request's dates, marking the hours after NOW as forecast
+const series = (request: ProviderBatchRequest, value: number, withForecast: boolean): ProviderSeries[] => {
+  const start = Date.parse(`${request.startDate}T00:00:00Z`);
+  const hours = (Date.parse(`${request.endDate}T00:00:00Z`) - start) / HOUR_MS + 24;
+  const time = Array.from({ length: hours }, (_, index) => start + index * HOUR_MS);
+  const forecastStart = time.findIndex(step => step > NOW);
+  return request.locations.map(location => ({
+    latitude: location.latitude,
+    longitude: location.longitude,
+    utcOffsetSeconds: 0,
+    timezone: 'GMT',
+    time,
+    series: { temperature_2m: time.map(() => value + location.latitude) },
+    resolution: 'hourly',
+    forecastStartIndex: withForecast && forecastStart !== -1 ? forecastStart : null
+  }));
+};
+
+const segmentsOf = (startDate: string, endDate: string) => openMeteoProvider.getSegments!(startDate, endDate)
+  .map(segment => [segment.provider.id, segment.startDate, segment.endDate]);
+
+describe('openMeteoProvider', () => {
+  beforeEach(() => {
+    setClock(NOW);
+  });
+
+  afterEach(() => {
+    setClock(null);
+    jest.restoreAllMocks();
+  });
+
+  it('splits a range where the archive stops and the forecast API starts', () => {
+    expect(segmentsOf('2024-06-01', '2024-06-25')).toEqual([
+      ['open-meteo-archive', '2024-06-01', '2024-06-15'],
+      ['open-meteo-forecast', '2024-06-16', '2024-06-25']
+    ]);
+  });
+
+  it('keeps ranges on one side of the boundary with a single provider', () => {
+    expect(segmentsOf('2024-06-01', '2024-06-15')).toEqual([['open-meteo-archive', '2024-06-01', '2024-06-15']]);
+    expect(segmentsOf('2024-06-16', '2024-06-18')).toEqual([['open-meteo-forecast', '2024-06-16', '2024-06-18']]);
+  });
+
+  it('stitches each location\'s archive and forecast parts and marks where the forecast starts', async () => {
+    const archive = jest.spyOn(openMeteoArchiveProvider, 'fetchSeriesBatch').mockImplementation(async request => series(request, 0, false));
+    const forecast = jest.spyOn(openMeteoForecastProvider, 'fetchSeriesBatch').mockImplementation(async request => series(request, 100, true));
+
+    const [first, second] = await openMeteoProvider.fetchSeriesBatch({
+      locations: [{ latitude: 1, longitude: 0 }, { latitude: 2, longitude: 0 }],
+      variables: ['temperature_2m'],
+      startDate: '2024-06-15',
+      endDate: '2024-06-21'
+    });
+
+    expect(archive.mock.calls[0][0]).toMatchObject({ startDate: '2024-06-15', endDate: '2024-06-15' });
+    expect(forecast.mock.calls[0][0]).toMatchObject({ startDate: '2024-06-16', endDate: '2024-06-21' });
+
+    expect(first.time).toHaveLength(7 * 24);
+    expect(first.time.every((time, index) => index === 0 || time - first.time[index - 1] === HOUR_MS)).toBe(true);
+    // Observed data ends with 2024-06-15 and the forecast API takes over at midnight
+    expect(first.series.temperature_2m.slice(22, 26)).toEqual([1, 1, 101, 101]);
+    expect(second.series.temperature_2m[0]).toBe(2);
+    // The first forecast hour is the first one after now
+    expect(first.time[first.forecastStartIndex!]).toBe(NOW + HOUR_MS);
+  });
+});
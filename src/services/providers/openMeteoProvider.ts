@@ -0,0 +1,61 @@
+import { openMeteoArchiveProvider } from './openMeteoArchiveProvider';
+import { openMeteoForecastProvider } from './openMeteoForecastProvider';
+import { OPEN_METEO_HOURLY_FIELDS } from './openMeteoCommon';
+import { stitchSeries } from './stitchSeries';
+import { getNow } from '../clock';
+import type { DataProvider, ProviderBatchRequest, ProviderSegment, ProviderSeries } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The archive lags real time by several days; the forecast API covers that gap and the days ahead
+export const ARCHIVE_DELAY_DAYS = 5;
+
+const formatDate = (time: number): string => new Date(time).toISOString().split('T')[0];
+
+// Archive for settled dates, forecast API for recent and future dates
+const getSegments = (startDate: string, endDate: string): ProviderSegment[] => {
+  const now = getNow();
+  const lastArchiveDate = formatDate(now - ARCHIVE_DELAY_DAYS * DAY_MS);
+  const firstForecastDate = formatDate(now - (ARCHIVE_DELAY_DAYS - 1) * DAY_MS);
+  const segments: ProviderSegment[] = [];
+
+  if (startDate <= lastArchiveDate) {
+    segments.push({
+      provider: openMeteoArchiveProvider,
+      startDate,
+      endDate: endDate < lastArchiveDate ? endDate : lastArchiveDate
+    });
+  }
+  if (endDate >= firstForecastDate) {
+    segments.push({
+      provider: openMeteoForecastProvider,
+      startDate: startDate > firstForecastDate ? startDate : firstForecastDate,
+      endDate
+    });
+  }
+
+  return segments;
+};
+
+const fetchSeriesBatch = async (request: ProviderBatchRequest): Promise<ProviderSeries[]> => {
+  const segments = getSegments(request.startDate, request.endDate);
+  const results = await Promise.all(segments.map(segment => segment.provider.fetchSeriesBatch({
+    ...request,
+    startDate: segment.startDate,
+    endDate: segment.endDate
+  })));
+
+  return request.locations.map((_, index) => stitchSeries(results.map(result => result[index]), request.variables));
+};
+
+// Open-Meteo archive stitched with the forecast API so the timeline can extend into the future
+export const openMeteoProvider: DataProvider = {
+  id: 'open-meteo',
+  name: 'Open-Meteo (archive + forecast)',
+  maxLocationsPerRequest: 50,
+  supportsForecast: true,
+  hourlyFields: OPEN_METEO_HOURLY_FIELDS,
+
+  fetchSeriesBatch,
+  getSegments
+};
@@ -0,0 +1,36 @@
+import { stitchSeries } from './stitchSeries';
+import type { ProviderSeries } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const part = (startHour: number, values: number[], forecastStartIndex: number | null = null): ProviderSeries => ({
+  latitude: 1,
+  longitude: 2,
+  utcOffsetSeconds: 0,
+  timezone: 'GMT',
+  time: values.map((_, index) => (startHour + index) * HOUR_MS),
+  series: { temperature_2m: values },
+  resolution: 'hourly',
+  forecastStartIndex
+});
+
+describe('stitchSeries', () => {
+  it('returns a single part unchanged', () => {
+    const only = part(0, [1, 2]);
+    expect(stitchSeries([only], ['temperature_2m'])).toBe(only);
+  });
+
+  it('joins consecutive chunks', () => {
+    const stitched = stitchSeries([part(0, [1, 2]), part(2, [3, 4])], ['temperature_2m']);
+    expect(stitched.time).toEqual([0, 1, 2, 3].map(hour => hour * HOUR_MS));
+    expect(stitched.series.temperature_2m).toEqual([1, 2, 3, 4]);
+    expect(stitched.forecastStartIndex).toBeNull();
+  });
+
+  it('skips hours an earlier segment already covers and keeps the forecast marker', () => {
+    // Archive up to hour 3, forecast from hour 2 whose hours from 4 on are in the future
+    const stitched = stitchSeries([part(0, [1, 2, 3, 4]), part(2, [30, 40, 5, 6], 2)], ['temperature_2m']);
+    expect(stitched.series.temperature_2m).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(stitched.forecastStartIndex).toBe(4);
+  });
+});
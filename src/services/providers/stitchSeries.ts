@@ -0,0 +1,35 @@
+import type { ProviderSeries } from './types';
+
+// Join consecutive segments of one location into a single series.
+// Hours already covered by an earlier segment are skipped, and the forecast marker
+// points at the first kept hour any segment reports as forecast.
+export const stitchSeries = (parts: ProviderSeries[], variables: string[]): ProviderSeries => {
+  if (parts.length === 1) {
+    return parts[0];
+  }
+
+  const time: number[] = [];
+  const series: Record<string, Array<number | null>> = {};
+  variables.forEach(variable => { series[variable] = []; });
+  let forecastStartIndex: number | null = null;
+
+  parts.forEach(part => {
+    part.time.forEach((hour, index) => {
+      if (time.length > 0 && hour <= time[time.length - 1]) {
+        return;
+      }
+      if (forecastStartIndex === null && part.forecastStartIndex !== null && index >= part.forecastStartIndex) {
+        forecastStartIndex = time.length;
+      }
+      time.push(hour);
+      variables.forEach(variable => series[variable].push(part.series[variable][index]));
+    });
+  });
+
+  return {
+    ...parts[0],
+    time,
+    series,
+    forecastStartIndex
+  };
+};
@@ -0,0 +1,40 @@
+import { syntheticProvider } from './syntheticProvider';
+
+const REQUEST = {
+  locations: [{ latitude: 52.5, longitude: 13.4 }, { latitude: -33.9, longitude: 18.4 }],
+  variables: ['temperature_2m', 'precipitation'],
+  startDate: '2024-01-01',
+  endDate: '2024-01-02'
+};
+
+describe('syntheticProvider', () => {
+  it('returns the same hourly series for the same request', async () => {
+    const [first, second] = await Promise.all([
+      syntheticProvider.fetchSeriesBatch(REQUEST),
+      syntheticProvider.fetchSeriesBatch(REQUEST)
+    ]);
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(2);
+    expect(first[0].resolution).toBe('hourly');
+    expect(first[0].time).toHaveLength(48);
+    expect(first[0].series.temperature_2m).toHaveLength(48);
+    expect(first[0].series.temperature_2m).not.toEqual(first[1].series.temperature_2m);
+  });
+
+  it('honours a daily resolution', async () => {
+    const [series] = await syntheticProvider.fetchSeriesBatch({
+      ...REQUEST,
+      variables: ['temperature_2m_max', 'precipitation_sum'],
+      resolution: 'daily'
+    });
+    expect(series.resolution).toBe('daily');
+    expect(series.time).toEqual([Date.UTC(2024, 0, 1), Date.UTC(2024, 0, 2)]);
+    expect(series.series.precipitation_sum).toHaveLength(2);
+  });
+
+  it('rejects aborted requests', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(syntheticProvider.fetchSeriesBatch({ ...REQUEST, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
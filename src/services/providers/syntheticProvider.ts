@@ -0,0 +1,179 @@
+import { createAbortError } from '../requestScheduler';
+import { circularMean } from '../aggregation';
+import { getNow } from '../clock';
+import type { DataProvider, ProviderBatchRequest, ProviderSeries } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Deterministic hash of a string to a float in [0, 1)
+const hashToUnit = (input: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0x5bd1e995);
+  hash ^= hash >>> 15;
+  return (hash >>> 0) / 4294967296;
+};
+
+// Smooth noise in [-1, 1] that varies slowly over hours
+const smoothNoise = (seed: string, hourIndex: number, period: number): number => {
+  const step = Math.floor(hourIndex / period);
+  const t = (hourIndex % period) / period;
+  const a = hashToUnit(`${seed}:${step}`) * 2 - 1;
+  const b = hashToUnit(`${seed}:${step + 1}`) * 2 - 1;
+  const eased = t * t * (3 - 2 * t);
+  return a + (b - a) * eased;
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+// Variables with a modelled shape; anything else is generic noise
+const HOURLY_FIELDS = [
+  'temperature_2m',
+  'dew_point_2m',
+  'soil_temperature_0_to_7cm',
+  'relative_humidity_2m',
+  'precipitation',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'cloud_cover',
+  'surface_pressure',
+];
+
+// Generate a plausible value for a variable at a location and UTC hour
+const generateValue = (variable: string, lat: number, lng: number, timestamp: number): number => {
+  const seed = `${lat.toFixed(2)}_${lng.toFixed(2)}_${variable}`;
+  const hourIndex = Math.floor(timestamp / HOUR_MS);
+  const localHour = ((new Date(timestamp).getUTCHours() + lng / 15) % 24 + 24) % 24;
+  const dayOfYear = Math.floor((timestamp - Date.UTC(new Date(timestamp).getUTCFullYear(), 0, 1)) / DAY_MS);
+  const seasonal = Math.cos(2 * Math.PI * (dayOfYear - 196) / 365) * (lat >= 0 ? 1 : -1);
+  const diurnal = Math.cos(2 * Math.PI * (localHour - 15) / 24);
+  const noise = smoothNoise(seed, hourIndex, 6);
+  const baseTemperature = 27 - Math.abs(lat) * 0.45 + seasonal * Math.min(Math.abs(lat), 60) * 0.25;
+
+  switch (variable) {
+    case 'temperature_2m':
+      return baseTemperature + diurnal * 5 + noise * 2;
+    case 'dew_point_2m': {
+      // Magnus approximation keeps it consistent with the generated temperature and humidity
+      const temperature = generateValue('temperature_2m', lat, lng, timestamp);
+      const humidity = generateValue('relative_humidity_2m', lat, lng, timestamp);
+      return temperature - (100 - humidity) / 5;
+    }
+    case 'soil_temperature_0_to_7cm':
+      return baseTemperature + diurnal * 2 + noise;
+    case 'relative_humidity_2m':
+      return clamp(70 - diurnal * 15 + noise * 15, 5, 100);
+    case 'precipitation': {
+      const rain = smoothNoise(`${seed}:rain`, hourIndex, 12);
+      return rain > 0.55 ? Math.round((rain - 0.55) * 20 * 10) / 10 : 0;
+    }
+    case 'wind_speed_10m':
+      return clamp(12 + noise * 10 + diurnal * 3, 0, 120);
+    case 'wind_direction_10m':
+      return ((hashToUnit(seed) * 360 + noise * 90) % 360 + 360) % 360;
+    case 'cloud_cover':
+      return clamp(50 + smoothNoise(`${seed}:cloud`, hourIndex, 8) * 60, 0, 100);
+    case 'surface_pressure':
+      return 1013 + smoothNoise(`${seed}:pressure`, hourIndex, 24) * 15;
+    default:
+      return 50 + noise * 50;
+  }
+};
+
+// Daily variables are named after an hourly variable plus an aggregate suffix
+const DAILY_SUFFIX = /_(mean|sum|max|min|dominant)$/;
+
+// Aggregate one day of hourly values the way the daily variable's suffix asks for
+const generateDailyValue = (variable: string, lat: number, lng: number, dayStart: number): number => {
+  const match = variable.match(DAILY_SUFFIX);
+  const hourlyVariable = match ? variable.slice(0, match.index) : variable;
+  const values: number[] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    values.push(generateValue(hourlyVariable, lat, lng, dayStart + hour * HOUR_MS));
+  }
+
+  switch (match?.[1]) {
+    case 'sum':
+      return values.reduce((sum, value) => sum + value, 0);
+    case 'max':
+      return values.reduce((max, value) => Math.max(max, value), -Infinity);
+    case 'min':
+      return values.reduce((min, value) => Math.min(min, value), Infinity);
+    case 'dominant':
+      // Directions average as vectors, so a day turning through north stays near north
+      return circularMean(values) ?? values[0];
+    default:
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+};
+
+// Synthetic hours after now are treated as forecast
+const findForecastStartIndex = (time: number[]): number | null => {
+  const now = getNow();
+  const index = time.findIndex(t => t > now);
+  return index === -1 ? null : index;
+};
+
+// Generate hourly or daily series for one location
+const generateSeries = (
+  location: { latitude: number; longitude: number },
+  request: ProviderBatchRequest
+): ProviderSeries => {
+  const resolution = request.resolution || 'hourly';
+  const step = resolution === 'daily' ? DAY_MS : HOUR_MS;
+  const start = Date.parse(`${request.startDate}T00:00:00Z`);
+  const end = Date.parse(`${request.endDate}T23:00:00Z`);
+
+  if (isNaN(start) || isNaN(end) || end < start) {
+    throw new Error(`Invalid date range ${request.startDate} to ${request.endDate}`);
+  }
+
+  const time: number[] = [];
+  const series: Record<string, Array<number | null>> = {};
+  request.variables.forEach(variable => {
+    series[variable] = [];
+  });
+
+  for (let timestamp = start; timestamp <= end; timestamp += step) {
+    time.push(timestamp);
+    request.variables.forEach(variable => {
+      const value = resolution === 'daily'
+        ? generateDailyValue(variable, location.latitude, location.longitude, timestamp)
+        : generateValue(variable, location.latitude, location.longitude, timestamp);
+      series[variable].push(Math.round(value * 10) / 10);
+    });
+  }
+
+  return {
+    latitude: location.latitude,
+    longitude: location.longitude,
+    utcOffsetSeconds: 0,
+    timezone: 'GMT',
+    time,
+    series,
+    resolution,
+    forecastStartIndex: findForecastStartIndex(time)
+  };
+};
+
+// Offline provider producing deterministic synthetic hourly or daily series.
+// Same coordinates, variables and range always return the same values.
+export const syntheticProvider: DataProvider = {
+  id: 'synthetic',
+  name: 'Synthetic (offline)',
+  maxLocationsPerRequest: 1000,
+  supportsForecast: true,
+  hourlyFields: HOURLY_FIELDS,
+
+  fetchSeriesBatch: async (request: ProviderBatchRequest): Promise<ProviderSeries[]> => {
+    if (request.signal?.aborted) {
+      throw createAbortError();
+    }
+    return request.locations.map(location => generateSeries(location, request));
+  }
+};
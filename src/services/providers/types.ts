@@ -0,0 +1,41 @@
+export type DataProviderId = 'open-meteo' | 'open-meteo-archive' | 'open-meteo-forecast' | 'synthetic';
+
+export type SeriesResolution = 'hourly' | 'daily';
+
+export interface ProviderBatchRequest {
+  locations: Array<{ latitude: number; longitude: number }>;
+  variables: string[]; // fields at the requested resolution, e.g. ['temperature_2m']
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  resolution?: SeriesResolution; // defaults to hourly
+  signal?: AbortSignal;
+}
+
+export interface ProviderSeries {
+  latitude: number; // grid cell actually used by the provider
+  longitude: number;
+  utcOffsetSeconds: number; // location's offset from UTC
+  timezone: string; // location's IANA zone, e.g. 'Europe/Berlin'
+  time: number[]; // step start as UTC epoch milliseconds (local midnight for daily steps)
+  series: Record<string, Array<number | null>>;
+  resolution: SeriesResolution;
+  forecastStartIndex: number | null; // first forecast hour, null when all observed
+}
+
+export interface DataProvider {
+  id: DataProviderId;
+  name: string;
+  maxLocationsPerRequest: number;
+  supportsForecast: boolean; // can serve hours after now
+  hourlyFields: string[]; // raw hourly fields it serves, the names computed expressions may use
+  // One series per location, in request order
+  fetchSeriesBatch: (request: ProviderBatchRequest) => Promise<ProviderSeries[]>;
+  // Composite providers split a range across other providers; each segment is fetched separately
+  getSegments?: (startDate: string, endDate: string) => ProviderSegment[];
+}
+
+export interface ProviderSegment {
+  provider: DataProvider;
+  startDate: string;
+  endDate: string;
+}
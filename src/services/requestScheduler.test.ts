@@ -0,0 +1,189 @@
+import { AxiosError } from 'axios';
+import type { AxiosResponse } from 'axios';
+import { createRequestScheduler, getRetryAfterMs, isRetriableError } from './requestScheduler';
+
+const httpError = (status: number, headers: Record<string, string> = {}): AxiosError => {
+  const response = { status, statusText: '', headers, config: {}, data: null } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, response);
+};
+
+// Let promise callbacks run between timer steps
+const flush = async () => {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve();
+  }
+};
+
+const advance = async (ms: number) => {
+  jest.advanceTimersByTime(ms);
+  await flush();
+};
+
+// A task whose outcome the test decides
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  const promise = new Promise<string>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+describe('requestScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('waits as long as Retry-After asks after a 429', async () => {
+    const scheduler = createRequestScheduler();
+    const task = jest.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }))
+      .mockResolvedValueOnce('ok');
+    const onRetry = jest.fn();
+
+    const result = scheduler.schedule(task, { onRetry });
+    await flush();
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 2, maxAttempts: 5, delayMs: 2000 }));
+
+    await advance(1999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('backs off exponentially on 503 and gives up after the last attempt', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1); // the full jitter ceiling
+    const scheduler = createRequestScheduler({ maxAttempts: 3, baseDelayMs: 500 });
+    const error = httpError(503);
+    const task = jest.fn().mockRejectedValue(error);
+
+    const result = scheduler.schedule(task);
+    const outcome = result.catch(reason => reason);
+    await flush();
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await advance(499);
+    expect(task).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await advance(999);
+    expect(task).toHaveBeenCalledTimes(2);
+    await advance(1);
+    expect(task).toHaveBeenCalledTimes(3);
+
+    expect(await outcome).toBe(error);
+  });
+
+  it('does not retry client errors', async () => {
+    const scheduler = createRequestScheduler();
+    const error = httpError(400);
+    const task = jest.fn().mockRejectedValue(error);
+
+    await expect(scheduler.schedule(task)).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs no more tasks at once than there are slots', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 2, burstSize: 10 });
+    const tasks = [deferred(), deferred(), deferred(), deferred()];
+    const started = tasks.map(() => jest.fn());
+    const results = tasks.map((task, index) => scheduler.schedule(() => {
+      started[index]();
+      return task.promise;
+    }));
+
+    await flush();
+    expect(started.map(fn => fn.mock.calls.length)).toEqual([1, 1, 0, 0]);
+    expect(scheduler.getQueueLength()).toBe(2);
+
+    tasks[1].resolve('second');
+    await flush();
+    expect(started.map(fn => fn.mock.calls.length)).toEqual([1, 1, 1, 0]);
+    await expect(results[1]).resolves.toBe('second');
+
+    tasks[0].resolve('first');
+    tasks[2].resolve('third');
+    await flush();
+    expect(started[3]).toHaveBeenCalled();
+    expect(scheduler.getQueueLength()).toBe(0);
+  });
+
+  it('paces requests beyond the burst with the token bucket', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 10, burstSize: 2, requestsPerSecond: 1 });
+    const task = jest.fn().mockResolvedValue('ok');
+
+    const results = [scheduler.schedule(task), scheduler.schedule(task), scheduler.schedule(task)];
+    await flush();
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await advance(999);
+    expect(task).toHaveBeenCalledTimes(2);
+    await advance(1);
+    expect(task).toHaveBeenCalledTimes(3);
+    await expect(Promise.all(results)).resolves.toEqual(['ok', 'ok', 'ok']);
+  });
+
+  it('drops a queued task that is aborted before it gets a slot', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 1 });
+    const running = deferred();
+    const controller = new AbortController();
+    const queued = jest.fn().mockResolvedValue('queued');
+
+    const first = scheduler.schedule(() => running.promise);
+    const outcome = scheduler.schedule(queued, { signal: controller.signal }).catch(reason => reason);
+    await flush();
+    expect(scheduler.getQueueLength()).toBe(1);
+
+    controller.abort();
+    expect(await outcome).toMatchObject({ name: 'AbortError' });
+    expect(scheduler.getQueueLength()).toBe(0);
+
+    running.resolve('first');
+    await expect(first).resolves.toBe('first');
+    await flush();
+    expect(queued).not.toHaveBeenCalled();
+  });
+
+  it('stops waiting for a retry when aborted', async () => {
+    const scheduler = createRequestScheduler();
+    const controller = new AbortController();
+    const task = jest.fn().mockRejectedValue(httpError(429, { 'retry-after': '10' }));
+
+    const result = scheduler.schedule(task, { signal: controller.signal });
+    const outcome = result.catch(reason => reason);
+    await flush();
+    controller.abort();
+    await flush();
+
+    expect(await outcome).toMatchObject({ name: 'AbortError' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('reads seconds and HTTP dates', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(Date.UTC(2024, 0, 1, 12, 0, 0));
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '3' }))).toBe(3000);
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': 'Mon, 01 Jan 2024 12:00:05 GMT' }))).toBe(5000);
+    expect(getRetryAfterMs(httpError(429))).toBeNull();
+    jest.useRealTimers();
+  });
+});
+
+describe('isRetriableError', () => {
+  it('retries rate limits and server errors only', () => {
+    expect(isRetriableError(httpError(429))).toBe(true);
+    expect(isRetriableError(httpError(503))).toBe(true);
+    expect(isRetriableError(httpError(404))).toBe(false);
+    expect(isRetriableError(new Error('boom'))).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import axios from 'axios';
+
+export interface SchedulerOptions {
+  maxConcurrent: number; // requests allowed on the wire at once
+  requestsPerSecond: number; // token bucket refill rate
+  burstSize: number; // token bucket capacity
+  maxAttempts: number; // including the first try
+  baseDelayMs: number; // first backoff delay before jitter
+  maxDelayMs: number;
+}
+
+export interface RetryInfo {
+  attempt: number; // the attempt about to run (2 = first retry)
+  maxAttempts: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface ScheduleOptions {
+  onRetry?: (info: RetryInfo) => void;
+  signal?: AbortSignal; // stops waiting, retrying and the running task
+}
+
+export interface RequestScheduler {
+  schedule: <T>(task: () => Promise<T>, options?: ScheduleOptions) => Promise<T>;
+  getQueueLength: () => number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrent: 4,
+  requestsPerSecond: 5,
+  burstSize: 10,
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+// Error thrown when a request is cancelled through an AbortSignal
+export const createAbortError = (): Error => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean => {
+  return axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError');
+};
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+// Wait for ms, rejecting early if the signal aborts
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Rate limiting, server errors and dropped connections are worth retrying; client errors are not
+export const isRetriableError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  if (status === undefined) {
+    return error.code !== 'ERR_CANCELED';
+  }
+  return status === 429 || status >= 500;
+};
+
+// Delay requested by the server through Retry-After (seconds or HTTP date), if any
+export const getRetryAfterMs = (error: unknown): number | null => {
+  if (!axios.isAxiosError(error)) {
+    return null;
+  }
+  const header = error.response?.headers?.['retry-after'];
+  if (header === undefined || header === null || header === '') {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(header));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Exponential backoff with full jitter, capped at maxDelayMs
+const getBackoffMs = (retry: number, options: SchedulerOptions): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, retry - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+// Create a scheduler that limits concurrency, paces requests with a token bucket
+// and retries transient failures with backoff.
+export const createRequestScheduler = (overrides: Partial<SchedulerOptions> = {}): RequestScheduler => {
+  const options: SchedulerOptions = { ...DEFAULT_SCHEDULER_OPTIONS, ...overrides };
+  const queue: Array<() => void> = [];
+  let active = 0;
+  let tokens = options.burstSize;
+  let lastRefill = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(options.burstSize, tokens + ((now - lastRefill) / 1000) * options.requestsPerSecond);
+    lastRefill = now;
+  };
+
+  // Wait until a token is available, then consume it
+  const takeToken = async (signal?: AbortSignal): Promise<void> => {
+    refill();
+    while (tokens < 1) {
+      await sleep(Math.ceil(((1 - tokens) / options.requestsPerSecond) * 1000), signal);
+      refill();
+    }
+    tokens -= 1;
+  };
+
+  // Wait for a free concurrency slot, leaving the queue if the signal aborts
+  const acquireSlot = (signal?: AbortSignal): Promise<void> => {
+    if (active < options.maxConcurrent) {
+      active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      const onAbort = () => {
+        queue.splice(queue.indexOf(grant), 1);
+        reject(createAbortError());
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        active++;
+        resolve();
+      };
+      queue.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  const releaseSlot = () => {
+    active--;
+    const next = queue.shift();
+    if (next) {
+      next();
+    }
+  };
+
+  const schedule = async <T>(task: () => Promise<T>, scheduleOptions: ScheduleOptions = {}): Promise<T> => {
+    const { signal } = scheduleOptions;
+
+    for (let attempt = 1; ; attempt++) {
+      let delayMs = 0;
+
+      await acquireSlot(signal);
+      try {
+        throwIfAborted(signal);
+        await takeToken(signal);
+        return await task();
+      } catch (error) {
+        if (signal?.aborted || attempt >= options.maxAttempts || !isRetriableError(error)) {
+          throw error;
+        }
+
+        // Honor Retry-After when the server sends it, otherwise back off with jitter
+        delayMs = Math.min(options.maxDelayMs, getRetryAfterMs(error) ?? getBackoffMs(attempt, options));
+        console.warn(`🔁 Request failed, retrying (${attempt + 1}/${options.maxAttempts}) in ${delayMs}ms`);
+        scheduleOptions.onRetry?.({ attempt: attempt + 1, maxAttempts: options.maxAttempts, delayMs, error });
+      } finally {
+        // Free the slot while waiting so other requests can proceed
+        releaseSlot();
+      }
+
+      await sleep(delayMs, signal);
+    }
+  };
+
+  return {
+    schedule,
+    getQueueLength: () => queue.length,
+  };
+};
@@ -0,0 +1,158 @@
+import { analyzeColorRules, describeValues, fixIntoContiguousRanges, getRuleValues, orderRulesByValue } from './ruleAnalysis';
+import { applyColorRules } from './colorRules';
+import type { ColorRule, RuleCondition } from '../store/slices/dataSourceSlice';
+
+const rule = (id: string, condition: RuleCondition, extra: Partial<ColorRule> = {}): ColorRule => ({
+  id,
+  color: `#${id.padEnd(6, '0').slice(0, 6)}`,
+  ...condition,
+  ...extra
+});
+
+const format = (value: number) => `${value}`;
+
+describe('getRuleValues', () => {
+  it('intersects AND conditions and unites OR conditions', () => {
+    const and = rule('a', { operator: '>', value: 0 }, { conditions: [{ operator: '<=', value: 5 }] });
+    expect(describeValues(getRuleValues(and), format)).toBe('0 to 5');
+    const or = rule('b', { operator: '<', value: 0 }, { combinator: 'or', conditions: [{ operator: '>=', value: 5 }] });
+    expect(describeValues(getRuleValues(or), format)).toBe('below 0, from 5');
+  });
+
+  it('widens = by its tolerance', () => {
+    expect(getRuleValues(rule('a', { operator: '=', value: 10, tolerance: 0.5 })))
+      .toEqual([{ lower: 9.5, upper: 10.5, includeLower: true, includeUpper: true }]);
+  });
+});
+
+describe('analyzeColorRules', () => {
+  it('finds nothing wrong with disjoint, gap-free rules', () => {
+    const analysis = analyzeColorRules([
+      rule('a', { operator: '<', value: 10 }),
+      rule('b', { operator: 'between', value: 10, upperValue: 25 }),
+      rule('c', { operator: '>=', value: 25 })
+    ]);
+    expect(analysis).toEqual({ issues: {}, gaps: [], fixable: true });
+  });
+
+  it('reports empty, duplicate and unreachable rules', () => {
+    const { issues } = analyzeColorRules([
+      rule('a', { operator: '>=', value: 10 }),
+      rule('b', { operator: '>', value: 5 }, { conditions: [{ operator: '<', value: 0 }] }),
+      rule('c', { operator: '>=', value: 10 }),
+      rule('d', { operator: '>=', value: 20 })
+    ]);
+    expect(issues).toEqual({
+      b: [{ type: 'empty' }],
+      c: [{ type: 'duplicate', ruleId: 'a' }],
+      d: [{ type: 'unreachable', ruleIds: ['a'] }]
+    });
+  });
+
+  it('reports where an earlier rule wins an overlap', () => {
+    const { issues } = analyzeColorRules([
+      rule('a', { operator: '>=', value: 25 }),
+      rule('b', { operator: '>=', value: 10 })
+    ]);
+    expect(issues.b).toEqual([
+      { type: 'overlap', ruleId: 'a', values: [{ lower: 25, upper: Infinity, includeLower: true, includeUpper: false }] }
+    ]);
+  });
+
+  it('lists the values no rule covers', () => {
+    const { gaps } = analyzeColorRules([
+      rule('a', { operator: '<', value: 30 }),
+      rule('b', { operator: '>', value: 30 })
+    ]);
+    expect(describeValues(gaps, format)).toBe('exactly 30');
+  });
+
+  it('is not fixable with fewer than two winning rules', () => {
+    expect(analyzeColorRules([rule('a', { operator: '>', value: 0 })]).fixable).toBe(false);
+  });
+});
+
+describe('fixIntoContiguousRanges', () => {
+  const colorsAt = (rules: ColorRule[], values: number[]) => values.map(value => applyColorRules(value, rules, 'none'));
+
+  it('gives a gap on a bound to the rule below it', () => {
+    const rules = [rule('a', { operator: '<', value: 30 }), rule('b', { operator: '>', value: 30 })];
+    const fixed = fixIntoContiguousRanges(rules);
+    expect(fixed).toEqual([
+      { id: 'a', color: rules[0].color, operator: '<=', value: 30 },
+      { id: 'b', color: rules[1].color, operator: '>', value: 30 }
+    ]);
+    expect(applyColorRules(30, fixed)).toBe(rules[0].color);
+  });
+
+  it('gives a wider gap to the rule below it', () => {
+    const rules = [rule('a', { operator: '<', value: 10 }), rule('b', { operator: '>=', value: 20 })];
+    const fixed = fixIntoContiguousRanges(rules);
+    expect(colorsAt(fixed, [9, 10, 19.99, 20])).toEqual([rules[0].color, rules[0].color, rules[0].color, rules[1].color]);
+  });
+
+  it('keeps the current winner of every covered value, including bounds', () => {
+    const rules = [
+      rule('a', { operator: '<=', value: 10 }),
+      rule('b', { operator: 'between', value: 10, upperValue: 20, includeUpper: true }),
+      rule('c', { operator: '>=', value: 15 })
+    ];
+    const fixed = fixIntoContiguousRanges(rules);
+    const values = [-5, 10, 10.01, 15, 20, 20.01, 99];
+    expect(colorsAt(fixed, values)).toEqual(colorsAt(rules, values));
+    expect(analyzeColorRules(fixed)).toEqual({ issues: {}, gaps: [], fixable: true });
+  });
+
+  it('lists ranges from low to high whatever the rule order', () => {
+    const rules = [
+      rule('c', { operator: '>=', value: 25 }),
+      rule('b', { operator: '>=', value: 10 }),
+      rule('a', { operator: '<', value: 10 })
+    ];
+    const fixed = fixIntoContiguousRanges(rules);
+    expect(fixed.map(fixedRule => fixedRule.id)).toEqual(['a', 'b', 'c']);
+    expect(fixed[1]).toMatchObject({ operator: 'between', value: 10, upperValue: 25, includeLower: true, includeUpper: false });
+    expect(colorsAt(fixed, [5, 10, 25])).toEqual(colorsAt(rules, [5, 10, 25]));
+  });
+
+  it('splits a rule that wins in separate places', () => {
+    const rules = [
+      rule('a', { operator: 'between', value: 10, upperValue: 20 }),
+      rule('b', { operator: '>', value: 0 })
+    ];
+    expect(fixIntoContiguousRanges(rules).map(fixedRule => fixedRule.id)).toEqual(['b', 'a', 'b_2']);
+  });
+
+  it('leaves rules alone when only one of them wins', () => {
+    const rules = [rule('a', { operator: '>', value: 0 }), rule('b', { operator: '>', value: 5 })];
+    expect(fixIntoContiguousRanges(rules)).toBe(rules);
+  });
+});
+
+describe('orderRulesByValue', () => {
+  it('orders rules by the values they color, not by their place in the list', () => {
+    const rules = [
+      rule('c', { operator: '>=', value: 25 }),
+      rule('b', { operator: '>=', value: 10 }),
+      rule('a', { operator: '<', value: 10 })
+    ];
+    expect(orderRulesByValue(rules).map(ordered => ordered.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('repeats rules winning in separate places and leaves out rules that never win', () => {
+    const rules = [
+      rule('a', { operator: 'between', value: 10, upperValue: 20 }),
+      rule('b', { operator: '>', value: 0 }),
+      rule('c', { operator: '>', value: 50 })
+    ];
+    expect(orderRulesByValue(rules).map(ordered => ordered.id)).toEqual(['b', 'a', 'b']);
+  });
+});
+
+describe('describeValues', () => {
+  it('spells out bounds and single values', () => {
+    expect(describeValues([{ lower: -Infinity, upper: 10, includeLower: false, includeUpper: true }], format)).toBe('up to 10');
+    expect(describeValues([{ lower: 5, upper: Infinity, includeLower: false, includeUpper: false }], format)).toBe('above 5');
+    expect(describeValues([{ lower: -Infinity, upper: Infinity, includeLower: false, includeUpper: false }], format)).toBe('all values');
+  });
+});
@@ -0,0 +1,251 @@
+import { DEFAULT_EQUALS_TOLERANCE } from './colorRules';
+import type { ColorRule, RuleCondition } from '../store/slices/dataSourceSlice';
+
+// Static analysis of a data source's color rules. Every rule is turned into the set of values it
+// matches, which makes shadowing, overlaps and uncovered ranges exact under first-match order.
+
+export interface ValueInterval {
+  lower: number; // -Infinity when unbounded
+  upper: number; // Infinity when unbounded
+  includeLower: boolean;
+  includeUpper: boolean;
+}
+
+// Sorted, disjoint and non-touching intervals
+export type ValueSet = ValueInterval[];
+
+export type RuleIssue =
+  | { type: 'empty' } // no value satisfies the rule's conditions
+  | { type: 'duplicate'; ruleId: string } // matches exactly the values of an earlier rule
+  | { type: 'unreachable'; ruleIds: string[] } // every value it matches is taken by earlier rules
+  | { type: 'overlap'; ruleId: string; values: ValueSet }; // an earlier rule wins for `values`
+
+export interface RuleAnalysis {
+  issues: Record<string, RuleIssue[]>; // by rule id, only rules with issues
+  gaps: ValueSet; // values no rule matches, drawn in the fallback color
+  fixable: boolean; // at least two rules win somewhere, so contiguous ranges can be built
+}
+
+const REAL_LINE: ValueSet = [{ lower: -Infinity, upper: Infinity, includeLower: false, includeUpper: false }];
+
+const isEmptyInterval = (interval: ValueInterval): boolean => {
+  return interval.lower > interval.upper
+    || (interval.lower === interval.upper && !(interval.includeLower && interval.includeUpper));
+};
+
+// Sort, drop empty intervals and merge those that overlap or touch
+const normalize = (intervals: ValueInterval[]): ValueSet => {
+  const sorted = intervals
+    .filter(interval => !isEmptyInterval(interval))
+    .sort((a, b) => a.lower - b.lower || Number(b.includeLower) - Number(a.includeLower));
+  const merged: ValueSet = [];
+  sorted.forEach(interval => {
+    const last = merged[merged.length - 1];
+    const joins = last && (interval.lower < last.upper
+      || (interval.lower === last.upper && (last.includeUpper || interval.includeLower)));
+    if (!joins) {
+      merged.push({ ...interval });
+    } else if (interval.upper > last.upper || (interval.upper === last.upper && interval.includeUpper)) {
+      last.upper = interval.upper;
+      last.includeUpper = interval.includeUpper;
+    }
+  });
+  return merged;
+};
+
+const union = (a: ValueSet, b: ValueSet): ValueSet => normalize(a.concat(b));
+
+const intersect = (a: ValueSet, b: ValueSet): ValueSet => {
+  const pieces: ValueInterval[] = [];
+  a.forEach(x => b.forEach(y => {
+    const lower = Math.max(x.lower, y.lower);
+    const upper = Math.min(x.upper, y.upper);
+    pieces.push({
+      lower,
+      upper,
+      includeLower: (x.lower !== lower || x.includeLower) && (y.lower !== lower || y.includeLower),
+      includeUpper: (x.upper !== upper || x.includeUpper) && (y.upper !== upper || y.includeUpper)
+    });
+  }));
+  return normalize(pieces);
+};
+
+const complement = (set: ValueSet): ValueSet => {
+  const pieces: ValueInterval[] = [];
+  let lower = -Infinity;
+  let includeLower = false;
+  set.forEach(interval => {
+    pieces.push({ lower, upper: interval.lower, includeLower, includeUpper: !interval.includeLower });
+    lower = interval.upper;
+    includeLower = !interval.includeUpper;
+  });
+  pieces.push({ lower, upper: Infinity, includeLower, includeUpper: false });
+  return normalize(pieces);
+};
+
+const subtract = (a: ValueSet, b: ValueSet): ValueSet => intersect(a, complement(b));
+
+const sameSet = (a: ValueSet, b: ValueSet): boolean => {
+  return a.length === b.length && a.every((interval, index) => {
+    const other = b[index];
+    return interval.lower === other.lower && interval.upper === other.upper
+      && interval.includeLower === other.includeLower && interval.includeUpper === other.includeUpper;
+  });
+};
+
+export const getConditionValues = (condition: RuleCondition): ValueSet => {
+  const value = condition.value;
+  switch (condition.operator) {
+    case '<':
+      return normalize([{ lower: -Infinity, upper: value, includeLower: false, includeUpper: false }]);
+    case '<=':
+      return normalize([{ lower: -Infinity, upper: value, includeLower: false, includeUpper: true }]);
+    case '=': {
+      const tolerance = condition.tolerance ?? DEFAULT_EQUALS_TOLERANCE;
+      return normalize([{ lower: value - tolerance, upper: value + tolerance, includeLower: true, includeUpper: true }]);
+    }
+    case '>=':
+      return normalize([{ lower: value, upper: Infinity, includeLower: true, includeUpper: false }]);
+    case '>':
+      return normalize([{ lower: value, upper: Infinity, includeLower: false, includeUpper: false }]);
+    case 'between':
+      return normalize([{
+        lower: value,
+        upper: condition.upperValue ?? value,
+        includeLower: condition.includeLower !== false,
+        includeUpper: !!condition.includeUpper
+      }]);
+    default:
+      return [];
+  }
+};
+
+// Values a rule matches, with its extra conditions joined the way the engine joins them
+export const getRuleValues = (rule: ColorRule): ValueSet => {
+  const sets = [rule as RuleCondition].concat(rule.conditions ?? []).map(getConditionValues);
+  return rule.combinator === 'or'
+    ? sets.reduce(union, [])
+    : sets.reduce(intersect, REAL_LINE);
+};
+
+// Values each rule actually colors: what it matches minus what earlier rules took
+const getWinningValues = (rules: ColorRule[]): ValueSet[] => {
+  let taken: ValueSet = [];
+  return rules.map(rule => {
+    const values = getRuleValues(rule);
+    const wins = subtract(values, taken);
+    taken = union(taken, values);
+    return wins;
+  });
+};
+
+export const analyzeColorRules = (rules: ColorRule[]): RuleAnalysis => {
+  const ruleValues = rules.map(getRuleValues);
+  const winning = getWinningValues(rules);
+  const issues: Record<string, RuleIssue[]> = {};
+  const report = (ruleId: string, issue: RuleIssue) => {
+    issues[ruleId] = (issues[ruleId] || []).concat(issue);
+  };
+
+  rules.forEach((rule, index) => {
+    const values = ruleValues[index];
+    if (values.length === 0) {
+      report(rule.id, { type: 'empty' });
+      return;
+    }
+    const earlier = rules.slice(0, index);
+    const duplicate = earlier.find((_, j) => sameSet(ruleValues[j], values));
+    if (duplicate) {
+      report(rule.id, { type: 'duplicate', ruleId: duplicate.id });
+      return;
+    }
+    const overlapping = earlier
+      .map((other, j) => ({ ruleId: other.id, values: intersect(winning[j], values) }))
+      .filter(overlap => overlap.values.length > 0);
+    if (winning[index].length === 0) {
+      report(rule.id, { type: 'unreachable', ruleIds: overlapping.map(overlap => overlap.ruleId) });
+      return;
+    }
+    overlapping.forEach(overlap => report(rule.id, { type: 'overlap', ...overlap }));
+  });
+
+  const covered = ruleValues.reduce(union, []);
+  return {
+    issues,
+    gaps: complement(covered),
+    fixable: winning.filter(values => values.length > 0).length >= 2
+  };
+};
+
+// Stretches of values the rules color, from low to high. A single value sharing its lower bound with
+// the next stretch cannot become a range of its own; neighbouring stretches of the same rule are merged.
+const getValueRuns = (rules: ColorRule[]): Array<{ rule: ColorRule; lower: number; includeLower: boolean }> => {
+  const winning = getWinningValues(rules);
+  const segments: Array<{ rule: ColorRule; lower: number; includeLower: boolean }> = [];
+  winning.forEach((values, index) => {
+    values.forEach(interval => segments.push({ rule: rules[index], lower: interval.lower, includeLower: interval.includeLower }));
+  });
+  segments.sort((a, b) => a.lower - b.lower || Number(b.includeLower) - Number(a.includeLower));
+
+  const widths = segments.filter((segment, index) => index === segments.length - 1 || segments[index + 1].lower > segment.lower);
+  return widths.filter((segment, index) => index === 0 || widths[index - 1].rule !== segment.rule);
+};
+
+// Rules in the order their colors appear from low to high values, as on a legend. A rule winning in
+// separate places appears once per place; rules that never win are left out.
+export const orderRulesByValue = (rules: ColorRule[]): ColorRule[] => getValueRuns(rules).map(run => run.rule);
+
+// Rewrite rules into disjoint, gap-free ranges that keep each value's current winner where there is one.
+// Gaps go to the rule below them (the lowest rule also takes the values under it), so a boundary value
+// belongs to the range above only when that range already won it; ranges are listed from low to high.
+// A rule winning in separate places is split.
+export const fixIntoContiguousRanges = (rules: ColorRule[]): ColorRule[] => {
+  const runs = getValueRuns(rules);
+  if (runs.length < 2) {
+    return rules;
+  }
+
+  const seen = new Map<string, number>();
+  return runs.map((run, index): ColorRule => {
+    const count = (seen.get(run.rule.id) ?? 0) + 1;
+    seen.set(run.rule.id, count);
+    const base = {
+      id: count === 1 ? run.rule.id : `${run.rule.id}_${count}`,
+      color: run.rule.color
+    };
+    const next = runs[index + 1];
+    if (index === 0) {
+      return { ...base, operator: next.includeLower ? '<' : '<=', value: next.lower };
+    }
+    if (!next) {
+      return { ...base, operator: run.includeLower ? '>=' : '>', value: run.lower };
+    }
+    return {
+      ...base,
+      operator: 'between',
+      value: run.lower,
+      upperValue: next.lower,
+      includeLower: run.includeLower,
+      includeUpper: !next.includeLower
+    };
+  });
+};
+
+// Values in words, e.g. "below 10 °C" or "10 °C to 25 °C"
+export const describeValues = (set: ValueSet, format: (value: number) => string): string => {
+  return set.map(interval => {
+    if (interval.lower === -Infinity && interval.upper === Infinity) {
+      return 'all values';
+    }
+    if (interval.lower === -Infinity) {
+      return `${interval.includeUpper ? 'up to' : 'below'} ${format(interval.upper)}`;
+    }
+    if (interval.upper === Infinity) {
+      return `${interval.includeLower ? 'from' : 'above'} ${format(interval.lower)}`;
+    }
+    if (interval.lower === interval.upper) {
+      return `exactly ${format(interval.lower)}`;
+    }
+    return `${format(interval.lower)} to ${format(interval.upper)}`;
+  }).join(', ');
+};
@@ -0,0 +1,35 @@
+import { formatDateTime, formatUtcOffset } from './timeZones';
+
+// Berlin moves from UTC+01:00 to UTC+02:00 at 01:00 UTC on 2024-03-31; local 02:00-03:00 never happens
+const BEFORE_DST = Date.parse('2024-03-31T00:30:00Z');
+const AFTER_DST = Date.parse('2024-03-31T01:30:00Z');
+
+describe('formatDateTime', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shows the zone\'s wall clock on both sides of a DST change', () => {
+    expect(formatDateTime(BEFORE_DST, 'Europe/Berlin')).toMatch(/31.*01:30/);
+    expect(formatDateTime(AFTER_DST, 'Europe/Berlin')).toMatch(/31.*03:30/);
+    expect(formatDateTime(AFTER_DST, 'UTC')).toMatch(/31.*01:30/);
+  });
+
+  it('falls back to UTC for unknown zones', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(formatDateTime(AFTER_DST, 'Mars/Olympus_Mons')).toBe('2024-03-31 01:30 UTC');
+  });
+});
+
+describe('formatUtcOffset', () => {
+  it('formats offsets on both sides of a DST change', () => {
+    expect(formatUtcOffset(3600)).toBe('UTC+01:00');
+    expect(formatUtcOffset(7200)).toBe('UTC+02:00');
+  });
+
+  it('keeps half hours and the sign of western zones', () => {
+    expect(formatUtcOffset(0)).toBe('UTC+00:00');
+    expect(formatUtcOffset(19800)).toBe('UTC+05:30');
+    expect(formatUtcOffset(-12600)).toBe('UTC-03:30');
+  });
+});
@@ -0,0 +1,42 @@
+// Display helpers for instants stored as UTC epoch milliseconds
+
+// Sentinel for the browser's own zone
+export const LOCAL_TIME_ZONE = 'local';
+
+// The browser's IANA zone, e.g. 'Europe/Paris'
+export const getBrowserTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
+
+// Format an instant as date and time in the given zone
+export const formatDateTime = (timestamp: number, timeZone: string = LOCAL_TIME_ZONE): string => {
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: timeZone === LOCAL_TIME_ZONE ? undefined : timeZone
+  };
+
+  try {
+    return new Intl.DateTimeFormat(undefined, options).format(timestamp);
+  } catch (error) {
+    // Unknown zone names fall back to UTC rather than breaking the UI
+    console.warn(`Unknown time zone "${timeZone}", showing UTC:`, error);
+    return `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+};
+
+// Offset such as "UTC+05:30"
+export const formatUtcOffset = (offsetSeconds: number): string => {
+  const sign = offsetSeconds < 0 ? '-' : '+';
+  const minutes = Math.abs(Math.round(offsetSeconds / 60));
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `UTC${sign}${hours}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// Human-readable name for a zone option
+export const getTimeZoneLabel = (timeZone: string): string => {
+  return timeZone === LOCAL_TIME_ZONE ? `Browser (${getBrowserTimeZone()})` : timeZone;
+};
@@ -0,0 +1,64 @@
+import {
+  DEFAULT_UNIT_PREFERENCES,
+  fromDisplayValue,
+  getDisplayUnit,
+  isCircularQuantity,
+  roundForDisplay,
+  toDisplayValue
+} from './units';
+import type { UnitPreferences } from './units';
+
+const IMPERIAL: UnitPreferences = { system: 'imperial', overrides: {} };
+
+describe('getDisplayUnit', () => {
+  it('follows the unit system', () => {
+    expect(getDisplayUnit('temperature', DEFAULT_UNIT_PREFERENCES).symbol).toBe('°C');
+    expect(getDisplayUnit('temperature', IMPERIAL).symbol).toBe('°F');
+    expect(getDisplayUnit('pressure', IMPERIAL).symbol).toBe('inHg');
+  });
+
+  it('lets overrides win, also for linked quantities', () => {
+    const preferences: UnitPreferences = { system: 'imperial', overrides: { temperature: 'kelvin', speed: 'knots' } };
+    expect(getDisplayUnit('temperature', preferences).symbol).toBe('K');
+    expect(getDisplayUnit('temperature_delta', preferences).symbol).toBe('K');
+    expect(getDisplayUnit('speed', preferences).symbol).toBe('kn');
+  });
+
+  it('falls back to the canonical unit for unknown ids', () => {
+    expect(getDisplayUnit('precipitation', { system: 'metric', overrides: { precipitation: 'furlong' } }).symbol).toBe('mm');
+  });
+});
+
+describe('conversions', () => {
+  it.each([
+    ['temperature', IMPERIAL, 100, 212],
+    ['temperature', { system: 'metric', overrides: { temperature: 'kelvin' } }, 0, 273.15],
+    ['precipitation', IMPERIAL, 25.4, 1],
+    ['speed', { system: 'metric', overrides: { speed: 'ms' } }, 36, 10],
+    ['speed', IMPERIAL, 1.609344, 1],
+    ['pressure', IMPERIAL, 1013.25, 29.92]
+  ] as const)('converts %s both ways', (quantity, preferences, canonical, display) => {
+    expect(toDisplayValue(canonical, quantity, preferences)).toBeCloseTo(display, 2);
+    expect(fromDisplayValue(display, quantity, preferences)).toBeCloseTo(canonical, 1);
+  });
+
+  it('ignores the offset for differences', () => {
+    expect(toDisplayValue(10, 'temperature', IMPERIAL, true)).toBeCloseTo(18, 10);
+    expect(fromDisplayValue(18, 'temperature', IMPERIAL, true)).toBeCloseTo(10, 10);
+    expect(toDisplayValue(10, 'temperature_delta', IMPERIAL)).toBeCloseTo(18, 10);
+  });
+});
+
+describe('roundForDisplay', () => {
+  it('removes float noise', () => {
+    expect(roundForDisplay(fromDisplayValue(86, 'temperature', IMPERIAL))).toBe(30);
+    expect(roundForDisplay(1.23456, 3)).toBe(1.235);
+  });
+});
+
+describe('isCircularQuantity', () => {
+  it('is true for angles only', () => {
+    expect(isCircularQuantity('angle')).toBe(true);
+    expect(isCircularQuantity('speed')).toBe(false);
+  });
+});
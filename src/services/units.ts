@@ -0,0 +1,123 @@
+// Unit conversions between the canonical units values and rule thresholds are stored in
+// (°C, mm, km/h, hPa, %, °) and the units the user chose to see.
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type Quantity = 'temperature' | 'temperature_delta' | 'precipitation' | 'speed' | 'pressure' | 'percent' | 'angle';
+
+export interface UnitDefinition {
+  id: string;
+  symbol: string;
+  scale: number; // display = canonical * scale + offset
+  offset: number;
+}
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  overrides: Partial<Record<Quantity, string>>; // per-quantity unit ids that win over the system
+}
+
+// Available units per quantity; the first entry is canonical
+export const UNITS: Record<Quantity, UnitDefinition[]> = {
+  temperature: [
+    { id: 'celsius', symbol: '°C', scale: 1, offset: 0 },
+    { id: 'fahrenheit', symbol: '°F', scale: 9 / 5, offset: 32 },
+    { id: 'kelvin', symbol: 'K', scale: 1, offset: 273.15 },
+  ],
+  // Differences between temperatures, e.g. dew point depression or degree-days
+  temperature_delta: [
+    { id: 'celsius', symbol: '°C', scale: 1, offset: 0 },
+    { id: 'fahrenheit', symbol: '°F', scale: 9 / 5, offset: 0 },
+    { id: 'kelvin', symbol: 'K', scale: 1, offset: 0 },
+  ],
+  precipitation: [
+    { id: 'mm', symbol: 'mm', scale: 1, offset: 0 },
+    { id: 'inch', symbol: 'in', scale: 1 / 25.4, offset: 0 },
+  ],
+  speed: [
+    { id: 'kmh', symbol: 'km/h', scale: 1, offset: 0 },
+    { id: 'ms', symbol: 'm/s', scale: 1 / 3.6, offset: 0 },
+    { id: 'mph', symbol: 'mph', scale: 1 / 1.609344, offset: 0 },
+    { id: 'knots', symbol: 'kn', scale: 1 / 1.852, offset: 0 },
+  ],
+  pressure: [
+    { id: 'hpa', symbol: 'hPa', scale: 1, offset: 0 },
+    { id: 'inhg', symbol: 'inHg', scale: 0.0295299830714, offset: 0 },
+  ],
+  percent: [
+    { id: 'percent', symbol: '%', scale: 1, offset: 0 },
+  ],
+  angle: [
+    { id: 'degrees', symbol: '°', scale: 1, offset: 0 },
+  ],
+};
+
+// Quantities on a circle (0–360°), which must not be averaged arithmetically
+export const isCircularQuantity = (quantity: Quantity): boolean => quantity === 'angle';
+
+// Unit used for each quantity when no override is set
+const SYSTEM_DEFAULTS: Record<UnitSystem, Record<Quantity, string>> = {
+  metric: {
+    temperature: 'celsius',
+    temperature_delta: 'celsius',
+    precipitation: 'mm',
+    speed: 'kmh',
+    pressure: 'hpa',
+    percent: 'percent',
+    angle: 'degrees',
+  },
+  imperial: {
+    temperature: 'fahrenheit',
+    temperature_delta: 'fahrenheit',
+    precipitation: 'inch',
+    speed: 'mph',
+    pressure: 'inhg',
+    percent: 'percent',
+    angle: 'degrees',
+  },
+};
+
+// Quantities that follow another quantity's override unless they have their own
+const LINKED_QUANTITIES: Partial<Record<Quantity, Quantity>> = {
+  temperature_delta: 'temperature',
+};
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = { system: 'metric', overrides: {} };
+
+// Unit the user sees for a quantity
+export const getDisplayUnit = (quantity: Quantity, preferences: UnitPreferences): UnitDefinition => {
+  const units = UNITS[quantity];
+  const linked = LINKED_QUANTITIES[quantity];
+  const unitId = preferences.overrides[quantity]
+    || (linked && preferences.overrides[linked])
+    || SYSTEM_DEFAULTS[preferences.system][quantity];
+  return units.find(unit => unit.id === unitId) || units[0];
+};
+
+// Canonical value to the display unit; deltas (spreads, differences) ignore the offset
+export const toDisplayValue = (
+  value: number,
+  quantity: Quantity,
+  preferences: UnitPreferences,
+  isDelta = false
+): number => {
+  const unit = getDisplayUnit(quantity, preferences);
+  return value * unit.scale + (isDelta ? 0 : unit.offset);
+};
+
+// Display-unit value back to the canonical unit
+export const fromDisplayValue = (
+  value: number,
+  quantity: Quantity,
+  preferences: UnitPreferences,
+  isDelta = false
+): number => {
+  const unit = getDisplayUnit(quantity, preferences);
+  return (value - (isDelta ? 0 : unit.offset)) / unit.scale;
+};
+
+// Round for editing so converted thresholds do not show float noise
+export const roundForDisplay = (value: number, digits = 2): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
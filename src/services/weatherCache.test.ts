@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import type { ProviderSeries } from './providers';
+
+type WeatherCache = typeof import('./weatherCache');
+
+// A fresh copy of the module, as after a page reload; the fake IndexedDB persists across copies
+const loadCache = (): WeatherCache => {
+  let cache: WeatherCache | undefined;
+  jest.isolateModules(() => {
+    cache = require('./weatherCache');
+  });
+  return cache!;
+};
+
+const makeSeries = (value: number): ProviderSeries => ({
+  latitude: 0,
+  longitude: 0,
+  utcOffsetSeconds: 0,
+  timezone: 'GMT',
+  time: [0],
+  series: { temperature_2m: [value] },
+  resolution: 'hourly',
+  forecastStartIndex: null
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('weatherCache', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Let the last batch of access times be written so nothing is left running
+  afterAll(() => wait(2100));
+
+  it('writes only access times on hits, in one batch', async () => {
+    const cache = loadCache();
+    cache.clearCache();
+    await cache.setCachedSeries('a', 'synthetic', '2024-01-01', makeSeries(1));
+    await cache.setCachedSeries('b', 'synthetic', '2024-01-01', makeSeries(2));
+    await wait(10);
+
+    const put = jest.spyOn(IDBObjectStore.prototype, 'put');
+    await cache.getCachedSeries('a');
+    await cache.getCachedSeries('b');
+    await cache.getCachedSeries('a');
+    expect(put).not.toHaveBeenCalled();
+
+    await wait(2100);
+    const written = put.mock.calls.map(([value]) => value as { key: string });
+    expect(written.map(value => value.key).sort()).toEqual(['a', 'b']);
+    written.forEach(value => expect(value).not.toHaveProperty('data'));
+  });
+
+  it('restores entries in least recently used order after a reload', async () => {
+    const first = loadCache();
+    first.clearCache();
+    await first.setCachedSeries('a', 'synthetic', '2024-01-01', makeSeries(1));
+    await wait(5);
+    await first.setCachedSeries('b', 'synthetic', '2024-01-01', makeSeries(2));
+    await wait(5);
+    await first.getCachedSeries('a');
+    await wait(2100);
+
+    const second = loadCache();
+    expect(await second.getCachedSeries('missing')).toBeNull();
+    expect(second.getStats().entries.map(entry => entry.key)).toEqual(['b', 'a']);
+  });
+
+  it('counts hits and misses', async () => {
+    const cache = loadCache();
+    cache.clearCache();
+    expect(await cache.getCachedSeries('a')).toBeNull();
+    await cache.setCachedSeries('a', 'synthetic', '2024-01-01', makeSeries(1));
+    expect(await cache.getCachedSeries('a')).toEqual(makeSeries(1));
+
+    const stats = cache.getStats();
+    expect(stats).toMatchObject({ size: 1, hits: 1, misses: 1, hitRate: 0.5, persistent: true });
+  });
+});
@@ -0,0 +1,327 @@
+import type { DataProviderId, ProviderSeries } from './providers';
+
+// Persistent weather cache backed by IndexedDB, mirrored in memory for synchronous stats.
+// Entries are kept in a Map in least-recently-used order so eviction removes from the front.
+// Access times live in their own small store so cache hits never rewrite the series payloads.
+
+const DB_NAME = 'geospatial-dashboard';
+const DB_VERSION = 3; // 2: series times are UTC epoch milliseconds; 3: separate access times
+const STORE_NAME = 'weatherCache';
+const ACCESS_STORE_NAME = 'weatherCacheAccess';
+
+// Access times from cache hits are written together after this delay
+const ACCESS_FLUSH_DELAY_MS = 2000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const CACHE_BUDGET_BYTES = 25 * 1024 * 1024; // 25 MB
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const ARCHIVE_SETTLED_DAYS = 5; // archive values are final once this old
+const ARCHIVE_RECENT_TTL_MS = HOUR_MS;
+const FORECAST_TTL_MS = 30 * 60 * 1000;
+
+interface CacheEntry {
+  key: string;
+  providerId: DataProviderId;
+  data: ProviderSeries;
+  size: number; // estimated bytes
+  createdAt: number;
+  lastAccess: number;
+  expiresAt: number | null; // null never expires
+}
+
+export interface CacheStats {
+  size: number;
+  bytes: number;
+  budgetBytes: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  expirations: number;
+  persistent: boolean;
+  entries: Array<{ key: string; providerId: DataProviderId; age: number; size: number; expiresIn: number | null }>;
+}
+
+// TTL (ms) for an entry given the last date it covers; null means never expire
+type TtlPolicy = (endDate: string, now: number) => number | null;
+
+// Entries ending before the archive has settled never change
+const isSettled = (endDate: string, now: number): boolean => {
+  const endTime = Date.parse(`${endDate}T23:59:59Z`);
+  return !isNaN(endTime) && now - endTime > ARCHIVE_SETTLED_DAYS * DAY_MS;
+};
+
+const ttlPolicies: Record<DataProviderId, TtlPolicy> = {
+  'open-meteo-archive': (endDate, now) => isSettled(endDate, now) ? null : ARCHIVE_RECENT_TTL_MS,
+  // Forecast runs update several times a day
+  'open-meteo': (endDate, now) => isSettled(endDate, now) ? null : FORECAST_TTL_MS,
+  'open-meteo-forecast': () => FORECAST_TTL_MS,
+  // Synthetic data is deterministic, so it never goes stale
+  synthetic: () => null,
+};
+
+const entries = new Map<string, CacheEntry>();
+let totalBytes = 0;
+const metrics = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let hydrated: Promise<void> | null = null;
+
+// Access times not yet written, by key
+const pendingAccess = new Map<string, number>();
+let accessFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Promisify an IndexedDB request
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Open the database once; resolves to null where IndexedDB is unavailable
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = event => {
+          const db = request.result;
+          // Entries from before version 2 have an incompatible shape; start over
+          if (event.oldVersion < 2 && db.objectStoreNames.contains(STORE_NAME)) {
+            db.deleteObjectStore(STORE_NAME);
+          }
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(ACCESS_STORE_NAME)) {
+            db.createObjectStore(ACCESS_STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('IndexedDB unavailable, weather cache is in-memory only:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('IndexedDB unavailable, weather cache is in-memory only:', error);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+};
+
+interface PersistedStores {
+  entries: IDBObjectStore;
+  access: IDBObjectStore;
+}
+
+// Run a write against the stores without blocking callers. Opening the transaction throws
+// synchronously once the database is closed (e.g. by a version change in another tab).
+const persist = (operation: (stores: PersistedStores) => void): void => {
+  openDatabase().then(db => {
+    if (!db) return;
+    try {
+      const transaction = db.transaction([STORE_NAME, ACCESS_STORE_NAME], 'readwrite');
+      transaction.onerror = () => console.warn('Failed to persist weather cache entry:', transaction.error);
+      operation({ entries: transaction.objectStore(STORE_NAME), access: transaction.objectStore(ACCESS_STORE_NAME) });
+    } catch (error) {
+      console.warn('Failed to persist weather cache entry:', error);
+    }
+  });
+};
+
+// Write the access times collected since the last flush in one transaction
+const flushAccessTimes = (): void => {
+  accessFlushTimer = null;
+  const updates = Array.from(pendingAccess.entries());
+  pendingAccess.clear();
+  if (updates.length > 0) {
+    persist(stores => updates.forEach(([key, lastAccess]) => stores.access.put({ key, lastAccess })));
+  }
+};
+
+const recordAccess = (key: string, time: number): void => {
+  pendingAccess.set(key, time);
+  if (accessFlushTimer === null) {
+    accessFlushTimer = setTimeout(flushAccessTimes, ACCESS_FLUSH_DELAY_MS);
+  }
+};
+
+const isExpired = (entry: CacheEntry, now: number): boolean => {
+  return entry.expiresAt !== null && entry.expiresAt <= now;
+};
+
+const removeEntry = (key: string): void => {
+  const entry = entries.get(key);
+  if (entry) {
+    entries.delete(key);
+    totalBytes -= entry.size;
+    pendingAccess.delete(key);
+    persist(stores => {
+      stores.entries.delete(key);
+      stores.access.delete(key);
+    });
+  }
+};
+
+// Evict least recently used entries until the cache fits its byte budget
+const enforceBudget = (): void => {
+  const iterator = entries.keys();
+  while (totalBytes > CACHE_BUDGET_BYTES && entries.size > 1) {
+    const oldest = iterator.next();
+    if (oldest.done) break;
+    removeEntry(oldest.value);
+    metrics.evictions++;
+  }
+};
+
+// Load persisted entries into memory (once), dropping anything already expired
+const hydrate = (): Promise<void> => {
+  if (!hydrated) {
+    hydrated = openDatabase().then(async db => {
+      if (!db) return;
+      try {
+        const transaction = db.transaction([STORE_NAME, ACCESS_STORE_NAME], 'readonly');
+        const [stored, accessTimes] = await Promise.all([
+          requestToPromise(transaction.objectStore(STORE_NAME).getAll() as IDBRequest<CacheEntry[]>),
+          requestToPromise(transaction.objectStore(ACCESS_STORE_NAME).getAll() as IDBRequest<Array<{ key: string; lastAccess: number }>>)
+        ]);
+        const lastAccess = new Map(accessTimes.map(access => [access.key, access.lastAccess] as [string, number]));
+        const now = Date.now();
+
+        stored
+          .map(entry => ({ ...entry, lastAccess: Math.max(entry.lastAccess, lastAccess.get(entry.key) ?? 0) }))
+          .sort((a, b) => a.lastAccess - b.lastAccess)
+          .forEach(entry => {
+            if (isExpired(entry, now)) {
+              persist(stores => {
+                stores.entries.delete(entry.key);
+                stores.access.delete(entry.key);
+              });
+              return;
+            }
+            // Entries written during hydration are newer; keep them
+            if (!entries.has(entry.key)) {
+              entries.set(entry.key, entry);
+              totalBytes += entry.size;
+            }
+          });
+
+        enforceBudget();
+        console.log(`💾 Weather cache restored ${entries.size} entries (${(totalBytes / 1024).toFixed(0)} KB)`);
+      } catch (error) {
+        console.warn('Failed to restore weather cache:', error);
+      }
+    });
+  }
+  return hydrated;
+};
+
+// Get cached series if available and still valid
+export const getCachedSeries = async (key: string): Promise<ProviderSeries | null> => {
+  await hydrate();
+  const entry = entries.get(key);
+  const now = Date.now();
+
+  if (!entry) {
+    metrics.misses++;
+    return null;
+  }
+
+  if (isExpired(entry, now)) {
+    removeEntry(key);
+    metrics.expirations++;
+    metrics.misses++;
+    return null;
+  }
+
+  // Move to the most recently used position
+  entries.delete(key);
+  entry.lastAccess = now;
+  entries.set(key, entry);
+  recordAccess(key, now);
+
+  metrics.hits++;
+  console.log('Using cached weather data for', key);
+  return entry.data;
+};
+
+// Store series with a TTL chosen by the provider's policy
+export const setCachedSeries = async (
+  key: string,
+  providerId: DataProviderId,
+  endDate: string,
+  data: ProviderSeries
+): Promise<void> => {
+  await hydrate();
+  const now = Date.now();
+  const ttl = ttlPolicies[providerId] ? ttlPolicies[providerId](endDate, now) : DEFAULT_TTL_MS;
+  const entry: CacheEntry = {
+    key,
+    providerId,
+    data,
+    size: JSON.stringify(data).length,
+    createdAt: now,
+    lastAccess: now,
+    expiresAt: ttl === null ? null : now + ttl,
+  };
+
+  if (entries.has(key)) {
+    removeEntry(key);
+  }
+  entries.set(key, entry);
+  totalBytes += entry.size;
+  persist(stores => stores.entries.put(entry));
+
+  console.log('Cached weather data for', key, ttl === null ? '(no expiry)' : `(ttl ${Math.round(ttl / 1000)}s)`);
+  enforceBudget();
+};
+
+// Remove all entries from memory and IndexedDB
+export const clearCache = (): void => {
+  entries.clear();
+  totalBytes = 0;
+  metrics.hits = 0;
+  metrics.misses = 0;
+  metrics.evictions = 0;
+  metrics.expirations = 0;
+  pendingAccess.clear();
+  persist(stores => {
+    stores.entries.clear();
+    stores.access.clear();
+  });
+};
+
+// Snapshot of cache contents and hit/miss metrics
+export const getStats = (): CacheStats => {
+  const now = Date.now();
+  const lookups = metrics.hits + metrics.misses;
+
+  return {
+    size: entries.size,
+    bytes: totalBytes,
+    budgetBytes: CACHE_BUDGET_BYTES,
+    hits: metrics.hits,
+    misses: metrics.misses,
+    hitRate: lookups > 0 ? metrics.hits / lookups : 0,
+    evictions: metrics.evictions,
+    expirations: metrics.expirations,
+    persistent: typeof indexedDB !== 'undefined',
+    entries: Array.from(entries.values()).map(entry => ({
+      key: entry.key,
+      providerId: entry.providerId,
+      age: Math.round((now - entry.createdAt) / 1000), // age in seconds
+      size: entry.size,
+      expiresIn: entry.expiresAt === null ? null : Math.round((entry.expiresAt - now) / 1000)
+    }))
+  };
+};
@@ -0,0 +1,278 @@
+import { store } from '../store';
+import { setWeatherData } from '../store/slices/dataSourceSlice';
+import type { DataSource, WeatherData } from '../store/slices/dataSourceSlice';
+import type { Polygon } from '../store/slices/polygonSlice';
+import { syntheticProvider } from './providers/syntheticProvider';
+import type { ProviderBatchRequest } from './providers/types';
+import { clearWeatherDataCache, configureRequestScheduler, fetchWeatherDataForPolygons } from './weatherService';
+import { DEFAULT_SCHEDULER_OPTIONS } from './requestScheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const POLYGON: Polygon = {
+  id: 'p1',
+  name: 'Small field',
+  points: [{ lat: 52.5, lng: 13.4 }, { lat: 52.5, lng: 13.401 }, { lat: 52.501, lng: 13.401 }],
+  dataSourceId: 'temperature',
+  color: '#3388ff'
+};
+
+const FARM: Polygon = {
+  ...POLYGON,
+  id: 'p2',
+  name: 'Farm',
+  points: [{ lat: 48.1, lng: 11.5 }, { lat: 48.1, lng: 11.501 }, { lat: 48.101, lng: 11.501 }]
+};
+
+const temperature = (): DataSource => ({
+  ...store.getState().dataSources.availableDataSources.find(ds => ds.id === 'temperature')!,
+  providerId: 'synthetic'
+});
+
+const storedSeries = (dispatch: jest.Mock): WeatherData => {
+  const action = dispatch.mock.calls.map(([dispatched]) => dispatched).find(dispatched => dispatched.type === setWeatherData.type);
+  return action.payload.data;
+};
+
+const fetchSynthetic = syntheticProvider.fetchSeriesBatch;
+
+// Hold provider calls until released, so callers can join or cancel them while they are on the wire
+const holdProviderCalls = () => {
+  const calls: Array<{ request: ProviderBatchRequest; release: () => void }> = [];
+  jest.spyOn(syntheticProvider, 'fetchSeriesBatch').mockImplementation(request => new Promise((resolve, reject) => {
+    calls.push({ request, release: () => fetchSynthetic(request).then(resolve, reject) });
+  }));
+  return calls;
+};
+
+// Let cache lookups and the scheduler run until `count` provider calls are waiting
+const waitForCalls = async (calls: unknown[], count: number): Promise<void> => {
+  for (let tick = 0; tick < 100 && calls.length < count; tick++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  expect(calls).toHaveLength(count);
+};
+
+const RANGE = [new Date('2023-06-01T00:00:00Z'), new Date('2023-06-03T00:00:00Z')] as const;
+
+describe('fetchWeatherDataForPolygons', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    clearWeatherDataCache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fetches long hourly ranges in date chunks and merges them into one series', async () => {
+    const fetchBatch = jest.spyOn(syntheticProvider, 'fetchSeriesBatch');
+    const dispatch = jest.fn();
+
+    const [result] = await fetchWeatherDataForPolygons(
+      [POLYGON], dispatch, new Date('2023-01-01T00:00:00Z'), new Date('2023-03-12T00:00:00Z'), temperature(), undefined, 'hourly'
+    );
+
+    expect(result.error).toBeNull();
+    // The range is padded by a day on both sides: 2022-12-31 to 2023-03-13 in chunks of 31 days
+    expect(fetchBatch.mock.calls.map(([request]) => [request.startDate, request.endDate, request.resolution])).toEqual([
+      ['2022-12-31', '2023-01-30', 'hourly'],
+      ['2023-01-31', '2023-03-02', 'hourly'],
+      ['2023-03-03', '2023-03-13', 'hourly']
+    ]);
+
+    const data = storedSeries(dispatch);
+    expect(data.resolution).toBe('hourly');
+    expect(data.time).toHaveLength(73 * 24);
+    expect(data.time.every((time, index) => index === 0 || time - data.time[index - 1] === DAY_MS / 24)).toBe(true);
+    expect(data.series.temperature_2m).toHaveLength(data.time.length);
+  });
+
+  it('switches to daily aggregates for ranges longer than a season', async () => {
+    const fetchBatch = jest.spyOn(syntheticProvider, 'fetchSeriesBatch');
+    const dispatch = jest.fn();
+
+    await fetchWeatherDataForPolygons(
+      [POLYGON], dispatch, new Date('2020-01-01T00:00:00Z'), new Date('2021-12-31T00:00:00Z'), temperature(), undefined, 'auto'
+    );
+
+    expect(fetchBatch.mock.calls.map(([request]) => [request.startDate, request.endDate, request.variables])).toEqual([
+      ['2019-12-31', '2020-12-30', ['temperature_2m_mean']],
+      ['2020-12-31', '2021-12-31', ['temperature_2m_mean']],
+      ['2022-01-01', '2022-01-01', ['temperature_2m_mean']]
+    ]);
+
+    const data = storedSeries(dispatch);
+    expect(data.resolution).toBe('daily');
+    expect(data.time).toHaveLength(733);
+    expect(data.series.temperature_2m).toHaveLength(733);
+  });
+
+  it('keeps hourly data for short ranges in auto mode', async () => {
+    const fetchBatch = jest.spyOn(syntheticProvider, 'fetchSeriesBatch');
+
+    await fetchWeatherDataForPolygons(
+      [POLYGON], jest.fn(), new Date('2023-06-01T00:00:00Z'), new Date('2023-06-08T00:00:00Z'), temperature(), undefined, 'auto'
+    );
+
+    expect(fetchBatch).toHaveBeenCalledTimes(1);
+    expect(fetchBatch.mock.calls[0][0]).toMatchObject({ resolution: 'hourly', variables: ['temperature_2m'] });
+  });
+
+  it('counts hours above a threshold from hourly data even when daily data is asked for', async () => {
+    const fetchBatch = jest.spyOn(syntheticProvider, 'fetchSeriesBatch');
+    const dispatch = jest.fn();
+    const hoursAbove: DataSource = { ...temperature(), aggregation: { type: 'hours_above', threshold: 20 } };
+
+    await fetchWeatherDataForPolygons(
+      [POLYGON], dispatch, new Date('2023-06-01T00:00:00Z'), new Date('2023-06-08T00:00:00Z'), hoursAbove, undefined, 'daily'
+    );
+
+    expect(fetchBatch).toHaveBeenCalledTimes(1);
+    expect(fetchBatch.mock.calls[0][0]).toMatchObject({ resolution: 'hourly', variables: ['temperature_2m'] });
+    expect(storedSeries(dispatch).resolution).toBe('hourly');
+  });
+
+  it('lets a superseding request join the one it replaces before that one is aborted', async () => {
+    const calls = holdProviderCalls();
+    const old = new AbortController();
+    const current = new AbortController();
+    const dispatch = jest.fn();
+
+    const superseded = fetchWeatherDataForPolygons([POLYGON], jest.fn(), ...RANGE, temperature(), old.signal, 'hourly')
+      .catch(error => error);
+    await waitForCalls(calls, 1);
+
+    // As the weather sync hook does: start the new request, then abort the old one in the same tick
+    const replacing = fetchWeatherDataForPolygons([POLYGON], dispatch, ...RANGE, temperature(), current.signal, 'hourly');
+    old.abort();
+
+    expect(calls[0].request.signal?.aborted).toBe(false);
+    calls[0].release();
+
+    expect(await superseded).toMatchObject({ name: 'AbortError' });
+    const [result] = await replacing;
+    expect(result.error).toBeNull();
+    expect(storedSeries(dispatch).series.temperature_2m.length).toBeGreaterThan(0);
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('shared provider requests', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    clearWeatherDataCache();
+    // Calls are held on purpose; rate limits would only hold them longer
+    configureRequestScheduler({ requestsPerSecond: 1000, burstSize: 1000 });
+  });
+
+  afterEach(() => {
+    configureRequestScheduler(DEFAULT_SCHEDULER_OPTIONS);
+    jest.restoreAllMocks();
+  });
+
+  const fetchOne = (polygon: Polygon, dispatch: jest.Mock, signal?: AbortSignal) =>
+    fetchWeatherDataForPolygons([polygon], dispatch, ...RANGE, temperature(), signal, 'hourly');
+
+  it('makes one provider call for callers asking for the same locations', async () => {
+    const fetchBatch = jest.spyOn(syntheticProvider, 'fetchSeriesBatch');
+    const first = jest.fn();
+    const second = jest.fn();
+
+    const results = await Promise.all([fetchOne(POLYGON, first), fetchOne(POLYGON, second)]);
+
+    expect(results.map(([result]) => result.error)).toEqual([null, null]);
+    expect(fetchBatch).toHaveBeenCalledTimes(1);
+    expect(storedSeries(second)).toEqual(storedSeries(first));
+  });
+
+  it('batches polygons into one call and splits the response back per polygon', async () => {
+    const fetchBatch = jest.spyOn(syntheticProvider, 'fetchSeriesBatch');
+    const dispatch = jest.fn();
+
+    await fetchWeatherDataForPolygons([POLYGON, FARM], dispatch, ...RANGE, temperature(), undefined, 'hourly');
+    expect(fetchBatch).toHaveBeenCalledTimes(1);
+    const stored = dispatch.mock.calls
+      .map(([action]) => action)
+      .filter(action => action.type === setWeatherData.type)
+      .map(action => [action.payload.polygonId, action.payload.data.series.temperature_2m]);
+
+    // Each polygon gets the series it gets when fetched alone
+    clearWeatherDataCache();
+    const alone = jest.fn();
+    await fetchOne(FARM, alone);
+    expect(fetchBatch).toHaveBeenCalledTimes(2);
+    expect(stored.find(([polygonId]) => polygonId === 'p2')?.[1]).toEqual(storedSeries(alone).series.temperature_2m);
+    expect(stored.find(([polygonId]) => polygonId === 'p1')?.[1]).not.toEqual(storedSeries(alone).series.temperature_2m);
+  });
+
+  it('keeps a shared call going while one of its callers is still waiting', async () => {
+    const calls = holdProviderCalls();
+    const cancelled = new AbortController();
+    const waiting = jest.fn();
+
+    const first = fetchOne(POLYGON, jest.fn(), cancelled.signal).catch(error => error);
+    const second = fetchOne(POLYGON, waiting, new AbortController().signal);
+    await waitForCalls(calls, 1);
+    cancelled.abort();
+
+    expect(calls[0].request.signal?.aborted).toBe(false);
+    calls[0].release();
+    expect(await first).toMatchObject({ name: 'AbortError' });
+    expect((await second)[0].error).toBeNull();
+    expect(storedSeries(waiting).time.length).toBeGreaterThan(0);
+  });
+
+  it('cancels a shared call once every caller is cancelled', async () => {
+    const calls = holdProviderCalls();
+    const controllers = [new AbortController(), new AbortController()];
+
+    const outcomes = controllers.map(controller => fetchOne(POLYGON, jest.fn(), controller.signal).catch(error => error));
+    await waitForCalls(calls, 1);
+    controllers.forEach(controller => controller.abort());
+
+    expect(calls[0].request.signal?.aborted).toBe(true);
+    expect(await Promise.all(outcomes)).toEqual([
+      expect.objectContaining({ name: 'AbortError' }),
+      expect.objectContaining({ name: 'AbortError' })
+    ]);
+  });
+
+  it('requests the locations of a cancelled call again for a later caller', async () => {
+    const calls = holdProviderCalls();
+    const cancelled = new AbortController();
+
+    const first = fetchOne(POLYGON, jest.fn(), cancelled.signal).catch(error => error);
+    await waitForCalls(calls, 1);
+    cancelled.abort();
+
+    const dispatch = jest.fn();
+    const later = fetchOne(POLYGON, dispatch, new AbortController().signal);
+    await waitForCalls(calls, 2);
+    expect(calls[1].request.signal?.aborted).toBe(false);
+    calls[1].release();
+
+    expect(await first).toMatchObject({ name: 'AbortError' });
+    expect((await later)[0].error).toBeNull();
+    expect(storedSeries(dispatch).time.length).toBeGreaterThan(0);
+  });
+
+  it('neither starts nor keeps alive a call for a caller that is already cancelled', async () => {
+    const calls = holdProviderCalls();
+    const cancelled = new AbortController();
+    cancelled.abort();
+
+    const outcome = await fetchOne(POLYGON, jest.fn(), cancelled.signal).catch(error => error);
+    expect(outcome).toMatchObject({ name: 'AbortError' });
+    expect(calls).toHaveLength(0);
+
+    // A live caller followed by an already cancelled one: the call ends when the live caller cancels
+    const live = new AbortController();
+    const first = fetchOne(POLYGON, jest.fn(), live.signal).catch(error => error);
+    await waitForCalls(calls, 1);
+    await fetchOne(POLYGON, jest.fn(), cancelled.signal).catch(error => error);
+    live.abort();
+    expect(calls[0].request.signal?.aborted).toBe(true);
+    expect(await first).toMatchObject({ name: 'AbortError' });
+  });
+});
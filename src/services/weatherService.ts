@@ -1,89 +1,99 @@
 import axios from 'axios';
 import { Dispatch } from '@reduxjs/toolkit';
-import { setWeatherData, setLoading, setError } from '../store/slices/dataSourceSlice';
+import { setWeatherData, setPolygonRetry, clearPolygonRetry } from '../store/slices/dataSourceSlice';
 import { updatePolygonColor } from '../store/slices/polygonSlice';
 import type { Polygon } from '../store/slices/polygonSlice';
-import type { WeatherData, ColorRule } from '../store/slices/dataSourceSlice';
+import type { ResolutionMode } from '../store/slices/timelineSlice';
+import type { WeatherData, DataSource } from '../store/slices/dataSourceSlice';
+import { generateSamplePoints, combineWeightedSeries, getSamplesCenter, getDistanceKm } from './polygonSampling';
+import type { SamplePoint } from './polygonSampling';
+import { DEFAULT_AGGREGATION } from './aggregation';
+import { UNITS, isCircularQuantity } from './units';
+import { getRequiredFields, deriveSeries, supportsDailyResolution } from './derivedSources';
+import { summarizeGridDistance } from './dataQuality';
+import { evaluatePolygons } from './colorWorkerClient';
+import type { PolygonEvaluation } from './colorEvaluation';
+import { getColoringSource, groupPolygonsBySource } from './polygonSources';
+import { isAnomalyEnabled, getBaselineProviderId, getBaselineWindows, buildBaselineSeries } from './baseline';
+import { withFixtures, getFixtureMode } from './fixtures';
+import { getNow } from './clock';
+import { getDataProvider, stitchSeries, MAX_FORECAST_DAYS } from './providers';
+import type { DataProviderId, ProviderBatchRequest, ProviderSegment, ProviderSeries, SeriesResolution } from './providers';
+import { getCachedSeries, setCachedSeries, clearCache, getStats } from './weatherCache';
+import type { CacheStats } from './weatherCache';
+import { createRequestScheduler, createAbortError, isAbortError } from './requestScheduler';
+import type { RetryInfo, SchedulerOptions } from './requestScheduler';
 
-const OPEN_METEO_BASE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+// Source used when none is provided
+const DEFAULT_DATA_SOURCE: DataSource = {
+  id: 'temperature',
+  name: 'Temperature (2m)',
+  field: 'temperature_2m',
+  quantity: 'temperature',
+  icon: '🌡️',
+  providerId: 'open-meteo',
+  colorRules: [],
+  aggregation: DEFAULT_AGGREGATION,
+  isActive: true,
+};
 
-// Cache configuration
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
-const weatherDataCache = new Map<string, { data: OpenMeteoResponse; timestamp: number }>();
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-interface OpenMeteoResponse {
-  latitude: number;
-  longitude: number;
-  hourly: {
-    time: string[];
-    temperature_2m: number[];
-  };
-}
+// Longest range accepted at all; longer ranges are fetched in chunks
+const MAX_RANGE_YEARS = 10;
 
-// Generate cache key for weather data
-const generateCacheKey = (
-  latitude: number, 
-  longitude: number, 
-  startDate: string, 
-  endDate: string
-): string => {
-  return `${latitude.toFixed(4)}_${longitude.toFixed(4)}_${startDate}_${endDate}`;
+// Days per provider call, keeping each payload a reasonable size
+const CHUNK_DAYS: Record<SeriesResolution, number> = {
+  hourly: 31,
+  daily: 366,
 };
 
-// Check if cached data is still valid
-const isCacheValid = (timestamp: number): boolean => {
-  return Date.now() - timestamp < CACHE_DURATION;
+// In 'auto' mode, ranges longer than this use daily aggregates
+const DAILY_RESOLUTION_THRESHOLD_DAYS = 92;
+
+// Paces provider calls and retries transient failures
+let requestScheduler = createRequestScheduler();
+
+// Replace the scheduler, e.g. to tighten limits when testing against a stub server
+export const configureRequestScheduler = (options: Partial<SchedulerOptions>): void => {
+  requestScheduler = createRequestScheduler(options);
 };
 
-// Get cached weather data if available and valid
-const getCachedWeatherData = (
-  latitude: number, 
-  longitude: number, 
-  startDate: string, 
-  endDate: string
-): OpenMeteoResponse | null => {
-  const cacheKey = generateCacheKey(latitude, longitude, startDate, endDate);
-  const cached = weatherDataCache.get(cacheKey);
-  
-  if (cached && isCacheValid(cached.timestamp)) {
-    console.log('Using cached weather data for', cacheKey);
-    return cached.data;
+// A provider batch shared by every caller waiting on one of its locations.
+// It is only aborted once all of those callers have been cancelled.
+interface SharedBatch {
+  controller: AbortController;
+  refs: number;
+}
+
+// Requests currently on the wire, keyed like the cache so concurrent callers share one promise
+const inFlightRequests = new Map<string, { promise: Promise<ProviderSeries>; batch: SharedBatch }>();
+
+// Settle with the promise, or reject as soon as the caller's signal aborts
+const withAbortSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return promise;
   }
-  
-  // Remove expired cache entry
-  if (cached) {
-    weatherDataCache.delete(cacheKey);
+  if (signal.aborted) {
+    return Promise.reject(createAbortError());
   }
-  
-  return null;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
 };
 
-// Cache weather data
-const cacheWeatherData = (
+// Generate cache key for weather data
+const generateCacheKey = (
+  providerId: DataProviderId,
   latitude: number, 
   longitude: number, 
   startDate: string, 
-  endDate: string, 
-  data: OpenMeteoResponse
-): void => {
-  const cacheKey = generateCacheKey(latitude, longitude, startDate, endDate);
-  weatherDataCache.set(cacheKey, {
-    data,
-    timestamp: Date.now()
-  });
-  
-  console.log('Cached weather data for', cacheKey);
-  
-  // Clean up old cache entries (keep only last 50 entries)
-  if (weatherDataCache.size > 50) {
-    const entries = Array.from(weatherDataCache.entries());
-    entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-    
-    // Remove oldest 10 entries
-    for (let i = 0; i < 10; i++) {
-      weatherDataCache.delete(entries[i][0]);
-    }
-  }
+  endDate: string,
+  fields: string[]
+): string => {
+  return `${providerId}_${latitude.toFixed(4)}_${longitude.toFixed(4)}_${startDate}_${endDate}_${fields.join('+')}`;
 };
 
 // Calculate polygon centroid
@@ -107,14 +117,25 @@ const formatDateForAPI = (date: Date): string => {
   return date.toISOString().split('T')[0];
 };
 
-// Validate date range for Open-Meteo API (max 30 days for archive data)
-const validateDateRange = (startDate: Date, endDate: Date): { isValid: boolean; adjustedStart?: Date; adjustedEnd?: Date; message?: string } => {
-  const now = new Date();
-  const maxRangeDays = 30;
+// Validate date range for Open-Meteo API (future hours only when the provider forecasts)
+const validateDateRange = (startDate: Date, endDate: Date, allowForecast: boolean): { isValid: boolean; adjustedStart?: Date; adjustedEnd?: Date; message?: string } => {
+  const now = new Date(getNow());
+  const maxRangeDays = MAX_RANGE_YEARS * 366;
   const rangeDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000));
 
+  // Forecasts only reach a limited horizon
+  const forecastHorizon = new Date(now.getTime() + (MAX_FORECAST_DAYS - 1) * 24 * 60 * 60 * 1000);
+  if (allowForecast && endDate > forecastHorizon) {
+    return {
+      isValid: false,
+      adjustedStart: startDate < forecastHorizon ? startDate : now,
+      adjustedEnd: forecastHorizon,
+      message: `End date beyond the ${MAX_FORECAST_DAYS}-day forecast horizon. Adjusted to fit.`
+    };
+  }
+
   // Check if dates are too far in the future
-  if (startDate > now) {
+  if (!allowForecast && startDate > now) {
     return {
       isValid: false,
       adjustedStart: new Date(now.getTime() - 24 * 60 * 60 * 1000),
@@ -123,13 +144,22 @@ const validateDateRange = (startDate: Date, endDate: Date): { isValid: boolean;
     };
   }
 
+  if (!allowForecast && endDate > now) {
+    return {
+      isValid: false,
+      adjustedStart: startDate,
+      adjustedEnd: now,
+      message: 'End date cannot be in the future for this provider. Adjusted to now.'
+    };
+  }
+
   // Check if range is too large
   if (rangeDays > maxRangeDays) {
     return {
       isValid: false,
       adjustedStart: new Date(endDate.getTime() - maxRangeDays * 24 * 60 * 60 * 1000),
       adjustedEnd: endDate,
-      message: `Date range too large (${rangeDays} days). Maximum is ${maxRangeDays} days. Adjusted range to fit.`
+      message: `Date range too large (${rangeDays} days). Maximum is ${MAX_RANGE_YEARS} years. Adjusted range to fit.`
     };
   }
 
@@ -147,296 +177,581 @@ const validateDateRange = (startDate: Date, endDate: Date): { isValid: boolean;
   return { isValid: true };
 };
 
-// Apply color rules to determine polygon color
-export const applyColorRules = (value: number, colorRules: ColorRule[]): string => {
-  console.log(`🔍 Applying color rules:`, { value, rulesCount: colorRules?.length });
-  
-  if (!colorRules || colorRules.length === 0) {
-    console.log(`⚪ No color rules, using default color`);
-    return '#3388ff'; // Default color
+// The numeric pipeline lives in colorEvaluation so the color worker can run it
+export { calculateAggregateValue } from './colorEvaluation';
+export { applyColorRules } from './colorRules';
+
+// Provider dates are local to each location, so pad the UTC range by a day on both sides
+// (within what the provider can serve); aggregation then selects the exact instants.
+const getRequestDates = (startDate: Date, endDate: Date, allowForecast: boolean): { startDateStr: string; endDateStr: string } => {
+  const latestDay = getNow() + (allowForecast ? MAX_FORECAST_DAYS - 1 : 0) * DAY_MS;
+  return {
+    startDateStr: formatDateForAPI(new Date(startDate.getTime() - DAY_MS)),
+    endDateStr: formatDateForAPI(new Date(Math.min(endDate.getTime() + DAY_MS, latestDay)))
+  };
+};
+
+// Split a segment into consecutive chunks of at most `days` days
+const splitIntoChunks = (segment: ProviderSegment, days: number): ProviderSegment[] => {
+  const chunks: ProviderSegment[] = [];
+  const end = Date.parse(`${segment.endDate}T00:00:00Z`);
+  let start = Date.parse(`${segment.startDate}T00:00:00Z`);
+
+  while (start <= end) {
+    const chunkEnd = Math.min(end, start + (days - 1) * DAY_MS);
+    chunks.push({
+      provider: segment.provider,
+      startDate: formatDateForAPI(new Date(start)),
+      endDate: formatDateForAPI(new Date(chunkEnd))
+    });
+    start = chunkEnd + DAY_MS;
   }
 
-  // Sort rules by value to apply them in order (ascending)
-  const sortedRules = [...colorRules].sort((a, b) => a.value - b.value);
-  console.log(`📊 Sorted rules:`, sortedRules.map(r => `${r.operator} ${r.value} = ${r.color}`));
-  
-  // Apply rules in order - last matching rule wins
-  let matchedColor = '#3388ff'; // Default color
+  return chunks;
+};
+
+// Hourly unless the source has daily aggregates and the range is long (or daily is forced)
+const resolveResolution = (
+  mode: ResolutionMode,
+  startDate: Date,
+  endDate: Date,
+  dataSource: DataSource
+): SeriesResolution => {
+  if (!supportsDailyResolution(dataSource) || mode === 'hourly') {
+    return 'hourly';
+  }
+  if (mode === 'daily') {
+    return 'daily';
+  }
+  return (endDate.getTime() - startDate.getTime()) / DAY_MS > DAILY_RESOLUTION_THRESHOLD_DAYS ? 'daily' : 'hourly';
+};
+
+// Fetch hourly or daily data for many coordinates from a provider (with caching).
+// Uncached locations for the same range and fields are grouped into chunked multi-location calls,
+// long ranges are split into date chunks that are merged back into one series per location,
+// and every location is registered as in-flight so concurrent callers share the same promise.
+const fetchPointsData = (
+  providerId: DataProviderId,
+  points: Array<{ lat: number; lng: number }>,
+  startDateStr: string,
+  endDateStr: string,
+  fields: string[],
+  resolution: SeriesResolution,
+  onRetry?: (keys: string[], info: RetryInfo) => void,
+  signal?: AbortSignal
+): Array<Promise<ProviderSeries>> => {
+  // A caller that is already cancelled must not start or keep alive any batch
+  if (signal?.aborted) {
+    return points.map(() => Promise.reject(createAbortError()));
+  }
+
+  const provider = getDataProvider(providerId);
+  const keys = points.map(point => 
+    generateCacheKey(providerId, point.lat, point.lng, startDateStr, endDateStr, fields)
+  );
   
-  for (const rule of sortedRules) {
-    let matches = false;
-    
-    switch (rule.operator) {
-      case '<':
-        matches = value < rule.value;
-        break;
-      case '<=':
-        matches = value <= rule.value;
-        break;
-      case '=':
-        matches = Math.abs(value - rule.value) < 0.1;
-        break;
-      case '>=':
-        matches = value >= rule.value;
-        break;
-      case '>':
-        matches = value > rule.value;
-        break;
+  // Locations not already on the wire, deduplicated by cache key; a batch that was aborted is
+  // settling with an AbortError, so its locations are requested again
+  const pending = new Map<string, { latitude: number; longitude: number }>();
+  keys.forEach((key, index) => {
+    const entry = inFlightRequests.get(key);
+    if ((!entry || entry.batch.controller.signal.aborted) && !pending.has(key)) {
+      pending.set(key, { latitude: points[index].lat, longitude: points[index].lng });
     }
+  });
+
+  if (pending.size > 0) {
+    const pendingKeys = Array.from(pending.keys());
+    const shared: SharedBatch = { controller: new AbortController(), refs: 0 };
     
-    console.log(`🔄 Rule ${rule.operator} ${rule.value}: ${value} ${rule.operator} ${rule.value} = ${matches} -> ${matches ? rule.color : 'no change'}`);
+    const batch = (async () => {
+      const results = new Map<string, ProviderSeries>();
+      // Recording and replaying bypass the cache so every provider call is seen
+      const useCache = getFixtureMode() === 'off';
+      const cached = await Promise.all(pendingKeys.map(key => useCache ? getCachedSeries(key) : Promise.resolve(null)));
+      const misses: string[] = [];
+      
+      pendingKeys.forEach((key, index) => {
+        const hit = cached[index];
+        if (hit) {
+          results.set(key, hit);
+        } else {
+          misses.push(key);
+        }
+      });
+      
+      const chunks: string[][] = [];
+      for (let i = 0; i < misses.length; i += provider.maxLocationsPerRequest) {
+        chunks.push(misses.slice(i, i + provider.maxLocationsPerRequest));
+      }
+      
+      // Composite providers (archive + forecast) are fetched per segment, long segments in date chunks
+      const wholeRange: ProviderSegment[] = provider.getSegments
+        ? provider.getSegments(startDateStr, endDateStr)
+        : [{ provider, startDate: startDateStr, endDate: endDateStr }];
+      const segments = ([] as ProviderSegment[]).concat(
+        ...wholeRange.map(segment => splitIntoChunks(segment, CHUNK_DAYS[resolution]))
+      );
+      
+      if (chunks.length > 0) {
+        console.log(`📦 Fetching ${misses.length} location(s) in ${chunks.length} batch(es) x ${segments.length} ${resolution} date chunk(s) from ${wholeRange.map(s => s.provider.name).join(' + ')}`);
+      }
+      
+      await Promise.all(chunks.map(async chunk => {
+        // Segments are scheduled separately so a retry only repeats the one that failed
+        const segmentResults = await Promise.all(segments.map(segment => {
+          const request: ProviderBatchRequest = {
+            locations: chunk.map(key => pending.get(key)!),
+            variables: fields,
+            startDate: segment.startDate,
+            endDate: segment.endDate,
+            resolution,
+            signal: shared.controller.signal
+          };
+          return requestScheduler.schedule(
+            () => withFixtures(segment.provider.id, request, () => segment.provider.fetchSeriesBatch(request)),
+            { onRetry: info => onRetry?.(chunk, info), signal: shared.controller.signal }
+          );
+        }));
+        
+        // Split the responses back per location, stitch segments and cache each one
+        await Promise.all(chunk.map((key, index) => {
+          const series = stitchSeries(segmentResults.map(result => result[index]), fields);
+          results.set(key, series);
+          return useCache ? setCachedSeries(key, providerId, endDateStr, series) : undefined;
+        }));
+      }));
+      
+      return results;
+    })();
     
-    if (matches) {
-      matchedColor = rule.color;
-    }
+    pendingKeys.forEach(key => {
+      const promise = batch.then(results => results.get(key)!);
+      const entry = { promise, batch: shared };
+      inFlightRequests.set(key, entry);
+      // Avoid unhandled rejections for keys nobody awaits; callers still see the error
+      promise.catch(() => undefined).finally(() => {
+        if (inFlightRequests.get(key) === entry) {
+          inFlightRequests.delete(key);
+        }
+      });
+    });
+  } else if (keys.length > 0) {
+    console.log('Joining in-flight request(s) for', keys.length, 'location(s)');
   }
+
+  const entries = keys.map(key => inFlightRequests.get(key)!);
   
-  console.log(`🎨 Final color: ${matchedColor}`);
-  return matchedColor;
+  // Each reference keeps its batch alive until this caller is cancelled
+  if (signal) {
+    entries.forEach(entry => {
+      entry.batch.refs++;
+      signal.addEventListener('abort', () => {
+        entry.batch.refs--;
+        if (entry.batch.refs === 0) {
+          entry.batch.controller.abort();
+        }
+      }, { once: true });
+    });
+  } else {
+    // Callers without a signal pin the batch for good
+    entries.forEach(entry => {
+      entry.batch.refs = Infinity;
+    });
+  }
+
+  return entries.map(entry => withAbortSignal(entry.promise, signal));
 };
 
-// Calculate average value for time range
-export const calculateAverageValue = (
-  data: number[], 
-  timeArray: string[], 
-  startTime: Date, 
-  endTime: Date
-): number => {
-  const values: number[] = [];
+// Resolve the selected time range into the validated range used for requests
+const resolveDateRange = (selectedStartTime: Date | undefined, selectedEndTime: Date | undefined, allowForecast: boolean): { startDate: Date; endDate: Date } => {
+  // Default to last 7 days if no time range provided (better data availability)
+  const endDate = selectedEndTime || new Date(getNow() - 24 * 60 * 60 * 1000); // Yesterday
+  const startDate = selectedStartTime || new Date(endDate.getTime() - 7 * 24 * 60 * 60 * 1000); // 7 days before yesterday
   
-  console.log('🔢 Calculating average for:', {
-    dataLength: data.length,
-    timeArrayLength: timeArray.length,
-    startTime: startTime.toISOString(),
-    endTime: endTime.toISOString(),
-    sampleData: data.slice(0, 5),
-    sampleTimes: timeArray.slice(0, 5)
-  });
+  // Validate and adjust date range if necessary
+  const validation = validateDateRange(startDate, endDate, allowForecast);
   
-  timeArray.forEach((timeStr, index) => {
-    const time = new Date(timeStr);
-    if (time >= startTime && time <= endTime && data[index] !== null && data[index] !== undefined) {
-      values.push(data[index]);
-    }
-  });
+  if (!validation.isValid && validation.message) {
+    console.warn('Date range adjusted:', validation.message);
+  }
   
-  console.log('📊 Values found in time range:', values.length, 'values:', values.slice(0, 5));
+  return {
+    startDate: validation.adjustedStart || startDate,
+    endDate: validation.adjustedEnd || endDate
+  };
+};
+
+// Map a fetch error to a user-facing message
+const getErrorMessage = (error: unknown): string => {
+  let errorMessage = 'Failed to fetch weather data';
   
-  if (values.length === 0) {
-    console.warn('⚠️ No values found in time range, using most recent data');
-    // If no values in time range, use the most recent available data
-    const validData = data.filter(val => val !== null && val !== undefined);
-    if (validData.length > 0) {
-      const recent = validData[validData.length - 1];
-      console.log('🔄 Using most recent value:', recent);
-      return recent;
+  if (axios.isAxiosError(error)) {
+    if (error.response?.status === 429) {
+      errorMessage = 'API rate limit exceeded. Please try again later.';
+    } else if (error.response?.status && error.response.status >= 500) {
+      errorMessage = 'Weather service temporarily unavailable.';
+    } else if (error.code === 'ECONNABORTED') {
+      errorMessage = 'Request timeout. Please check your connection.';
+    } else if (error.response?.data?.reason) {
+      errorMessage = `API Error: ${error.response.data.reason}`;
+    } else if (!error.response) {
+      errorMessage = 'Weather service unreachable. Please check your connection.';
     }
-    return 0;
+  } else if (error instanceof Error) {
+    errorMessage = error.message;
+  }
+  
+  return errorMessage;
+};
+
+// Samples of one polygon for a previous year's window, combined into its baseline
+interface BaselineRequest {
+  yearsBack: number;
+  providerId: DataProviderId;
+  promises: Array<Promise<ProviderSeries>>;
+}
+
+// Derive each sample's series from its raw fields, then combine samples into one area-weighted
+// series for the source's field at either resolution
+const combineSampleSeries = (
+  responses: ProviderSeries[],
+  samples: SamplePoint[],
+  resolution: SeriesResolution,
+  dataSource: DataSource,
+  providerId: DataProviderId
+): { time: number[]; values: Array<number | null> } => {
+  const requestFields = getRequiredFields(dataSource, resolution);
+  const scale = resolution === 'daily' ? dataSource.dailyScale ?? 1 : 1;
+  const time = responses[0]?.time;
+  
+  const missingField = requestFields.find(requestField => !responses.every(data => Array.isArray(data.series[requestField])));
+  if (!time || missingField) {
+    throw new Error(`Invalid response format from ${getDataProvider(providerId).name} (missing ${missingField || 'time'})`);
   }
   
-  const average = values.reduce((sum, val) => sum + val, 0) / values.length;
-  console.log('🌡️ Calculated average temperature:', average.toFixed(2) + '°C');
-  return average;
+  const values = combineWeightedSeries(responses.map((data, index) => ({
+    values: deriveSeries(dataSource, resolution, data.series),
+    weight: samples[index].weight
+  })), isCircularQuantity(dataSource.quantity)).map(value => value === null ? value : value * scale);
+  return { time, values };
 };
 
+// Combine a polygon's sample series (and baseline years, if any) and store them
+const storePolygonSeries = async (
+  polygon: Polygon,
+  dispatch: Dispatch,
+  samples: SamplePoint[],
+  samplePromises: Array<Promise<ProviderSeries>>,
+  resolution: SeriesResolution,
+  dataSource: DataSource,
+  signal?: AbortSignal,
+  baselineRequests: BaselineRequest[] = []
+): Promise<WeatherData> => {
+  const field = dataSource.field;
+  const providerId = getDataProvider(dataSource.providerId).id;
+
+  const [responses, baselineResponses] = await Promise.all([
+    Promise.all(samplePromises),
+    Promise.all(baselineRequests.map(request => Promise.all(request.promises)))
+  ]);
+  
+  // A newer request superseded this one; its results must not overwrite fresher colors
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+  
+  const { time, values: fieldSeries } = combineSampleSeries(responses, samples, resolution, dataSource, providerId);
+  const baseline = baselineRequests.length > 0
+    ? buildBaselineSeries(time, resolution, baselineRequests.map((request, index) => ({
+      yearsBack: request.yearsBack,
+      ...combineSampleSeries(baselineResponses[index], samples, resolution, dataSource, request.providerId)
+    })), isCircularQuantity(dataSource.quantity))
+    : undefined;
+  const center = getSamplesCenter(samples);
+  
+  // Providers answer with their nearest grid cell, which can be far from a sample in coarse models
+  const gridDistance = summarizeGridDistance(responses.map((data, index) => getDistanceKm(
+    { lat: samples[index].lat, lng: samples[index].lng },
+    { lat: data.latitude, lng: data.longitude }
+  )));
+  
+  const weatherData: WeatherData = {
+    latitude: center.lat,
+    longitude: center.lng,
+    time,
+    series: { [field]: fieldSeries },
+    resolution,
+    utcOffsetSeconds: responses[0].utcOffsetSeconds,
+    timezone: responses[0].timezone,
+    sampleCount: samples.length,
+    gridDistance,
+    baseline,
+    forecastStartIndex: responses[0].forecastStartIndex
+  };
+  
+  dispatch(setWeatherData({ polygonId: polygon.id, data: weatherData }));
+  return weatherData;
+};
+
+// Aggregate stored series over the range and apply color rules for all polygons of a source in one
+// batch, in the color worker when available. Polygons with their own rules get a batch each, so a
+// ramp or classes are fitted to the source's polygons only.
+const colorPolygons = async (
+  entries: Array<{ polygon: Polygon; data: WeatherData }>,
+  dispatch: Dispatch,
+  startDate: Date,
+  endDate: Date,
+  dataSource: DataSource,
+  signal?: AbortSignal
+): Promise<void> => {
+  const withSeries = entries.filter(({ data }) => Array.isArray(data.series[dataSource.field]));
+  if (withSeries.length === 0) {
+    return;
+  }
+  const anomaly = isAnomalyEnabled(dataSource);
+
+  const batches = [withSeries.filter(({ polygon }) => !polygon.colorRules)]
+    .concat(withSeries.filter(({ polygon }) => polygon.colorRules).map(entry => [entry]))
+    .filter(batch => batch.length > 0);
+  const batchResults = await Promise.all(batches.map(batch => {
+    const coloring = getColoringSource(batch[0].polygon, dataSource);
+    return evaluatePolygons(
+      batch.map(({ polygon, data }) => ({
+        polygonId: polygon.id,
+        series: {
+          values: data.series[dataSource.field],
+          time: data.time,
+          resolution: data.resolution,
+          gridDistance: data.gridDistance,
+          baseline: anomaly ? data.baseline?.values : undefined
+        }
+      })),
+      startDate,
+      endDate,
+      dataSource.aggregation,
+      coloring.colorRules,
+      anomaly,
+      coloring.fallbackColor,
+      coloring.styling,
+      isCircularQuantity(dataSource.quantity)
+    );
+  }));
+  const results = ([] as PolygonEvaluation[]).concat(...batchResults);
+  
+  // A newer request superseded this one; its colors are stale
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  const sampleCounts = new Map(withSeries.map(({ polygon, data }) => [polygon.id, data.sampleCount] as [string, number]));
+  results.forEach(result => {
+    dispatch(updatePolygonColor({
+      id: result.polygonId,
+      color: result.color,
+      value: result.value,
+      sampleCount: sampleCounts.get(result.polygonId),
+      quality: result.quality,
+      anomaly: result.anomaly
+    }));
+  });
+
+  const unit = UNITS[dataSource.quantity][0].symbol;
+  console.log(`🎨 Colored ${results.length} polygon(s) by ${dataSource.aggregation.type} of ${dataSource.field}:`, results.map(result =>
+    `${result.value === null ? 'no data' : `${result.value.toFixed(1)}${unit}`} -> ${result.color}${result.quality.sufficient ? '' : ' (insufficient data)'}`
+  ));
+};
+
+// Outcome of a fetch for one polygon; error is a user-facing message
+export interface PolygonFetchResult {
+  polygonId: string;
+  error: string | null;
+}
+
 // Fetch weather data for a polygon (with caching)
 export const fetchWeatherData = async (
   polygon: Polygon, 
   dispatch: Dispatch,
   selectedStartTime?: Date,
   selectedEndTime?: Date,
-  colorRules?: ColorRule[]
-): Promise<void> => {
+  dataSource?: DataSource,
+  signal?: AbortSignal,
+  resolutionMode: ResolutionMode = 'auto'
+): Promise<PolygonFetchResult> => {
+  const [result] = await fetchWeatherDataForPolygons([polygon], dispatch, selectedStartTime, selectedEndTime, dataSource, signal, resolutionMode);
+  return result;
+};
+
+// Fetch weather data for multiple polygons, batching all their sample points together.
+// Resolves with one result per polygon so a failure only affects the polygons it belongs to;
+// rejects only when the caller's signal aborts.
+export const fetchWeatherDataForPolygons = async (
+  polygons: Polygon[],
+  dispatch: Dispatch,
+  selectedStartTime?: Date,
+  selectedEndTime?: Date,
+  dataSource: DataSource = DEFAULT_DATA_SOURCE,
+  signal?: AbortSignal,
+  resolutionMode: ResolutionMode = 'auto'
+): Promise<PolygonFetchResult[]> => {
+  if (polygons.length === 0) {
+    return [];
+  }
+
+  const provider = getDataProvider(dataSource.providerId);
+  const providerId = provider.id;
+  
+  // Failures before any request (e.g. a source that cannot be computed) apply to every polygon
+  const failAll = (error: unknown): PolygonFetchResult[] => {
+    console.error('Error fetching weather data:', error);
+    const message = getErrorMessage(error);
+    return polygons.map(polygon => ({ polygonId: polygon.id, error: message }));
+  };
+  
+  let startDate: Date;
+  let endDate: Date;
+  let startDateStr: string;
+  let endDateStr: string;
+  let resolution: SeriesResolution;
+  let fields: string[];
+  // Nothing is awaited before the provider requests are made, so a superseding caller joins the
+  // requests it shares with the one it replaces before that one is aborted; callers load replayed
+  // fixtures (which set the clock) first with prepareFixtures()
   try {
-    dispatch(setLoading(true));
-    dispatch(setError(null));
-    
-    const centroid = getPolygonCentroid(polygon.points);
-    
-    // Default to last 7 days if no time range provided (better data availability)
-    const endDate = selectedEndTime || new Date(Date.now() - 24 * 60 * 60 * 1000); // Yesterday
-    const startDate = selectedStartTime || new Date(endDate.getTime() - 7 * 24 * 60 * 60 * 1000); // 7 days before yesterday
-    
-    console.log('📅 Using date range:', {
-      startDate: startDate.toISOString(),
-      endDate: endDate.toISOString(),
-      isCustomRange: !!(selectedStartTime && selectedEndTime)
+    ({ startDate, endDate } = resolveDateRange(selectedStartTime, selectedEndTime, provider.supportsForecast));
+    ({ startDateStr, endDateStr } = getRequestDates(startDate, endDate, provider.supportsForecast));
+    resolution = resolveResolution(resolutionMode, startDate, endDate, dataSource);
+    fields = getRequiredFields(dataSource, resolution);
+  } catch (error) {
+    return failAll(error);
+  }
+  
+  console.log('📅 Using date range:', {
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    resolution,
+    fields,
+    isCustomRange: !!(selectedStartTime && selectedEndTime)
+  });
+  
+  // Sample the whole polygon area rather than a single vertex-average point
+  const polygonSamples = polygons.map(polygon => generateSamplePoints(polygon.points));
+  const allSamples = ([] as SamplePoint[]).concat(...polygonSamples);
+  console.log(`📍 Sampling ${polygons.length} polygon(s) at ${allSamples.length} point(s)`);
+  
+  // Surface retries on every polygon that owns a sample in the retried chunk
+  const polygonIdsByKey = new Map<string, string[]>();
+  polygonSamples.forEach((samples, index) => {
+    samples.forEach(sample => {
+      const key = generateCacheKey(providerId, sample.lat, sample.lng, startDateStr, endDateStr, fields);
+      polygonIdsByKey.set(key, [...(polygonIdsByKey.get(key) || []), polygons[index].id]);
     });
-    
-    // Validate and adjust date range if necessary
-    const validation = validateDateRange(startDate, endDate);
-    const actualStartDate = validation.adjustedStart || startDate;
-    const actualEndDate = validation.adjustedEnd || endDate;
-    
-    if (!validation.isValid && validation.message) {
-      console.warn('Date range adjusted:', validation.message);
-    }
-    
-    const startDateStr = formatDateForAPI(actualStartDate);
-    const endDateStr = formatDateForAPI(actualEndDate);
-    
-    // Check cache first
-    let data = getCachedWeatherData(
-      parseFloat(centroid.lat.toFixed(4)), 
-      parseFloat(centroid.lng.toFixed(4)), 
-      startDateStr, 
-      endDateStr
-    );
-    
-    // Fetch from API if not cached
-    if (!data) {
-      const params = {
-        latitude: centroid.lat.toFixed(4),
-        longitude: centroid.lng.toFixed(4),
-        start_date: startDateStr,
-        end_date: endDateStr,
-        hourly: 'temperature_2m',
-        timezone: 'auto'
-      };
-      
-      console.log('Fetching weather data from API:', params);
-      
-      const response = await axios.get<OpenMeteoResponse>(OPEN_METEO_BASE_URL, { 
-        params,
-        timeout: 10000 // 10 second timeout
-      });
-      data = response.data;
-      
-      // Cache the response
-      cacheWeatherData(
-        parseFloat(centroid.lat.toFixed(4)), 
-        parseFloat(centroid.lng.toFixed(4)), 
-        startDateStr, 
-        endDateStr, 
-        data
-      );
-    }
-    
-    if (data.hourly && data.hourly.temperature_2m && data.hourly.time) {
-      const weatherData: WeatherData = {
-        latitude: data.latitude,
-        longitude: data.longitude,
-        time: data.hourly.time,
-        temperature_2m: data.hourly.temperature_2m
+  });
+  const handleRetry = (keys: string[], info: RetryInfo) => {
+    const polygonIds = new Set<string>();
+    keys.forEach(key => (polygonIdsByKey.get(key) || []).forEach(id => polygonIds.add(id)));
+    polygonIds.forEach(polygonId => {
+      dispatch(setPolygonRetry({ polygonId, attempt: info.attempt, maxAttempts: info.maxAttempts }));
+    });
+  };
+  
+  const samplePromises = fetchPointsData(providerId, allSamples, startDateStr, endDateStr, fields, resolution, handleRetry, signal);
+  
+  // Anomalies need the same calendar window in previous years, from the archive
+  const baselineProviderId = getBaselineProviderId(providerId);
+  const baselinePromises = isAnomalyEnabled(dataSource) && dataSource.baseline
+    ? getBaselineWindows(startDate, endDate, dataSource.baseline.years).map(window => {
+      const dates = getRequestDates(window.startDate, window.endDate, false);
+      return {
+        yearsBack: window.yearsBack,
+        promises: fetchPointsData(baselineProviderId, allSamples, dates.startDateStr, dates.endDateStr, fields, resolution, undefined, signal)
       };
-      
-      // Store the raw weather data
-      dispatch(setWeatherData({ polygonId: polygon.id, data: weatherData }));
-      
-      // Calculate average value for the selected time range
-      const averageValue = calculateAverageValue(
-        data.hourly.temperature_2m,
-        data.hourly.time,
-        actualStartDate,
-        actualEndDate
-      );
-      
-      // Apply color rules if provided
-      const color = applyColorRules(averageValue, colorRules || []);
-      dispatch(updatePolygonColor({ 
-        id: polygon.id, 
-        color, 
-        value: averageValue 
-      }));
-      
-      console.log(`🎨 Color Rules Applied:`, {
-        polygonName: polygon.name,
-        temperature: `${averageValue.toFixed(1)}°C`,
-        colorRules: colorRules?.map(r => `${r.operator} ${r.value} = ${r.color}`),
-        appliedColor: color,
-        rulesCount: colorRules?.length || 0
-      });
-    } else {
-      throw new Error('Invalid response format from Open-Meteo API');
-    }
-    
-  } catch (error) {
-    console.error('Error fetching weather data:', error);
-    let errorMessage = 'Failed to fetch weather data';
-    
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 429) {
-        errorMessage = 'API rate limit exceeded. Please try again later.';
-      } else if (error.response?.status && error.response.status >= 500) {
-        errorMessage = 'Weather service temporarily unavailable.';
-      } else if (error.code === 'ECONNABORTED') {
-        errorMessage = 'Request timeout. Please check your connection.';
-      } else if (error.response?.data?.reason) {
-        errorMessage = `API Error: ${error.response.data.reason}`;
-      }
-    } else if (error instanceof Error) {
-      errorMessage = error.message;
-    }
-    
-    dispatch(setError(errorMessage));
-  } finally {
-    dispatch(setLoading(false));
+    })
+    : [];
+  
+  // Store each polygon's series as soon as its own samples arrive, recording its own failure
+  let offset = 0;
+  const fetched: Array<{ polygon: Polygon; data: WeatherData }> = [];
+  const results = await Promise.all(polygons.map((polygon, index): Promise<PolygonFetchResult> => {
+    const samples = polygonSamples[index];
+    const promises = samplePromises.slice(offset, offset + samples.length);
+    const baselineRequests = baselinePromises.map(year => ({
+      yearsBack: year.yearsBack,
+      providerId: baselineProviderId,
+      promises: year.promises.slice(offset, offset + samples.length)
+    }));
+    offset += samples.length;
+    return storePolygonSeries(polygon, dispatch, samples, promises, resolution, dataSource, signal, baselineRequests)
+      .then(data => {
+        fetched.push({ polygon, data });
+        return { polygonId: polygon.id, error: null };
+      })
+      .catch(error => {
+        if (isAbortError(error)) {
+          return { polygonId: polygon.id, error: null };
+        }
+        console.error(`Error fetching weather data for "${polygon.name}":`, error);
+        return { polygonId: polygon.id, error: getErrorMessage(error) };
+      })
+      .finally(() => dispatch(clearPolygonRetry(polygon.id)));
+  }));
+  
+  if (signal?.aborted) {
+    console.log('⏹️ Discarded superseded weather request');
+    throw createAbortError();
   }
+  
+  // Then color every successfully fetched polygon in one batch
+  await colorPolygons(fetched, dispatch, startDate, endDate, dataSource, signal);
+  
+  return results;
 };
 
-// Fetch weather data for multiple polygons
-export const fetchWeatherDataForPolygons = async (
+// Re-apply each polygon's source aggregation and rules to already fetched series without hitting the network
+export const recolorPolygons = (
   polygons: Polygon[],
+  weatherData: Record<string, WeatherData>,
   dispatch: Dispatch,
   selectedStartTime: Date,
   selectedEndTime: Date,
-  colorRules: ColorRule[]
+  dataSources: DataSource[],
+  selectedDataSourceId: string
 ): Promise<void> => {
-  const promises = polygons.map(polygon => 
-    fetchWeatherData(polygon, dispatch, selectedStartTime, selectedEndTime, colorRules)
-  );
-  
-  try {
-    await Promise.all(promises);
-  } catch (error) {
-    console.error('Error fetching weather data for multiple polygons:', error);
-  }
+  const groups = groupPolygonsBySource(polygons, dataSources, selectedDataSourceId);
+  return Promise.all(groups.map(({ dataSource, polygons: sourcePolygons }) => {
+    const { startDate, endDate } = resolveDateRange(
+      selectedStartTime,
+      selectedEndTime,
+      getDataProvider(dataSource.providerId).supportsForecast
+    );
+
+    const entries = sourcePolygons
+      .filter(polygon => weatherData[polygon.id])
+      .map(polygon => ({ polygon, data: weatherData[polygon.id] }));
+    return colorPolygons(entries, dispatch, startDate, endDate, dataSource);
+  })).then(() => undefined);
 };
 
-// Mock data function for testing (optional)
-export const getMockWeatherData = (polygon: Polygon): WeatherData => {
-  const centroid = getPolygonCentroid(polygon.points);
-  const now = new Date();
-  const timeArray: string[] = [];
-  const temperatureArray: number[] = [];
-  
-  // Generate 24 hours of mock data
-  for (let i = 23; i >= 0; i--) {
-    const time = new Date(now.getTime() - i * 60 * 60 * 1000);
-    timeArray.push(time.toISOString());
-    
-    // Generate mock temperature based on location and time
-    const baseTemp = 15 + Math.sin(centroid.lat * Math.PI / 180) * 10;
-    const hourVariation = Math.sin((23 - i) * Math.PI / 12) * 5;
-    const randomVariation = (Math.random() - 0.5) * 4;
-    
-    temperatureArray.push(baseTemp + hourVariation + randomVariation);
+// Whether the selected range reaches into forecast hours of a polygon's series
+export const includesForecast = (data: WeatherData | undefined, selectedEndTime: Date): boolean => {
+  return !!data && data.forecastStartIndex !== null && selectedEndTime.getTime() > getNow();
+};
+
+// Last observed step of a series (epoch ms), or null when it is all forecast or all observed
+export const getObservedUntil = (data: WeatherData): number | null => {
+  if (data.forecastStartIndex === null || data.forecastStartIndex === 0) {
+    return null;
   }
-  
-  return {
-    latitude: centroid.lat,
-    longitude: centroid.lng,
-    time: timeArray,
-    temperature_2m: temperatureArray
-  };
-}; 
+  return data.time[data.forecastStartIndex - 1];
+};
 
 // Clear cache (utility function)
 export const clearWeatherDataCache = (): void => {
-  weatherDataCache.clear();
+  clearCache();
   console.log('Weather data cache cleared');
 };
 
-// Get cache statistics (utility function)
-export const getCacheStats = (): { size: number; entries: Array<{ key: string; age: number }> } => {
-  const now = Date.now();
-  const entries = Array.from(weatherDataCache.entries()).map(([key, value]) => ({
-    key,
-    age: Math.round((now - value.timestamp) / 1000) // age in seconds
-  }));
-  
-  return {
-    size: weatherDataCache.size,
-    entries
-  };
-}; 
\ No newline at end of file
+// Get cache statistics including hit/miss metrics (utility function)
+export const getCacheStats = (): CacheStats => {
+  return getStats();
+};
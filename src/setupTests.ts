@@ -0,0 +1,21 @@
+// Loaded by react-scripts before every test file
+import '@testing-library/jest-dom';
+
+jest.mock('./workers/createColorWorker');
+
+// antd's responsive components query media; jsdom implements none of them
+if (typeof window !== 'undefined' && !window.matchMedia) {
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: (query: string) => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: () => undefined,
+      removeListener: () => undefined,
+      addEventListener: () => undefined,
+      removeEventListener: () => undefined,
+      dispatchEvent: () => false
+    })
+  });
+}
@@ -2,12 +2,18 @@ import { configureStore } from '@reduxjs/toolkit';
 import timelineReducer from './slices/timelineSlice';
 import polygonReducer from './slices/polygonSlice';
 import dataSourceReducer from './slices/dataSourceSlice';
+import unitsReducer from './slices/unitsSlice';
+import polygonStatusReducer from './slices/polygonStatusSlice';
+import alertsReducer from './slices/alertsSlice';
 
 export const store = configureStore({
   reducer: {
     timeline: timelineReducer,
     polygons: polygonReducer,
     dataSources: dataSourceReducer,
+    units: unitsReducer,
+    polygonStatus: polygonStatusReducer,
+    alerts: alertsReducer,
   },
 });
 
@@ -0,0 +1,85 @@
+import type { AlertDefinition, AlertEvent } from '../../services/alerts';
+import alertsReducer, {
+  acknowledgeAlertEvent,
+  acknowledgeAllAlertEvents,
+  addAlert,
+  recordAlertEvents
+} from './alertsSlice';
+import type { AlertsState } from './alertsSlice';
+import { deletePolygon } from './polygonSlice';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const definition = (overrides: Partial<AlertDefinition> = {}): AlertDefinition => ({
+  id: 'hot',
+  name: 'Hot',
+  dataSourceId: 'temperature',
+  polygonId: null,
+  aggregation: { type: 'max' },
+  windowHours: 24,
+  operator: '>',
+  threshold: 30,
+  enabled: true,
+  ...overrides
+});
+
+const event = (overrides: Partial<AlertEvent> = {}): AlertEvent => ({
+  id: `hot_p1_${overrides.startTime ?? 0}`,
+  alertId: 'hot',
+  alertName: 'Hot',
+  polygonId: 'p1',
+  dataSourceId: 'temperature',
+  startTime: 0,
+  endTime: 24 * HOUR_MS,
+  value: 32,
+  triggeredAt: 1000,
+  acknowledged: false,
+  ...overrides
+});
+
+const withAlert = (alert = definition()): AlertsState => alertsReducer(undefined, addAlert(alert));
+
+describe('alerts reducer', () => {
+  it('adds new events to the top of the history', () => {
+    let state = alertsReducer(withAlert(), recordAlertEvents([event()]));
+    state = alertsReducer(state, recordAlertEvents([event({ startTime: 48 * HOUR_MS, endTime: 72 * HOUR_MS })]));
+    expect(state.history.map(e => e.startTime)).toEqual([48 * HOUR_MS, 0]);
+  });
+
+  it('merges a refetched period into the known event without notifying again', () => {
+    let state = alertsReducer(withAlert(), recordAlertEvents([event()]));
+    state = alertsReducer(state, acknowledgeAlertEvent(state.history[0].id));
+    state = alertsReducer(state, recordAlertEvents([event({ startTime: 12 * HOUR_MS, endTime: 36 * HOUR_MS, value: 31, triggeredAt: 2000 })]));
+
+    expect(state.history).toHaveLength(1);
+    expect(state.history[0]).toMatchObject({ startTime: 0, endTime: 36 * HOUR_MS, value: 32, triggeredAt: 1000, acknowledged: true });
+  });
+
+  it('triggers an acknowledged event again when it gets worse', () => {
+    let state = alertsReducer(withAlert(), recordAlertEvents([event(), event({ startTime: 48 * HOUR_MS, endTime: 72 * HOUR_MS })]));
+    state = alertsReducer(state, acknowledgeAllAlertEvents());
+    state = alertsReducer(state, recordAlertEvents([event({ value: 35, triggeredAt: 2000 })]));
+
+    expect(state.history).toHaveLength(2);
+    expect(state.history[0]).toMatchObject({ startTime: 0, value: 35, triggeredAt: 2000, acknowledged: false });
+    expect(state.history[1]).toMatchObject({ startTime: 48 * HOUR_MS, acknowledged: true });
+  });
+
+  it('judges below-threshold alerts by the lower value', () => {
+    const frost = definition({ id: 'frost', operator: '<', threshold: 0 });
+    let state = alertsReducer(withAlert(frost), recordAlertEvents([event({ alertId: 'frost', value: -2 })]));
+    state = alertsReducer(state, acknowledgeAllAlertEvents());
+
+    state = alertsReducer(state, recordAlertEvents([event({ alertId: 'frost', value: -1, triggeredAt: 2000 })]));
+    expect(state.history[0]).toMatchObject({ value: -2, acknowledged: true });
+
+    state = alertsReducer(state, recordAlertEvents([event({ alertId: 'frost', value: -5, triggeredAt: 3000 })]));
+    expect(state.history[0]).toMatchObject({ value: -5, acknowledged: false, triggeredAt: 3000 });
+  });
+
+  it('drops definitions and events of a deleted polygon', () => {
+    let state = alertsReducer(withAlert(definition({ polygonId: 'p1' })), recordAlertEvents([event()]));
+    state = alertsReducer(state, deletePolygon('p1'));
+    expect(state).toEqual({ definitions: [], history: [] });
+  });
+});
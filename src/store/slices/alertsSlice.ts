@@ -0,0 +1,144 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { appliesTo, findAlertEvents } from '../../services/alerts';
+import type { AlertDefinition, AlertEvent } from '../../services/alerts';
+import { deletePolygon } from './polygonSlice';
+import { removeDataSource } from './dataSourceSlice';
+import { getPolygonDataSource } from '../../services/polygonSources';
+import type { RootState, AppDispatch } from '../index';
+
+export interface AlertsState {
+  definitions: AlertDefinition[];
+  history: AlertEvent[]; // newest first
+}
+
+// Oldest events are dropped beyond this
+const MAX_HISTORY = 200;
+
+const initialState: AlertsState = {
+  definitions: [],
+  history: [],
+};
+
+// Check the alerts watching these polygons against their freshly stored series of each polygon's source
+export const checkPolygonAlerts = (polygonIds: string[]) => (dispatch: AppDispatch, getState: () => RootState) => {
+  const { alerts, dataSources, polygons } = getState();
+
+  const now = Date.now();
+  const events: AlertEvent[] = [];
+  polygonIds.forEach(polygonId => {
+    const data = dataSources.weatherData[polygonId];
+    const polygon = polygons.polygons.find(p => p.id === polygonId);
+    const dataSource = polygon && getPolygonDataSource(polygon, dataSources.availableDataSources, dataSources.selectedDataSourceId);
+    if (!data || !dataSource) {
+      return;
+    }
+    alerts.definitions
+      .filter(definition => appliesTo(definition, polygonId, dataSource.id))
+      .forEach(definition => {
+        findAlertEvents(definition, dataSource, data).forEach(period => {
+          events.push({
+            id: `${definition.id}_${polygonId}_${period.startTime}`,
+            alertId: definition.id,
+            alertName: definition.name,
+            polygonId,
+            dataSourceId: dataSource.id,
+            ...period,
+            triggeredAt: now,
+            acknowledged: false,
+          });
+        });
+      });
+  });
+
+  if (events.length > 0) {
+    dispatch(recordAlertEvents(events));
+  }
+};
+
+const alertsSlice = createSlice({
+  name: 'alerts',
+  initialState,
+  reducers: {
+    addAlert: (state, action: PayloadAction<AlertDefinition>) => {
+      state.definitions.push(action.payload);
+    },
+    updateAlert: (state, action: PayloadAction<{ id: string; updates: Partial<AlertDefinition> }>) => {
+      const definition = state.definitions.find(d => d.id === action.payload.id);
+      if (definition) {
+        Object.assign(definition, action.payload.updates);
+      }
+    },
+    removeAlert: (state, action: PayloadAction<string>) => {
+      state.definitions = state.definitions.filter(d => d.id !== action.payload);
+    },
+    // Refetches report the same periods again; an event overlapping a known one of the same
+    // alert and polygon updates it instead of being added twice. An update that is worse than
+    // the known value triggers the event again: it is unacknowledged and moves to the top.
+    recordAlertEvents: (state, action: PayloadAction<AlertEvent[]>) => {
+      action.payload.forEach(event => {
+        const index = state.history.findIndex(known =>
+          known.alertId === event.alertId
+          && known.polygonId === event.polygonId
+          && known.startTime <= event.endTime
+          && event.startTime <= known.endTime
+        );
+        if (index === -1) {
+          state.history.unshift(event);
+          return;
+        }
+
+        const existing = state.history[index];
+        const definition = state.definitions.find(d => d.id === event.alertId);
+        const above = !definition || definition.operator === '>' || definition.operator === '>=';
+        const worse = above ? event.value > existing.value : event.value < existing.value;
+        existing.startTime = Math.min(existing.startTime, event.startTime);
+        existing.endTime = Math.max(existing.endTime, event.endTime);
+        if (worse) {
+          existing.value = event.value;
+          existing.triggeredAt = event.triggeredAt;
+          existing.acknowledged = false;
+          state.history.splice(index, 1);
+          state.history.unshift(existing);
+        }
+      });
+      state.history = state.history.slice(0, MAX_HISTORY);
+    },
+    acknowledgeAlertEvent: (state, action: PayloadAction<string>) => {
+      const event = state.history.find(e => e.id === action.payload);
+      if (event) {
+        event.acknowledged = true;
+      }
+    },
+    acknowledgeAllAlertEvents: (state) => {
+      state.history.forEach(event => {
+        event.acknowledged = true;
+      });
+    },
+    clearAlertHistory: (state) => {
+      state.history = [];
+    },
+  },
+  extraReducers: builder => {
+    builder
+      .addCase(deletePolygon, (state, action) => {
+        state.definitions = state.definitions.filter(d => d.polygonId !== action.payload);
+        state.history = state.history.filter(e => e.polygonId !== action.payload);
+      })
+      .addCase(removeDataSource, (state, action) => {
+        state.definitions = state.definitions.filter(d => d.dataSourceId !== action.payload);
+        state.history = state.history.filter(e => e.dataSourceId !== action.payload);
+      });
+  },
+});
+
+export const {
+  addAlert,
+  updateAlert,
+  removeAlert,
+  recordAlertEvents,
+  acknowledgeAlertEvent,
+  acknowledgeAllAlertEvents,
+  clearAlertHistory,
+} = alertsSlice.actions;
+
+export default alertsSlice.reducer;
@@ -1,57 +1,319 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { DataProviderId, SeriesResolution } from '../../services/providers/types';
+import { DEFAULT_AGGREGATION } from '../../services/aggregation';
+import type { Aggregation } from '../../services/aggregation';
+import type { Quantity } from '../../services/units';
+import type { Derivation } from '../../services/derivedSources';
+import type { GridDistance } from '../../services/dataQuality';
+import type { BaselineSeries, BaselineSettings } from '../../services/baseline';
+import type { ColorStyling } from '../../services/colorScales';
 
-export interface ColorRule {
+export type RuleOperator = '=' | '<' | '>' | '<=' | '>=' | 'between';
+
+// One comparison of a polygon's value
+export interface RuleCondition {
+  operator: RuleOperator;
+  value: number; // threshold, or the lower bound of 'between'
+  upperValue?: number; // upper bound of 'between'
+  includeLower?: boolean; // 'between' bounds, [lower, upper) unless set
+  includeUpper?: boolean;
+  tolerance?: number; // '=' matches within this distance (default 0.1)
+}
+
+// Rules are checked in list order and the first match colors the polygon
+export interface ColorRule extends RuleCondition {
   id: string;
-  operator: '=' | '<' | '>' | '<=' | '>=';
-  value: number;
   color: string;
+  combinator?: 'and' | 'or'; // how `conditions` join the rule's own condition
+  conditions?: RuleCondition[];
 }
 
 export interface DataSource {
   id: string;
   name: string;
-  field: string; // e.g., 'temperature_2m'
-  unit: string;
-  colorRules: ColorRule[];
+  field: string; // Open-Meteo hourly request parameter, e.g. 'temperature_2m', or the key of a derived series
+  dailyField?: string; // daily aggregate of the same quantity, used for long ranges
+  dailyScale?: number; // factor bringing daily values onto the hourly scale (default 1)
+  derivation?: Derivation; // computed from other fields instead of requesting `field`
+  quantity: Quantity; // values and thresholds are stored in the quantity's canonical unit
+  icon: string;
+  providerId: DataProviderId;
+  colorRules: ColorRule[]; // in priority order; applied to the anomaly when the baseline is enabled
+  fallbackColor?: string; // when no rule matches
+  styling?: ColorStyling; // a ramp or automatic classes instead of the rules; rules when unset
+  alternateColorRules?: ColorRule[]; // rules of the other view (raw or anomaly), swapped in on toggle
+  baseline?: BaselineSettings;
+  aggregation: Aggregation; // reduction over the selected time window
   isActive: boolean;
 }
 
 export interface WeatherData {
   latitude: number;
   longitude: number;
-  time: string[];
-  temperature_2m: number[];
+  time: number[]; // step starts as UTC epoch milliseconds
+  series: Record<string, Array<number | null>>; // values keyed by field, one per `time` step; null where missing
+  resolution: SeriesResolution;
+  utcOffsetSeconds: number; // location's offset from UTC
+  timezone: string; // location's IANA zone
+  sampleCount: number; // points sampled inside the polygon
+  gridDistance: GridDistance | null; // how far the provider's grid cells are from the sampled points
+  baseline?: BaselineSeries; // climatology for the same steps, when the source shows anomalies
+  forecastStartIndex: number | null; // index in `time` where forecast begins, null when all observed
+}
+
+export interface RetryState {
+  attempt: number;
+  maxAttempts: number;
 }
 
 export interface DataSourceState {
   availableDataSources: DataSource[];
   selectedDataSourceId: string;
   weatherData: Record<string, WeatherData>; // keyed by polygon ID
-  isLoading: boolean;
-  error: string | null;
+  retries: Record<string, RetryState>; // polygons whose requests are being retried
 }
 
+// Default rules keep the lowest band first and use ranges that don't overlap, so every value
+// matches exactly one rule and the colors don't depend on the list order
 const defaultColorRules: ColorRule[] = [
   { id: 'rule1', operator: '<', value: 10, color: '#0000ff' },
-  { id: 'rule2', operator: '>=', value: 10, color: '#00ff00' },
+  { id: 'rule2', operator: 'between', value: 10, upperValue: 25, color: '#00ff00' },
   { id: 'rule3', operator: '>=', value: 25, color: '#ff0000' },
 ];
 
+const precipitationColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 0.1, color: '#f0f0f0' },
+  { id: 'rule2', operator: 'between', value: 0.1, upperValue: 2, color: '#9ecae1' },
+  { id: 'rule3', operator: 'between', value: 2, upperValue: 10, color: '#3182bd' },
+  { id: 'rule4', operator: '>=', value: 10, color: '#08306b' },
+];
+
+const humidityColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 30, color: '#fdae61' },
+  { id: 'rule2', operator: 'between', value: 30, upperValue: 70, color: '#a6d96a' },
+  { id: 'rule3', operator: '>=', value: 70, color: '#2b83ba' },
+];
+
+const windSpeedColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 10, color: '#c7e9c0' },
+  { id: 'rule2', operator: 'between', value: 10, upperValue: 30, color: '#fed976' },
+  { id: 'rule3', operator: 'between', value: 30, upperValue: 50, color: '#fd8d3c' },
+  { id: 'rule4', operator: '>=', value: 50, color: '#bd0026' },
+];
+
+const windDirectionColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 90, color: '#1b9e77' },
+  { id: 'rule2', operator: 'between', value: 90, upperValue: 180, color: '#d95f02' },
+  { id: 'rule3', operator: 'between', value: 180, upperValue: 270, color: '#7570b3' },
+  { id: 'rule4', operator: '>=', value: 270, color: '#e7298a' },
+];
+
+const cloudCoverColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 25, color: '#ffd700' },
+  { id: 'rule2', operator: 'between', value: 25, upperValue: 75, color: '#bdbdbd' },
+  { id: 'rule3', operator: '>=', value: 75, color: '#636363' },
+];
+
+const surfacePressureColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 1000, color: '#7b3294' },
+  { id: 'rule2', operator: 'between', value: 1000, upperValue: 1020, color: '#f7f7f7' },
+  { id: 'rule3', operator: '>=', value: 1020, color: '#008837' },
+];
+
+const soilTemperatureColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 5, color: '#4575b4' },
+  { id: 'rule2', operator: 'between', value: 5, upperValue: 20, color: '#fee090' },
+  { id: 'rule3', operator: '>=', value: 20, color: '#d73027' },
+];
+
+const heatIndexColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 27, color: '#a6d96a' },
+  { id: 'rule2', operator: 'between', value: 27, upperValue: 32, color: '#fee08b' },
+  { id: 'rule3', operator: 'between', value: 32, upperValue: 41, color: '#fdae61' },
+  { id: 'rule4', operator: 'between', value: 41, upperValue: 54, color: '#d73027' },
+  { id: 'rule5', operator: '>=', value: 54, color: '#67001f' },
+];
+
+const windChillColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: -27, color: '#08306b' },
+  { id: 'rule2', operator: 'between', value: -27, upperValue: -10, color: '#4292c6' },
+  { id: 'rule3', operator: '>=', value: -10, color: '#c6dbef' },
+];
+
+const growingDegreeDaysColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 100, color: '#f7fcb9' },
+  { id: 'rule2', operator: 'between', value: 100, upperValue: 500, color: '#addd8e' },
+  { id: 'rule3', operator: '>=', value: 500, color: '#31a354' },
+];
+
+const dewPointDepressionColorRules: ColorRule[] = [
+  { id: 'rule1', operator: '<', value: 2, color: '#2b83ba' },
+  { id: 'rule2', operator: 'between', value: 2, upperValue: 10, color: '#abdda4' },
+  { id: 'rule3', operator: '>=', value: 10, color: '#fdae61' },
+];
+
+// Symmetric around "normal"; thresholds are anomalies in the source's canonical unit
+const anomalyColorRules: ColorRule[] = [
+  { id: 'anomaly1', operator: '<', value: -1, color: '#4575b4' },
+  { id: 'anomaly2', operator: 'between', value: -1, upperValue: 1, color: '#f7f7f7' },
+  { id: 'anomaly3', operator: '>=', value: 1, color: '#d73027' },
+];
+
+// Air-gapped deployments can default every source to the offline provider
+const defaultProviderId: DataProviderId =
+  process.env.REACT_APP_DATA_PROVIDER === 'synthetic' ? 'synthetic' : 'open-meteo';
+
 const initialState: DataSourceState = {
   availableDataSources: [
     {
       id: 'temperature',
       name: 'Temperature (2m)',
       field: 'temperature_2m',
-      unit: '°C',
+      dailyField: 'temperature_2m_mean',
+      quantity: 'temperature',
+      icon: '🌡️',
+      providerId: defaultProviderId,
       colorRules: defaultColorRules,
+      aggregation: DEFAULT_AGGREGATION,
+      isActive: true,
+    },
+    {
+      id: 'precipitation',
+      name: 'Precipitation',
+      field: 'precipitation',
+      dailyField: 'precipitation_sum',
+      dailyScale: 1 / 24, // daily sum to mean hourly rate, so rules keep their meaning
+      quantity: 'precipitation',
+      icon: '🌧️',
+      providerId: defaultProviderId,
+      colorRules: precipitationColorRules,
+      aggregation: DEFAULT_AGGREGATION,
+      isActive: true,
+    },
+    {
+      id: 'relative_humidity',
+      name: 'Relative Humidity (2m)',
+      field: 'relative_humidity_2m',
+      dailyField: 'relative_humidity_2m_mean',
+      quantity: 'percent',
+      icon: '💧',
+      providerId: defaultProviderId,
+      colorRules: humidityColorRules,
+      aggregation: DEFAULT_AGGREGATION,
+      isActive: true,
+    },
+    {
+      id: 'wind_speed',
+      name: 'Wind Speed (10m)',
+      field: 'wind_speed_10m',
+      dailyField: 'wind_speed_10m_mean',
+      quantity: 'speed',
+      icon: '💨',
+      providerId: defaultProviderId,
+      colorRules: windSpeedColorRules,
+      aggregation: DEFAULT_AGGREGATION,
+      isActive: true,
+    },
+    {
+      id: 'wind_direction',
+      name: 'Wind Direction (10m)',
+      field: 'wind_direction_10m',
+      dailyField: 'wind_direction_10m_dominant',
+      quantity: 'angle',
+      icon: '🧭',
+      providerId: defaultProviderId,
+      colorRules: windDirectionColorRules,
+      aggregation: DEFAULT_AGGREGATION,
+      isActive: true,
+    },
+    {
+      id: 'cloud_cover',
+      name: 'Cloud Cover',
+      field: 'cloud_cover',
+      dailyField: 'cloud_cover_mean',
+      quantity: 'percent',
+      icon: '☁️',
+      providerId: defaultProviderId,
+      colorRules: cloudCoverColorRules,
+      aggregation: DEFAULT_AGGREGATION,
+      isActive: true,
+    },
+    {
+      id: 'surface_pressure',
+      name: 'Surface Pressure',
+      field: 'surface_pressure',
+      dailyField: 'surface_pressure_mean',
+      quantity: 'pressure',
+      icon: '⏲️',
+      providerId: defaultProviderId,
+      colorRules: surfacePressureColorRules,
+      aggregation: DEFAULT_AGGREGATION,
+      isActive: true,
+    },
+    {
+      id: 'soil_temperature',
+      name: 'Soil Temperature (0-7cm)',
+      field: 'soil_temperature_0_to_7cm',
+      dailyField: 'soil_temperature_0_to_7cm_mean',
+      quantity: 'temperature',
+      icon: '🌱',
+      providerId: defaultProviderId,
+      colorRules: soilTemperatureColorRules,
+      aggregation: DEFAULT_AGGREGATION,
+      isActive: true,
+    },
+    {
+      id: 'heat_index',
+      name: 'Heat Index',
+      field: 'heat_index',
+      derivation: { type: 'heat_index' },
+      quantity: 'temperature',
+      icon: '🥵',
+      providerId: defaultProviderId,
+      colorRules: heatIndexColorRules,
+      aggregation: { type: 'max' },
+      isActive: true,
+    },
+    {
+      id: 'wind_chill',
+      name: 'Wind Chill',
+      field: 'wind_chill',
+      derivation: { type: 'wind_chill' },
+      quantity: 'temperature',
+      icon: '🥶',
+      providerId: defaultProviderId,
+      colorRules: windChillColorRules,
+      aggregation: { type: 'min' },
+      isActive: true,
+    },
+    {
+      id: 'growing_degree_days',
+      name: 'Growing Degree Days (base 10°C)',
+      field: 'growing_degree_days',
+      derivation: { type: 'growing_degree_days', baseTemperature: 10 },
+      quantity: 'temperature_delta',
+      icon: '🌾',
+      providerId: defaultProviderId,
+      colorRules: growingDegreeDaysColorRules,
+      aggregation: { type: 'sum' },
+      isActive: true,
+    },
+    {
+      id: 'dew_point_depression',
+      name: 'Dew Point Depression',
+      field: 'dew_point_depression',
+      derivation: { type: 'dew_point_depression' },
+      quantity: 'temperature_delta',
+      icon: '🌫️',
+      providerId: defaultProviderId,
+      colorRules: dewPointDepressionColorRules,
+      aggregation: DEFAULT_AGGREGATION,
       isActive: true,
     },
   ],
   selectedDataSourceId: 'temperature',
   weatherData: {},
-  isLoading: false,
-  error: null,
+  retries: {},
 };
 
 const dataSourceSlice = createSlice({
@@ -61,6 +323,47 @@ const dataSourceSlice = createSlice({
     setSelectedDataSource: (state, action: PayloadAction<string>) => {
       state.selectedDataSourceId = action.payload;
     },
+    addDataSource: (state, action: PayloadAction<DataSource>) => {
+      state.availableDataSources.push(action.payload);
+      state.selectedDataSourceId = action.payload.id;
+    },
+    removeDataSource: (state, action: PayloadAction<string>) => {
+      state.availableDataSources = state.availableDataSources.filter(ds => ds.id !== action.payload);
+      if (state.selectedDataSourceId === action.payload && state.availableDataSources.length > 0) {
+        state.selectedDataSourceId = state.availableDataSources[0].id;
+      }
+    },
+    setDataSourceProvider: (state, action: PayloadAction<{ dataSourceId: string; providerId: DataProviderId }>) => {
+      const dataSource = state.availableDataSources.find(ds => ds.id === action.payload.dataSourceId);
+      if (dataSource) {
+        dataSource.providerId = action.payload.providerId;
+      }
+    },
+    setDataSourceAggregation: (state, action: PayloadAction<{ dataSourceId: string; aggregation: Aggregation }>) => {
+      const dataSource = state.availableDataSources.find(ds => ds.id === action.payload.dataSourceId);
+      if (dataSource) {
+        dataSource.aggregation = action.payload.aggregation;
+      }
+    },
+    setDataSourceStyling: (state, action: PayloadAction<{ dataSourceId: string; styling: ColorStyling }>) => {
+      const dataSource = state.availableDataSources.find(ds => ds.id === action.payload.dataSourceId);
+      if (dataSource) {
+        dataSource.styling = action.payload.styling;
+      }
+    },
+    // Turning the anomaly view on or off swaps in the rules kept for the other view
+    setDataSourceBaseline: (state, action: PayloadAction<{ dataSourceId: string; baseline: BaselineSettings }>) => {
+      const dataSource = state.availableDataSources.find(ds => ds.id === action.payload.dataSourceId);
+      if (dataSource) {
+        if (!!dataSource.baseline?.enabled !== action.payload.baseline.enabled) {
+          const otherRules = dataSource.alternateColorRules
+            ?? (action.payload.baseline.enabled ? anomalyColorRules : dataSource.colorRules);
+          dataSource.alternateColorRules = dataSource.colorRules;
+          dataSource.colorRules = otherRules;
+        }
+        dataSource.baseline = action.payload.baseline;
+      }
+    },
     addColorRule: (state, action: PayloadAction<{ dataSourceId: string; rule: ColorRule }>) => {
       const dataSource = state.availableDataSources.find(ds => ds.id === action.payload.dataSourceId);
       if (dataSource) {
@@ -76,6 +379,26 @@ const dataSourceSlice = createSlice({
         }
       }
     },
+    moveColorRule: (state, action: PayloadAction<{ dataSourceId: string; fromIndex: number; toIndex: number }>) => {
+      const dataSource = state.availableDataSources.find(ds => ds.id === action.payload.dataSourceId);
+      const { fromIndex, toIndex } = action.payload;
+      if (dataSource && fromIndex !== toIndex && dataSource.colorRules[fromIndex] && toIndex >= 0 && toIndex < dataSource.colorRules.length) {
+        const [rule] = dataSource.colorRules.splice(fromIndex, 1);
+        dataSource.colorRules.splice(toIndex, 0, rule);
+      }
+    },
+    setFallbackColor: (state, action: PayloadAction<{ dataSourceId: string; color: string }>) => {
+      const dataSource = state.availableDataSources.find(ds => ds.id === action.payload.dataSourceId);
+      if (dataSource) {
+        dataSource.fallbackColor = action.payload.color;
+      }
+    },
+    setColorRules: (state, action: PayloadAction<{ dataSourceId: string; rules: ColorRule[] }>) => {
+      const dataSource = state.availableDataSources.find(ds => ds.id === action.payload.dataSourceId);
+      if (dataSource) {
+        dataSource.colorRules = action.payload.rules;
+      }
+    },
     deleteColorRule: (state, action: PayloadAction<{ dataSourceId: string; ruleId: string }>) => {
       const dataSource = state.availableDataSources.find(ds => ds.id === action.payload.dataSourceId);
       if (dataSource) {
@@ -85,23 +408,33 @@ const dataSourceSlice = createSlice({
     setWeatherData: (state, action: PayloadAction<{ polygonId: string; data: WeatherData }>) => {
       state.weatherData[action.payload.polygonId] = action.payload.data;
     },
-    setLoading: (state, action: PayloadAction<boolean>) => {
-      state.isLoading = action.payload;
+    setPolygonRetry: (state, action: PayloadAction<{ polygonId: string } & RetryState>) => {
+      const { polygonId, attempt, maxAttempts } = action.payload;
+      state.retries[polygonId] = { attempt, maxAttempts };
     },
-    setError: (state, action: PayloadAction<string | null>) => {
-      state.error = action.payload;
+    clearPolygonRetry: (state, action: PayloadAction<string>) => {
+      delete state.retries[action.payload];
     },
   },
 });
 
 export const {
   setSelectedDataSource,
+  addDataSource,
+  removeDataSource,
+  setDataSourceProvider,
+  setDataSourceAggregation,
+  setDataSourceBaseline,
+  setDataSourceStyling,
   addColorRule,
   updateColorRule,
+  moveColorRule,
+  setFallbackColor,
+  setColorRules,
   deleteColorRule,
   setWeatherData,
-  setLoading,
-  setError,
+  setPolygonRetry,
+  clearPolygonRetry,
 } = dataSourceSlice.actions;
 
 export default dataSourceSlice.reducer; 
\ No newline at end of file
@@ -1,4 +1,7 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { QualityReport } from '../../services/dataQuality';
+import type { PolygonAnomaly } from '../../services/baseline';
+import type { ColorRule } from './dataSourceSlice';
 
 export interface PolygonPoint {
   lat: number;
@@ -9,9 +12,13 @@ export interface Polygon {
   id: string;
   name: string;
   points: PolygonPoint[];
-  dataSourceId: string;
+  dataSourceId: string; // fetched and colored with this source
+  colorRules?: ColorRule[]; // own rules instead of the source's rules or styling
   color: string;
-  value?: number; // Current data value
+  value?: number | null; // Current aggregated value, null when the range has no data
+  sampleCount?: number; // Points sampled to compute value
+  quality?: QualityReport; // Coverage of the selected range; insufficient coverage is drawn as "no data"
+  anomaly?: PolygonAnomaly | null; // Deviation from the baseline, null when the source shows raw values
   isEditing?: boolean;
 }
 
@@ -70,13 +77,22 @@ const polygonSlice = createSlice({
     selectPolygon: (state, action: PayloadAction<string | null>) => {
       state.selectedPolygonId = action.payload;
     },
-    updatePolygonColor: (state, action: PayloadAction<{ id: string; color: string; value?: number }>) => {
+    updatePolygonColor: (state, action: PayloadAction<{ id: string; color: string; value?: number | null; sampleCount?: number; quality?: QualityReport; anomaly?: PolygonAnomaly | null }>) => {
       const index = state.polygons.findIndex(p => p.id === action.payload.id);
       if (index !== -1) {
         state.polygons[index].color = action.payload.color;
         if (action.payload.value !== undefined) {
           state.polygons[index].value = action.payload.value;
         }
+        if (action.payload.sampleCount !== undefined) {
+          state.polygons[index].sampleCount = action.payload.sampleCount;
+        }
+        if (action.payload.quality !== undefined) {
+          state.polygons[index].quality = action.payload.quality;
+        }
+        if (action.payload.anomaly !== undefined) {
+          state.polygons[index].anomaly = action.payload.anomaly;
+        }
       }
     },
   },
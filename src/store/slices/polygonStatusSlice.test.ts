@@ -0,0 +1,158 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { fetchWeatherDataForPolygons, recolorPolygons } from '../../services/weatherService';
+import timelineReducer from './timelineSlice';
+import polygonReducer, { addDrawingPoint, deletePolygon, finishDrawing, startDrawing } from './polygonSlice';
+import type { Polygon } from './polygonSlice';
+import dataSourceReducer from './dataSourceSlice';
+import unitsReducer from './unitsSlice';
+import alertsReducer from './alertsSlice';
+import polygonStatusReducer, { fetchPolygonWeather, retryPolygonWeather } from './polygonStatusSlice';
+import type { PolygonStatusState } from './polygonStatusSlice';
+
+jest.mock('../../services/weatherService', () => ({
+  fetchWeatherDataForPolygons: jest.fn(),
+  recolorPolygons: jest.fn()
+}));
+
+const fetchMock = fetchWeatherDataForPolygons as jest.MockedFunction<typeof fetchWeatherDataForPolygons>;
+
+const ARGS = { polygonIds: ['a', 'b'], startTime: 0, endTime: 1 };
+
+const createStore = (polygons: Polygon[] = []) => configureStore({
+  reducer: {
+    timeline: timelineReducer,
+    polygons: polygonReducer,
+    dataSources: dataSourceReducer,
+    units: unitsReducer,
+    polygonStatus: polygonStatusReducer,
+    alerts: alertsReducer,
+  },
+  preloadedState: {
+    polygons: { polygons, isDrawing: false, selectedPolygonId: null, drawingPoints: [] }
+  },
+  // The timeline keeps Date objects in state, which the development check reports on every action
+  middleware: getDefaultMiddleware => getDefaultMiddleware({ serializableCheck: false }),
+});
+
+const addPolygon = (store: ReturnType<typeof createStore>): string => {
+  store.dispatch(startDrawing());
+  [{ lat: 0, lng: 0 }, { lat: 0, lng: 0.1 }, { lat: 0.1, lng: 0.1 }].forEach(point => store.dispatch(addDrawingPoint(point)));
+  store.dispatch(finishDrawing({ name: 'Field', dataSourceId: 'temperature' }));
+  const { polygons } = store.getState().polygons;
+  return polygons[polygons.length - 1].id;
+};
+
+describe('polygonStatus reducer', () => {
+  const initial: PolygonStatusState = { byPolygon: {} };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('marks polygons loading and keeps their last update', () => {
+    const previous: PolygonStatusState = {
+      byPolygon: { a: { state: 'success', message: null, lastUpdated: 5, requestId: 'old' } }
+    };
+    const state = polygonStatusReducer(previous, fetchPolygonWeather.pending('r1', ARGS));
+    expect(state.byPolygon.a).toEqual({ state: 'loading', message: null, lastUpdated: 5, requestId: 'r1' });
+    expect(state.byPolygon.b).toEqual({ state: 'loading', message: null, lastUpdated: null, requestId: 'r1' });
+  });
+
+  it('records per-polygon success and errors', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1000);
+    let state = polygonStatusReducer(initial, fetchPolygonWeather.pending('r1', ARGS));
+    state = polygonStatusReducer(state, fetchPolygonWeather.fulfilled(
+      [{ polygonId: 'a', error: null }, { polygonId: 'b', error: 'Rate limited' }],
+      'r1',
+      ARGS
+    ));
+    expect(state.byPolygon.a).toMatchObject({ state: 'success', message: null, lastUpdated: 1000 });
+    expect(state.byPolygon.b).toMatchObject({ state: 'error', message: 'Rate limited', lastUpdated: null });
+  });
+
+  it('ignores results of a superseded fetch', () => {
+    let state = polygonStatusReducer(initial, fetchPolygonWeather.pending('r1', ARGS));
+    state = polygonStatusReducer(state, fetchPolygonWeather.pending('r2', { ...ARGS, polygonIds: ['a'] }));
+    state = polygonStatusReducer(state, fetchPolygonWeather.fulfilled([{ polygonId: 'a', error: 'late' }, { polygonId: 'b', error: null }], 'r1', ARGS));
+    expect(state.byPolygon.a).toMatchObject({ state: 'loading', requestId: 'r2' });
+    expect(state.byPolygon.b).toMatchObject({ state: 'success', requestId: 'r1' });
+  });
+
+  it('restores the previous state when aborted and reports other failures', () => {
+    const previous: PolygonStatusState = {
+      byPolygon: { a: { state: 'success', message: null, lastUpdated: 5, requestId: 'old' } }
+    };
+    let state = polygonStatusReducer(previous, fetchPolygonWeather.pending('r1', ARGS));
+    const aborted = fetchPolygonWeather.rejected(new Error('Aborted'), 'r1', ARGS);
+    aborted.meta.aborted = true;
+    state = polygonStatusReducer(state, aborted);
+    expect(state.byPolygon.a).toMatchObject({ state: 'success', message: null });
+    expect(state.byPolygon.b).toMatchObject({ state: 'idle', message: null });
+
+    state = polygonStatusReducer(state, fetchPolygonWeather.pending('r2', ARGS));
+    state = polygonStatusReducer(state, fetchPolygonWeather.rejected(new Error('Network Error'), 'r2', ARGS));
+    expect(state.byPolygon.a).toMatchObject({ state: 'error', message: 'Network Error', lastUpdated: 5 });
+  });
+
+  it('forgets deleted polygons', () => {
+    const state = polygonStatusReducer(initial, fetchPolygonWeather.pending('r1', ARGS));
+    expect(polygonStatusReducer(state, deletePolygon('a')).byPolygon).not.toHaveProperty('a');
+  });
+});
+
+describe('fetchPolygonWeather', () => {
+  it('fetches the polygons of each source and stores their outcome', async () => {
+    const store = createStore();
+    const id = addPolygon(store);
+    fetchMock.mockResolvedValue([{ polygonId: id, error: null }]);
+
+    await store.dispatch(fetchPolygonWeather({ polygonIds: [id], startTime: 0, endTime: 3600000 }));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [polygons, , start, end, dataSource] = fetchMock.mock.calls[0];
+    expect(polygons.map(polygon => polygon.id)).toEqual([id]);
+    expect(dataSource?.id).toBe('temperature');
+    expect([start, end]).toEqual([new Date(0), new Date(3600000)]);
+    expect(recolorPolygons).not.toHaveBeenCalled();
+    expect(store.getState().polygonStatus.byPolygon[id].state).toBe('success');
+  });
+
+  it('fetches polygons on different sources separately', async () => {
+    const field = (id: string, dataSourceId: string): Polygon => ({
+      id, name: id, points: [{ lat: 0, lng: 0 }, { lat: 0, lng: 0.1 }, { lat: 0.1, lng: 0.1 }], dataSourceId, color: '#3388ff'
+    });
+    const store = createStore([field('a', 'precipitation'), field('b', 'temperature'), field('c', 'precipitation')]);
+    fetchMock.mockImplementation(async polygons => polygons.map(polygon => ({ polygonId: polygon.id, error: null })));
+
+    const { payload } = await store.dispatch(fetchPolygonWeather({ polygonIds: ['a', 'b', 'c'], startTime: 0, endTime: 1 }));
+
+    expect(fetchMock.mock.calls.map(([polygons, , , , dataSource]) => [dataSource?.id, polygons.map(polygon => polygon.id)])).toEqual([
+      ['temperature', ['b']],
+      ['precipitation', ['a', 'c']]
+    ]);
+    expect(payload).toHaveLength(3);
+  });
+
+  it('marks every polygon as failed when the fetch throws', async () => {
+    const store = createStore();
+    const id = addPolygon(store);
+    fetchMock.mockRejectedValue(new Error('Provider unavailable'));
+
+    await store.dispatch(fetchPolygonWeather({ polygonIds: [id], startTime: 0, endTime: 1 }));
+
+    expect(store.getState().polygonStatus.byPolygon[id]).toMatchObject({ state: 'error', message: 'Provider unavailable' });
+  });
+
+  it('retries one polygon over the selected range', async () => {
+    const store = createStore();
+    const id = addPolygon(store);
+    fetchMock.mockResolvedValue([{ polygonId: id, error: null }]);
+
+    await store.dispatch(retryPolygonWeather(id));
+
+    const { selectedStartTime, selectedEndTime } = store.getState().timeline;
+    const [, , start, end] = fetchMock.mock.calls[0];
+    expect([start, end]).toEqual([selectedStartTime, selectedEndTime]);
+    expect(store.getState().polygonStatus.byPolygon[id].state).toBe('success');
+  });
+});
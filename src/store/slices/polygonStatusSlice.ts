@@ -0,0 +1,144 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { fetchWeatherDataForPolygons, recolorPolygons } from '../../services/weatherService';
+import { usesColorScale } from '../../services/colorScales';
+import { getPolygonDataSource, groupPolygonsBySource } from '../../services/polygonSources';
+import type { PolygonFetchResult } from '../../services/weatherService';
+import { deletePolygon } from './polygonSlice';
+import { checkPolygonAlerts } from './alertsSlice';
+import type { RootState, AppDispatch } from '../index';
+
+export type PolygonFetchState = 'idle' | 'loading' | 'success' | 'error';
+
+export interface PolygonStatus {
+  state: PolygonFetchState;
+  message: string | null; // error shown for this polygon
+  lastUpdated: number | null; // epoch ms of the last successful fetch
+  requestId: string | null; // fetch that owns the current state; older fetches are ignored
+}
+
+export interface PolygonStatusState {
+  byPolygon: Record<string, PolygonStatus>;
+}
+
+const initialState: PolygonStatusState = {
+  byPolygon: {},
+};
+
+// Range is passed as epoch ms so actions stay serializable
+export interface FetchPolygonWeatherArgs {
+  polygonIds: string[];
+  startTime: number;
+  endTime: number;
+}
+
+// Fetch each polygon's own data source and check their alerts against the new data;
+// aborting the returned promise cancels it
+export const fetchPolygonWeather = createAsyncThunk<
+  PolygonFetchResult[],
+  FetchPolygonWeatherArgs,
+  { state: RootState; dispatch: AppDispatch }
+>('polygonStatus/fetchPolygonWeather', async ({ polygonIds, startTime, endTime }, { dispatch, getState, signal }) => {
+  const { polygons, dataSources, timeline } = getState();
+  const groups = groupPolygonsBySource(
+    polygons.polygons.filter(polygon => polygonIds.includes(polygon.id)),
+    dataSources.availableDataSources,
+    dataSources.selectedDataSourceId
+  );
+
+  // Polygons of one source share batched provider requests
+  const groupResults = await Promise.all(groups.map(group => fetchWeatherDataForPolygons(
+    group.polygons,
+    dispatch,
+    new Date(startTime),
+    new Date(endTime),
+    group.dataSource,
+    signal,
+    timeline.resolutionMode
+  )));
+  const results = ([] as PolygonFetchResult[]).concat(...groupResults);
+
+  // Ramps and classes are fitted to all of a source's polygons, so a partial fetch recolors the rest too
+  const current = getState();
+  const { availableDataSources, selectedDataSourceId, weatherData } = current.dataSources;
+  const scaled = groups.filter(group => usesColorScale(group.dataSource.styling)).map(group => group.dataSource.id);
+  const scaledPolygons = current.polygons.polygons.filter(polygon =>
+    scaled.includes(getPolygonDataSource(polygon, availableDataSources, selectedDataSourceId)?.id ?? '')
+  );
+  if (scaledPolygons.some(polygon => !polygonIds.includes(polygon.id)) && !signal.aborted) {
+    await recolorPolygons(
+      scaledPolygons,
+      weatherData,
+      dispatch,
+      new Date(startTime),
+      new Date(endTime),
+      availableDataSources,
+      selectedDataSourceId
+    );
+  }
+
+  dispatch(checkPolygonAlerts(results.filter(result => !result.error).map(result => result.polygonId)));
+  return results;
+});
+
+// Fetch one polygon again for the currently selected range
+export const retryPolygonWeather = (polygonId: string) => (dispatch: AppDispatch, getState: () => RootState) => {
+  const { selectedStartTime, selectedEndTime } = getState().timeline;
+  return dispatch(fetchPolygonWeather({
+    polygonIds: [polygonId],
+    startTime: selectedStartTime.getTime(),
+    endTime: selectedEndTime.getTime()
+  }));
+};
+
+const polygonStatusSlice = createSlice({
+  name: 'polygonStatus',
+  initialState,
+  reducers: {},
+  extraReducers: builder => {
+    builder
+      .addCase(fetchPolygonWeather.pending, (state, action) => {
+        action.meta.arg.polygonIds.forEach(id => {
+          state.byPolygon[id] = {
+            state: 'loading',
+            message: null,
+            lastUpdated: state.byPolygon[id]?.lastUpdated ?? null,
+            requestId: action.meta.requestId
+          };
+        });
+      })
+      .addCase(fetchPolygonWeather.fulfilled, (state, action) => {
+        action.payload.forEach(result => {
+          const status = state.byPolygon[result.polygonId];
+          if (!status || status.requestId !== action.meta.requestId) {
+            return;
+          }
+          status.state = result.error ? 'error' : 'success';
+          status.message = result.error;
+          if (!result.error) {
+            status.lastUpdated = Date.now();
+          }
+        });
+      })
+      .addCase(fetchPolygonWeather.rejected, (state, action) => {
+        action.meta.arg.polygonIds.forEach(id => {
+          const status = state.byPolygon[id];
+          if (!status || status.requestId !== action.meta.requestId) {
+            return;
+          }
+          // A superseded fetch leaves the polygon as it was before; anything else is an error
+          if (action.meta.aborted) {
+            status.state = status.lastUpdated !== null ? 'success' : 'idle';
+            status.message = null;
+          } else {
+            status.state = 'error';
+            status.message = action.error.message || 'Failed to fetch weather data';
+          }
+        });
+      })
+      .addCase(deletePolygon, (state, action) => {
+        delete state.byPolygon[action.payload];
+      });
+  },
+});
+
+export default polygonStatusSlice.reducer;
@@ -6,17 +6,41 @@ export interface TimelineState {
   selectedStartTime: Date;
   selectedEndTime: Date;
   isRangeMode: boolean; // true for dual-ended, false for single point
+  resolutionMode: ResolutionMode;
+  displayTimeZone: string; // IANA zone for timeline labels, or 'local' for the browser's zone
 }
 
+// 'auto' switches to daily aggregates for long ranges
+export type ResolutionMode = 'auto' | 'hourly' | 'daily';
+
+export interface TimelineWindowPreset {
+  id: string;
+  label: string;
+  days: number; // history shown before now
+}
+
+export const TIMELINE_WINDOW_PRESETS: TimelineWindowPreset[] = [
+  { id: '30d', label: 'Last 30 days', days: 30 },
+  { id: '90d', label: 'Last season (90 days)', days: 90 },
+  { id: '1y', label: 'Last year', days: 365 },
+  { id: '5y', label: 'Last 5 years', days: 5 * 365 },
+];
+
+// Days ahead of now the timeline reaches into forecast data
+export const FORECAST_WINDOW_DAYS = 7;
+
 const now = new Date();
 const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+const forecastEnd = new Date(now.getTime() + FORECAST_WINDOW_DAYS * 24 * 60 * 60 * 1000);
 
 const initialState: TimelineState = {
   startTime: thirtyDaysAgo,
-  endTime: now,
+  endTime: forecastEnd,
   selectedStartTime: new Date(now.getTime() - 24 * 60 * 60 * 1000), // 1 day ago
   selectedEndTime: now,
   isRangeMode: true,
+  resolutionMode: 'auto',
+  displayTimeZone: 'local',
 };
 
 const timelineSlice = createSlice({
@@ -38,11 +62,43 @@ const timelineSlice = createSlice({
       }
     },
     setTimelineWindow: (state, action: PayloadAction<{ start: Date; end: Date }>) => {
-      state.startTime = action.payload.start;
-      state.endTime = action.payload.end;
+      const { start, end } = action.payload;
+      state.startTime = start;
+      state.endTime = end;
+      // Keep the selection inside the new window
+      const clamp = (time: Date) => new Date(Math.min(Math.max(time.getTime(), start.getTime()), end.getTime()));
+      state.selectedStartTime = clamp(state.selectedStartTime);
+      state.selectedEndTime = clamp(state.selectedEndTime);
+    },
+    // Select a period, widening the window when the period lies outside it
+    focusTimeRange: (state, action: PayloadAction<{ start: Date; end: Date }>) => {
+      const { start, end } = action.payload;
+      if (start < state.startTime) {
+        state.startTime = start;
+      }
+      if (end > state.endTime) {
+        state.endTime = end;
+      }
+      state.isRangeMode = true;
+      state.selectedStartTime = start;
+      state.selectedEndTime = end;
+    },
+    setResolutionMode: (state, action: PayloadAction<ResolutionMode>) => {
+      state.resolutionMode = action.payload;
+    },
+    setDisplayTimeZone: (state, action: PayloadAction<string>) => {
+      state.displayTimeZone = action.payload;
     },
   },
 });
 
-export const { setSelectedTimeRange, setSelectedTime, toggleRangeMode, setTimelineWindow } = timelineSlice.actions;
+export const {
+  setSelectedTimeRange,
+  setSelectedTime,
+  toggleRangeMode,
+  setTimelineWindow,
+  focusTimeRange,
+  setResolutionMode,
+  setDisplayTimeZone
+} = timelineSlice.actions;
 export default timelineSlice.reducer; 
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { DEFAULT_UNIT_PREFERENCES } from '../../services/units';
+import type { Quantity, UnitPreferences, UnitSystem } from '../../services/units';
+
+export type UnitsState = UnitPreferences;
+
+const initialState: UnitsState = DEFAULT_UNIT_PREFERENCES;
+
+const unitsSlice = createSlice({
+  name: 'units',
+  initialState,
+  reducers: {
+    setUnitSystem: (state, action: PayloadAction<UnitSystem>) => {
+      state.system = action.payload;
+      // Switching systems resets per-quantity choices
+      state.overrides = {};
+    },
+    setQuantityUnit: (state, action: PayloadAction<{ quantity: Quantity; unitId: string }>) => {
+      state.overrides[action.payload.quantity] = action.payload.unitId;
+    },
+  },
+});
+
+export const { setUnitSystem, setQuantityUnit } = unitsSlice.actions;
+export default unitsSlice.reducer;
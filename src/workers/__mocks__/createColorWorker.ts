@@ -0,0 +1,3 @@
+// Jest has no workers; the client evaluates on the main thread. Returns undefined once
+// react-scripts resets mocks between tests, which the client treats like null.
+export const createColorWorker = jest.fn((): Worker | null => null);
@@ -0,0 +1,45 @@
+import { evaluateBatch } from '../services/colorEvaluation';
+import type { ColorWorkerRequest, ColorWorkerResponse, PolygonSeriesInput } from '../services/colorEvaluation';
+
+// Aggregation and rule evaluation off the main thread. Keeps the latest series per polygon
+// so repeated evaluations (timeline scrubbing, rule edits) only receive the parameters.
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<ColorWorkerRequest>) => void) | null;
+  postMessage: (message: ColorWorkerResponse) => void;
+}
+
+// eslint-disable-next-line no-restricted-globals
+const scope = self as unknown as WorkerScope;
+
+const seriesByPolygon = new Map<string, { version: string; series: PolygonSeriesInput }>();
+
+scope.onmessage = event => {
+  const request = event.data;
+
+  if (request.type === 'forget') {
+    request.polygonIds.forEach(id => seriesByPolygon.delete(id));
+    return;
+  }
+
+  try {
+    const missing: string[] = [];
+    request.polygons.forEach(polygon => {
+      if (polygon.series) {
+        seriesByPolygon.set(polygon.polygonId, { version: polygon.version, series: polygon.series });
+      } else if (seriesByPolygon.get(polygon.polygonId)?.version !== polygon.version) {
+        missing.push(polygon.polygonId);
+      }
+    });
+
+    if (missing.length > 0) {
+      scope.postMessage({ type: 'missing', id: request.id, polygonIds: missing });
+      return;
+    }
+
+    const results = evaluateBatch(request, polygon => seriesByPolygon.get(polygon.polygonId)?.series);
+    scope.postMessage({ type: 'result', id: request.id, results });
+  } catch (error) {
+    scope.postMessage({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,5 @@
+// Starts the color worker. Kept apart from its client because the bundler resolves the worker
+// through import.meta, which Jest cannot parse; tests use the mock next to this file instead.
+export const createColorWorker = (): Worker | null => {
+  return typeof Worker === 'undefined' ? null : new Worker(new URL('./colorWorker.ts', import.meta.url));
+};